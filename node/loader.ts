@@ -4,6 +4,31 @@ type ResolveFn = (
   context: ResolveContext
 ) => Promise<{ url: string; shortCircuit?: boolean } | undefined>;
 
+/**
+ * 插件热重载时为插件入口添加 `?hot=<时间戳>` 以绕过 ESM 缓存，
+ * 这里将该参数传递给插件目录内的子模块，使整个插件重新加载。
+ */
+function propagateHotQuery(
+  result: { url: string; shortCircuit?: boolean } | undefined,
+  parentURL?: string
+) {
+  if (!result || !parentURL?.includes("?hot=")) return result;
+
+  const hot = new URL(parentURL).searchParams.get("hot");
+  const url = new URL(result.url);
+  if (
+    !hot ||
+    url.protocol !== "file:" ||
+    !url.pathname.includes("/plugins/") ||
+    url.pathname.includes("/node_modules/")
+  ) {
+    return result;
+  }
+
+  url.searchParams.set("hot", hot);
+  return { ...result, url: url.href };
+}
+
 /**
  * 自定义 resolve hook
  */
@@ -37,5 +62,8 @@ export async function resolve(
     }
   }
 
-  return nextResolve(specifier, context);
+  return propagateHotQuery(
+    await nextResolve(specifier, context),
+    context.parentURL
+  );
 }
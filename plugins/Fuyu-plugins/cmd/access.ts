@@ -0,0 +1,233 @@
+import logger from "@log/index.ts";
+import type {
+  CommandContext,
+  CommandDef,
+  CommandFlagDef,
+  SubcommandDef,
+} from "@plugin/BasePlugin.ts";
+import type { AccessEntry } from "@type/Database.d.ts";
+import { formatCommandHelp } from "@plugin/PluginCommandRouter.ts";
+import { getUserPermission } from "@plugin/PluginValidator.ts";
+import {
+  addAccessEntry,
+  getAccessConfig,
+  removeAccessEntry,
+  setAllowlistMode,
+  type AccessListName,
+} from "@plugin/PluginAccess.ts";
+
+/** 名单名称的文案键 */
+const LIST_NAMES: Record<AccessListName, string> = {
+  blocked_users: "access.blockedUsers",
+  blocked_chats: "access.blockedChats",
+  allowed_chats: "access.allowedChats",
+};
+
+/** 添加名单项时的选项 */
+const durationFlag: CommandFlagDef[] = [
+  {
+    name: "for",
+    short: "t",
+    type: "duration",
+    description: "有效期（如 30m、12h、7d），省略则永久有效",
+  },
+];
+
+const reasonArg = {
+  name: "reason",
+  rest: true,
+  optional: true,
+  description: "原因",
+};
+
+/**
+ * `/access` 的子命令（权限由 `/access` 命令定义校验）
+ */
+export function createAccessSubcommands(): Record<string, SubcommandDef> {
+  return {
+    list: {
+      description: "查看访问名单",
+      aliases: ["ls"],
+      handler: (_u, _a, ctx) => handleList(ctx),
+    },
+    user: {
+      description: "管理禁止使用的用户",
+      subcommands: {
+        block: {
+          description: "禁止用户使用 Bot",
+          aliases: ["ban"],
+          args: [{ name: "user", type: "user", description: "用户 ID 或 @用户名" }, reasonArg],
+          flags: durationFlag,
+          handler: (_u, _a, ctx) => handleAdd(ctx, "blocked_users", ctx.parsed.user as number),
+        },
+        unblock: {
+          description: "解除禁止",
+          aliases: ["unban"],
+          args: [{ name: "user", type: "user", description: "用户 ID 或 @用户名" }],
+          handler: (_u, _a, ctx) => handleRemove(ctx, "blocked_users", ctx.parsed.user as number),
+        },
+      },
+    },
+    chat: {
+      description: "管理禁止使用的对话和白名单对话",
+      subcommands: {
+        block: {
+          description: "禁止对话使用 Bot",
+          aliases: ["ban"],
+          args: [{ name: "chat", type: "chat", description: "对话 ID 或 @用户名" }, reasonArg],
+          flags: durationFlag,
+          handler: (_u, _a, ctx) => handleAdd(ctx, "blocked_chats", ctx.parsed.chat as number),
+        },
+        unblock: {
+          description: "解除禁止",
+          aliases: ["unban"],
+          args: [{ name: "chat", type: "chat", description: "对话 ID 或 @用户名" }],
+          handler: (_u, _a, ctx) => handleRemove(ctx, "blocked_chats", ctx.parsed.chat as number),
+        },
+        allow: {
+          description: "将群组/频道加入白名单",
+          args: [{ name: "chat", type: "chat", description: "对话 ID 或 @用户名" }, reasonArg],
+          flags: durationFlag,
+          handler: (_u, _a, ctx) => handleAdd(ctx, "allowed_chats", ctx.parsed.chat as number),
+        },
+        disallow: {
+          description: "将群组/频道移出白名单",
+          args: [{ name: "chat", type: "chat", description: "对话 ID 或 @用户名" }],
+          handler: (_u, _a, ctx) => handleRemove(ctx, "allowed_chats", ctx.parsed.chat as number),
+        },
+      },
+    },
+    mode: {
+      description: "查看或切换白名单模式（开启后只有白名单中的群组/频道可以使用）",
+      args: [
+        {
+          name: "state",
+          type: "enum",
+          values: ["on", "off"],
+          optional: true,
+          description: "on: 开启；off: 关闭",
+        },
+      ],
+      handler: (_u, _a, ctx) => handleMode(ctx, ctx.parsed.state as string | undefined),
+    },
+  };
+}
+
+/**
+ * `/access` 未匹配到子命令时回复用法
+ */
+export default async function access(ctx: CommandContext, def: CommandDef) {
+  const help = formatCommandHelp(ctx.prefix, ctx.command, def, undefined, ctx.t);
+  await ctx.reply(
+    ctx.args.length > 0
+      ? `${ctx.t("access.invalidAction", { action: ctx.args[0]! })}\n\n${help}`
+      : `${help}\n\n${ctx.t("access.examples")}`
+  );
+}
+
+/**
+ * 格式化名单项
+ */
+function formatEntry(ctx: CommandContext, entry: AccessEntry): string {
+  let text = `• \`${entry.id}\``;
+  if (entry.reason) text += ` - ${entry.reason}`;
+  text += entry.expires_at
+    ? ctx.t("access.until", { time: new Date(entry.expires_at).toLocaleString(ctx.locale) })
+    : ctx.t("access.permanent");
+  return text;
+}
+
+/*
+ * 处理访问名单列表命令
+ */
+async function handleList(ctx: CommandContext) {
+  const t = ctx.t;
+  try {
+    const config = await getAccessConfig();
+
+    let message = `🛡️ *${t("access.title")}*\n\n`;
+    message += `${t("access.modeStatus", { state: t(config.allowlist_mode ? "access.on" : "access.off") })}\n\n`;
+    for (const [list, key] of Object.entries(LIST_NAMES) as [AccessListName, string][]) {
+      const entries = config[list];
+      message += `*${t("access.listTitle", { name: t(key), count: entries.length })}*\n`;
+      message += entries.length > 0
+        ? entries.map((entry) => formatEntry(ctx, entry)).join("\n")
+        : t("access.none");
+      message += "\n\n";
+    }
+    message += t("access.tip");
+
+    await ctx.reply(message);
+  } catch (error) {
+    logger.error(error, "获取访问名单时出错:");
+    await ctx.reply(t("access.listError"));
+  }
+}
+
+/*
+ * 处理添加名单项命令
+ */
+async function handleAdd(ctx: CommandContext, list: AccessListName, id: number) {
+  const t = ctx.t;
+  try {
+    if (list === "blocked_users" && (await getUserPermission(id)) !== "user") {
+      await ctx.reply(t("access.cannotBlockAdmin", { id }));
+      return;
+    }
+
+    const seconds = ctx.parsed.for as number | undefined;
+    const reason = (ctx.parsed.reason as string | undefined)?.trim();
+    const entry = await addAccessEntry(list, {
+      id,
+      ...(reason && { reason }),
+      ...(ctx.userId !== null && { added_by: ctx.userId }),
+      ...(seconds && { expires_at: Date.now() + seconds * 1000 }),
+    });
+
+    await ctx.reply(`${t("access.added", { name: t(LIST_NAMES[list]) })}\n\n${formatEntry(ctx, entry)}`);
+  } catch (error) {
+    logger.error(error, "添加访问名单时出错:");
+    await ctx.reply(t("access.addError"));
+  }
+}
+
+/*
+ * 处理移除名单项命令
+ */
+async function handleRemove(ctx: CommandContext, list: AccessListName, id: number) {
+  const t = ctx.t;
+  try {
+    const removed = await removeAccessEntry(list, id);
+    await ctx.reply(
+      t(removed ? "access.removed" : "access.notInList", { id, name: t(LIST_NAMES[list]) })
+    );
+  } catch (error) {
+    logger.error(error, "移除访问名单时出错:");
+    await ctx.reply(t("access.removeError"));
+  }
+}
+
+/*
+ * 处理白名单模式命令
+ */
+async function handleMode(ctx: CommandContext, state?: string) {
+  const t = ctx.t;
+  try {
+    if (state) {
+      await setAllowlistMode(state === "on");
+    }
+    const config = await getAccessConfig();
+
+    const stateText = t(config.allowlist_mode ? "access.on" : "access.off");
+    let message = state
+      ? t("access.modeChanged", { state: stateText })
+      : t("access.modeStatus", { state: stateText });
+    if (config.allowlist_mode && config.allowed_chats.length === 0) {
+      message += `\n\n${t("access.emptyAllowlist")}`;
+    }
+    await ctx.reply(message);
+  } catch (error) {
+    logger.error(error, "切换白名单模式时出错:");
+    await ctx.reply(t("access.modeError"));
+  }
+}
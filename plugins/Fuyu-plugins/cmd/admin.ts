@@ -8,6 +8,16 @@ import { convertPhotoToBase64, generateImage } from "@function/genImg.ts";
 import { deleteImgCache } from "@db/delete.ts";
 import { updateImgCache } from "@db/update.ts";
 import type { updateNewMessage } from "tdlib-types";
+import type { PluginAPI, Translator } from "@plugin/BasePlugin.ts";
+import {
+  assignRole,
+  deleteRole,
+  getRolesConfig,
+  getUserPermissionNodes,
+  getUserRoles,
+  setRole,
+  unassignRole,
+} from "@plugin/PluginRoles.ts";
 import path from "path";
 import { fileURLToPath } from "url";
 import fs from "fs/promises";
@@ -15,12 +25,14 @@ import fs from "fs/promises";
 export default async function setAdmin(
   update: updateNewMessage,
   args: string[],
-  client: Client
+  client: Client,
+  api: PluginAPI,
+  t: Translator
 ) {
   try {
     if (!args || args.length === 0) {
       await sendMessage(client, update.message.chat_id, {
-        text: "当前使用方法\n/admin <password> - 设置超级管理员password在服务器开启日志中会显示\n/admin add <user_id> - 设置管理员\n/admin clear <user_id> - 撤销管理员",
+        text: t("admin.usage"),
       });
       return;
     }
@@ -33,7 +45,7 @@ export default async function setAdmin(
       // 需要已存在超级管理员并且调用者为超级管理员
       if (!config?.super_admin) {
         await sendMessage(client, update.message.chat_id, {
-          text: "❌ 系统尚未设置超级管理员",
+          text: t("admin.noOwner"),
         });
         return;
       }
@@ -45,15 +57,27 @@ export default async function setAdmin(
 
       if (currentUserId !== config.super_admin) {
         await sendMessage(client, update.message.chat_id, {
-          text: "❌ 只有超级管理员可以执行此操作",
+          text: t("admin.ownerOnly"),
         });
         return;
       }
 
+      // 未提供用户ID时进入交互模式
+      if (!args[1]) {
+        const reply = await api.ask(
+          update,
+          t(cmd === "add" ? "admin.askAdd" : "admin.askClear")
+        );
+        if (!reply) return;
+        if (reply.message.content._ === "messageText") {
+          args = [cmd, reply.message.content.text.text.trim()];
+        }
+      }
+
       if (cmd === "clear") {
         if (!args[1]) {
           await sendMessage(client, update.message.chat_id, {
-            text: "❌ 请提供要撤销的用户ID：/admin clear <user_id>",
+            text: t("admin.clearUsage"),
           });
           return;
         }
@@ -61,7 +85,7 @@ export default async function setAdmin(
         const targetUserId = Number(args[1]);
         if (!Number.isInteger(targetUserId) || targetUserId <= 0) {
           await sendMessage(client, update.message.chat_id, {
-            text: "❌ 无效的用户ID格式，请输入正整数",
+            text: t("admin.invalidUserId"),
           });
           return;
         }
@@ -69,7 +93,7 @@ export default async function setAdmin(
         // 不能撤销超级管理员自己的权限
         if (config.super_admin && targetUserId === config.super_admin) {
           await sendMessage(client, update.message.chat_id, {
-            text: "❌ 无法撤销超级管理员（自己）的权限",
+            text: t("admin.cannotClearOwner"),
           });
           return;
         }
@@ -77,7 +101,7 @@ export default async function setAdmin(
         const currentAdmins = config.admin || [];
         if (!currentAdmins.includes(targetUserId)) {
           await sendMessage(client, update.message.chat_id, {
-            text: `⚠️ 用户 ${targetUserId} 不在管理员列表中，无法移除`,
+            text: t("admin.notAdmin", { userId: targetUserId }),
           });
           return;
         }
@@ -89,7 +113,7 @@ export default async function setAdmin(
         });
 
         await sendMessage(client, update.message.chat_id, {
-          text: `✅ 已清除用户 ${targetUserId} 的管理员权限`,
+          text: t("admin.cleared", { userId: targetUserId }),
         });
 
         logger.info(`管理员已清除：用户ID ${targetUserId}`);
@@ -99,7 +123,7 @@ export default async function setAdmin(
       // add
       if (!args[1]) {
         await sendMessage(client, update.message.chat_id, {
-          text: "❌ 请提供要设置的用户ID：/admin add <user_id>",
+          text: t("admin.addUsage"),
         });
         return;
       }
@@ -107,7 +131,7 @@ export default async function setAdmin(
       const targetUserId = Number(args[1]);
       if (!Number.isInteger(targetUserId) || targetUserId <= 0) {
         await sendMessage(client, update.message.chat_id, {
-          text: "❌ 无效的用户ID格式，请输入正整数",
+          text: t("admin.invalidUserId"),
         });
         return;
       }
@@ -121,19 +145,37 @@ export default async function setAdmin(
         });
 
         await sendMessage(client, update.message.chat_id, {
-          text: `✅ 已设置用户 ${targetUserId} 为管理员`,
+          text: t("admin.added", { userId: targetUserId }),
         });
 
         logger.info(`管理员已添加：用户ID ${targetUserId}`);
       } else {
         await sendMessage(client, update.message.chat_id, {
-          text: `⚠️ 用户 ${targetUserId} 已经是管理员`,
+          text: t("admin.alreadyAdmin", { userId: targetUserId }),
         });
       }
 
       return;
     }
 
+    // 角色管理（仅超级管理员）
+    if (cmd === "role") {
+      let currentUserId: number | null = null;
+      if (update.message.sender_id?._ === "messageSenderUser") {
+        currentUserId = update.message.sender_id.user_id;
+      }
+
+      if (!config?.super_admin || currentUserId !== config.super_admin) {
+        await sendMessage(client, update.message.chat_id, {
+          text: t("admin.ownerOnly"),
+        });
+        return;
+      }
+
+      await handleRole(update, args.slice(1), client, t);
+      return;
+    }
+
     // 处理临时密码设置超级管理员（当命令不是 add/clear 时）
     if (config && config.temp_super_admin_password) {
       const inputPassword = args[0];
@@ -147,7 +189,7 @@ export default async function setAdmin(
 
         if (!userId) {
           await sendMessage(client, update.message.chat_id, {
-            text: "❌ 无法获取用户ID",
+            text: t("admin.noUserId"),
           });
           return;
         }
@@ -161,14 +203,14 @@ export default async function setAdmin(
         await removeConfigFields("admin", ["temp_super_admin_password"]);
 
         await sendMessage(client, update.message.chat_id, {
-          text: "✅ 超级管理员设置成功！临时密码已失效。",
+          text: t("admin.ownerSet"),
         });
 
         logger.info(`超级管理员已设置：用户ID ${userId}`);
         return;
       } else {
         await sendMessage(client, update.message.chat_id, {
-          text: "❌ 密码错误",
+          text: t("admin.wrongPassword"),
         });
         return;
       }
@@ -177,7 +219,7 @@ export default async function setAdmin(
     // 如果没有临时密码且不是 add/clear，则需要检查当前用户是否为超级管理员
     if (!config?.super_admin) {
       await sendMessage(client, update.message.chat_id, {
-        text: "❌ 系统尚未设置超级管理员",
+        text: t("admin.noOwner"),
       });
       return;
     }
@@ -188,7 +230,7 @@ export default async function setAdmin(
 
       if (adminList.length === 0) {
         await sendMessage(client, update.message.chat_id, {
-          text: "当前没有设置任何管理员。",
+          text: t("admin.noAdmins"),
         });
         return;
       }
@@ -310,13 +352,167 @@ export default async function setAdmin(
 
     // 如果走到这里，说明命令既不是 add/clear，也不是临时密码设置，且系统已有超级管理员
     await sendMessage(client, update.message.chat_id, {
-      text: "❌ 无效的命令或参数。请使用 /admin add <user_id> 或 /admin clear <user_id>，或 /admin <password> 来设置超级管理员（当存在临时密码时）。",
+      text: t("admin.invalid"),
     });
     return;
   } catch (error) {
     logger.error(error, "setAdmin 命令处理失败:");
     await sendMessage(client, update.message.chat_id, {
-      text: "❌ 命令处理失败，请查看日志",
+      text: t("admin.error"),
     });
   }
 }
+
+/**
+ * 解析正整数用户 ID 或对话 ID（对话 ID 可为负数）
+ */
+function parseId(value: string | undefined, allowNegative = false): number | null {
+  if (!value) return null;
+  const id = Number(value);
+  if (!Number.isInteger(id) || id === 0 || (!allowNegative && id < 0)) {
+    return null;
+  }
+  return id;
+}
+
+/**
+ * 处理角色管理命令
+ * `/admin role list`
+ * `/admin role set <角色名> <权限节点,...> [说明]`
+ * `/admin role delete <角色名>`
+ * `/admin role grant <user_id> <角色名> [chat_id]`
+ * `/admin role revoke <user_id> <角色名> [chat_id]`
+ * `/admin role user <user_id>`
+ */
+async function handleRole(
+  update: updateNewMessage,
+  args: string[],
+  client: Client,
+  t: Translator
+) {
+  const chatId = update.message.chat_id;
+  const reply = (text: string) =>
+    sendMessage(client, chatId, {
+      text,
+      reply_to_message_id: update.message.id,
+    });
+
+  try {
+    const action = args[0];
+
+    if (action === "list" || action === undefined) {
+      const { roles, assignments } = await getRolesConfig();
+      const entries = Object.entries(roles);
+      if (entries.length === 0) {
+        await reply(t("admin.roleUsage"));
+        return;
+      }
+
+      let text = `👥 *${t("admin.roleList", { count: entries.length })}*\n\n`;
+      for (const [name, role] of entries) {
+        text += `• *${name}*`;
+        if (role.description) text += ` - ${role.description}`;
+        text += `\n  🔑 ${role.permissions.map((p) => `\`${p}\``).join(", ") || t("admin.none")}\n`;
+        const holders = assignments.filter((a) => a.role === name);
+        if (holders.length > 0) {
+          text += `  👤 ${holders
+            .map((a) => (a.chat_id !== undefined ? `${a.user_id}@${a.chat_id}` : `${a.user_id}`))
+            .join(", ")}\n`;
+        }
+      }
+      await reply(text.trimEnd());
+      return;
+    }
+
+    if (action === "set") {
+      const name = args[1];
+      const nodes = (args[2] ?? "")
+        .split(",")
+        .map((n) => n.trim())
+        .filter(Boolean);
+      if (!name || nodes.length === 0) {
+        await reply(t("admin.roleSetUsage"));
+        return;
+      }
+      const description = args.slice(3).join(" ") || undefined;
+      const result = await setRole(name, nodes, description);
+      const message = t(result.messageKey, result.messageParams);
+      await reply(result.success ? `✅ ${message}` : `❌ ${message}`);
+      return;
+    }
+
+    if (action === "delete") {
+      const name = args[1];
+      if (!name) {
+        await reply(t("admin.roleDeleteUsage"));
+        return;
+      }
+      await reply(
+        (await deleteRole(name))
+          ? t("admin.roleDeleted", { name })
+          : t("admin.roleNotFound", { name })
+      );
+      return;
+    }
+
+    if (action === "grant" || action === "revoke") {
+      const userId = parseId(args[1]);
+      const role = args[2];
+      const targetChatId = args[3] ? parseId(args[3], true) : undefined;
+      if (!userId || !role || targetChatId === null) {
+        await reply(t("admin.roleGrantUsage", { action }));
+        return;
+      }
+
+      if (action === "grant") {
+        const result = await assignRole(userId, role, targetChatId);
+        const message = t(result.messageKey, result.messageParams);
+        await reply(
+          result.success
+            ? `✅ ${message}${targetChatId !== undefined ? t("admin.roleChatOnly", { chatId: targetChatId }) : ""}`
+            : `❌ ${message}`
+        );
+      } else {
+        await reply(
+          (await unassignRole(userId, role, targetChatId))
+            ? t("admin.roleRevoked", { userId, role })
+            : targetChatId !== undefined
+              ? t("admin.roleNotAssignedInChat", { userId, role, chatId: targetChatId })
+              : t("admin.roleNotAssigned", { userId, role })
+        );
+      }
+      return;
+    }
+
+    if (action === "user") {
+      const userId = parseId(args[1]);
+      if (!userId) {
+        await reply(t("admin.roleUserUsage"));
+        return;
+      }
+      const roles = await getUserRoles(userId);
+      const nodes = await getUserPermissionNodes(userId);
+      const { assignments } = await getRolesConfig();
+      const chatRoles = assignments.filter(
+        (a) => a.user_id === userId && a.chat_id !== undefined
+      );
+
+      let text = `👤 *${t("admin.roleUser", { userId })}*\n\n`;
+      text += `*${t("admin.roleGlobal")}* ${roles.join(", ") || t("admin.none")}\n`;
+      text += `*${t("admin.roleNodes")}* ${nodes.map((n) => `\`${n}\``).join(", ") || t("admin.none")}\n`;
+      if (chatRoles.length > 0) {
+        text += `*${t("admin.roleChats")}*\n`;
+        for (const a of chatRoles) {
+          text += `• ${a.role} @ ${a.chat_id}\n`;
+        }
+      }
+      await reply(text.trimEnd());
+      return;
+    }
+
+    await reply(t("admin.roleInvalid"));
+  } catch (error) {
+    logger.error(error, "角色管理命令处理失败:");
+    await reply(t("admin.error"));
+  }
+}
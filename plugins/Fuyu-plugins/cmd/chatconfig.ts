@@ -0,0 +1,251 @@
+import logger from "@log/index.ts";
+import type {
+  CommandContext,
+  CommandDef,
+  PluginAPI,
+  SubcommandDef,
+} from "@plugin/BasePlugin.ts";
+import { formatCommandHelp } from "@plugin/PluginCommandRouter.ts";
+import {
+  getChatSettings,
+  resetChatSettings,
+  setChatCommandEnabled,
+  setChatLanguage,
+  setChatPluginEnabled,
+  setChatPrefixes,
+} from "@plugin/PluginChatSettings.ts";
+import { isValidLocale, normalizeLocale } from "@plugin/PluginI18n.ts";
+
+/** 不能在对话中禁用的插件和命令（否则无法再通过 /chatconfig 恢复） */
+const PROTECTED_PLUGINS = ["Fuyu-plugins"];
+const PROTECTED_COMMANDS = ["chatconfig"];
+
+/**
+ * `/chatconfig` 的子命令（权限由 `/chatconfig` 命令定义校验）
+ */
+export function createChatConfigSubcommands(api: PluginAPI): Record<string, SubcommandDef> {
+  const stateArg = {
+    name: "state",
+    type: "enum" as const,
+    values: ["on", "off"],
+    description: "on: 启用；off: 禁用",
+  };
+
+  return {
+    show: {
+      description: "查看此对话的设置",
+      aliases: ["ls"],
+      handler: (_u, _a, ctx) => handleShow(ctx),
+    },
+    prefix: {
+      description: "设置此对话的命令前缀（reset 恢复默认）",
+      args: [{ name: "prefixes", rest: true, description: "前缀列表（空格分隔）或 reset" }],
+      handler: (_u, _a, ctx) => handlePrefix(ctx, ctx.parsed.prefixes as string),
+    },
+    language: {
+      description: "设置此对话的语言（reset 恢复默认）",
+      aliases: ["lang"],
+      args: [{ name: "language", description: "语言代码（如 zh、en）或 reset" }],
+      handler: (_u, _a, ctx) => handleLanguage(ctx, ctx.parsed.language as string),
+    },
+    plugin: {
+      description: "在此对话中启用或禁用插件",
+      args: [{ name: "name", description: "插件名" }, stateArg],
+      handler: (_u, _a, ctx) =>
+        handlePlugin(ctx, api, ctx.parsed.name as string, ctx.parsed.state === "on"),
+    },
+    command: {
+      description: "在此对话中启用或禁用命令",
+      aliases: ["cmd"],
+      args: [{ name: "name", description: "命令名" }, stateArg],
+      handler: (_u, _a, ctx) =>
+        handleCommand(ctx, api, ctx.parsed.name as string, ctx.parsed.state === "on"),
+    },
+    reset: {
+      description: "清除此对话的全部设置",
+      handler: (_u, _a, ctx) => handleReset(ctx),
+    },
+  };
+}
+
+/**
+ * `/chatconfig` 未匹配到子命令时显示当前设置和用法
+ */
+export default async function chatconfig(ctx: CommandContext, def: CommandDef) {
+  const help = formatCommandHelp(ctx.prefix, ctx.command, def, undefined, ctx.t);
+  if (ctx.args.length > 0) {
+    await ctx.reply(`${ctx.t("chatconfig.invalidAction", { action: ctx.args[0]! })}\n\n${help}`);
+    return;
+  }
+  await ctx.reply(`${help}\n\n${ctx.t("chatconfig.examples")}`);
+}
+
+/*
+ * 处理查看对话设置命令
+ */
+async function handleShow(ctx: CommandContext) {
+  const t = ctx.t;
+  try {
+    const settings = await getChatSettings(ctx.chatId);
+    const list = (items?: string[]) =>
+      items && items.length > 0
+        ? items.map((item) => `\`${item}\``).join(" ")
+        : t("chatconfig.none");
+
+    let message = `⚙️ *${t("chatconfig.title")}*\n\n`;
+    message += `*${t("chatconfig.prefixes")}* ${settings.prefixes ? list(settings.prefixes) : t("chatconfig.default")}\n`;
+    message += `*${t("chatconfig.language")}* ${settings.language ? `\`${settings.language}\`` : t("chatconfig.default")}\n`;
+    message += `*${t("chatconfig.disabledPlugins")}* ${list(settings.disabled_plugins)}\n`;
+    message += `*${t("chatconfig.disabledCommands")}* ${list(settings.disabled_commands)}`;
+
+    await ctx.reply(message);
+  } catch (error) {
+    logger.error(error, "获取对话设置时出错:");
+    await ctx.reply(t("chatconfig.showError"));
+  }
+}
+
+/*
+ * 处理设置命令前缀命令
+ */
+async function handlePrefix(ctx: CommandContext, input: string) {
+  const t = ctx.t;
+  try {
+    const prefixes = input.split(/\s+/).filter(Boolean);
+    if (prefixes.length === 1 && prefixes[0] === "reset") {
+      await setChatPrefixes(ctx.chatId, null);
+      await ctx.reply(t("chatconfig.prefixReset"));
+      return;
+    }
+
+    const invalid = prefixes.filter((prefix) => prefix.length > 3);
+    if (invalid.length > 0) {
+      await ctx.reply(
+        t("chatconfig.prefixInvalid", { prefixes: invalid.map((p) => `\`${p}\``).join(" ") })
+      );
+      return;
+    }
+
+    await setChatPrefixes(ctx.chatId, prefixes);
+    await ctx.reply(
+      t("chatconfig.prefixSet", { prefixes: prefixes.map((p) => `\`${p}\``).join(" ") })
+    );
+  } catch (error) {
+    logger.error(error, "设置命令前缀时出错:");
+    await ctx.reply(t("chatconfig.prefixError"));
+  }
+}
+
+/*
+ * 处理设置对话语言命令
+ */
+async function handleLanguage(ctx: CommandContext, language: string) {
+  const t = ctx.t;
+  try {
+    if (language === "reset") {
+      await setChatLanguage(ctx.chatId, null);
+      await ctx.reply(t("chatconfig.languageReset"));
+      return;
+    }
+    if (!isValidLocale(language)) {
+      await ctx.reply(t("chatconfig.languageInvalid", { language }));
+      return;
+    }
+
+    const locale = normalizeLocale(language);
+    await setChatLanguage(ctx.chatId, locale);
+    await ctx.reply(t("chatconfig.languageSet", { locale }));
+  } catch (error) {
+    logger.error(error, "设置对话语言时出错:");
+    await ctx.reply(t("chatconfig.languageError"));
+  }
+}
+
+/*
+ * 处理启用/禁用插件命令
+ */
+async function handlePlugin(
+  ctx: CommandContext,
+  api: PluginAPI,
+  name: string,
+  enabled: boolean
+) {
+  const t = ctx.t;
+  try {
+    if (!api.getPlugins().some((plugin) => plugin.name === name)) {
+      await ctx.reply(t("chatconfig.pluginNotFound", { name }));
+      return;
+    }
+    if (!enabled && PROTECTED_PLUGINS.includes(name)) {
+      await ctx.reply(t("chatconfig.pluginProtected", { name }));
+      return;
+    }
+
+    const changed = await setChatPluginEnabled(ctx.chatId, name, enabled);
+    const state = t(enabled ? "chatconfig.enabled" : "chatconfig.disabled");
+    await ctx.reply(
+      t(changed ? "chatconfig.pluginChanged" : "chatconfig.pluginUnchanged", { name, state })
+    );
+  } catch (error) {
+    logger.error(error, "切换对话插件状态时出错:");
+    await ctx.reply(t("chatconfig.pluginError"));
+  }
+}
+
+/*
+ * 处理启用/禁用命令命令
+ */
+async function handleCommand(
+  ctx: CommandContext,
+  api: PluginAPI,
+  name: string,
+  enabled: boolean
+) {
+  const t = ctx.t;
+  try {
+    // 使用别名时转换为命令定义名
+    const commandName = name.replace(/^[^a-zA-Z0-9_]+/, "");
+    let resolved: string | undefined;
+    for (const plugin of api.getPlugins()) {
+      for (const [cmdName, def] of Object.entries(plugin.instance.cmdHandlers)) {
+        if (cmdName === commandName || def.aliases?.includes(commandName)) {
+          resolved = cmdName;
+        }
+      }
+    }
+    if (!resolved) {
+      await ctx.reply(t("chatconfig.commandNotFound", { name }));
+      return;
+    }
+    if (!enabled && PROTECTED_COMMANDS.includes(resolved)) {
+      await ctx.reply(t("chatconfig.commandProtected", { name: resolved }));
+      return;
+    }
+
+    const changed = await setChatCommandEnabled(ctx.chatId, resolved, enabled);
+    const state = t(enabled ? "chatconfig.enabled" : "chatconfig.disabled");
+    await ctx.reply(
+      t(changed ? "chatconfig.commandChanged" : "chatconfig.commandUnchanged", {
+        name: resolved,
+        state,
+      })
+    );
+  } catch (error) {
+    logger.error(error, "切换对话命令状态时出错:");
+    await ctx.reply(t("chatconfig.commandError"));
+  }
+}
+
+/*
+ * 处理清除对话设置命令
+ */
+async function handleReset(ctx: CommandContext) {
+  const t = ctx.t;
+  try {
+    const removed = await resetChatSettings(ctx.chatId);
+    await ctx.reply(t(removed ? "chatconfig.resetDone" : "chatconfig.resetNothing"));
+  } catch (error) {
+    logger.error(error, "清除对话设置时出错:");
+    await ctx.reply(t("chatconfig.resetError"));
+  }
+}
@@ -1,138 +1,147 @@
-import type { Client } from "tdl";
-import { sendMessage } from "@TDLib/function/message.ts";
-import { isPrivate } from "@TDLib/function/index.ts";
 import logger from "@log/index.ts";
-import type { updateNewMessage } from "tdlib-types";
+import type {
+  CommandContext,
+  CommandDef,
+  PluginAPI,
+  SubcommandDef,
+  Translator,
+} from "@plugin/BasePlugin.ts";
+import { formatCommandHelp } from "@plugin/PluginCommandRouter.ts";
+import type { CmdConfig } from "@type/Database.d.ts";
+import {
+  formatConfigValue,
+  getPluginConfigValues,
+  parseConfigInput,
+  resetPluginConfigValue,
+  setPluginConfigValue,
+} from "@plugin/PluginConfig.ts";
+
+type PermissionOverride = NonNullable<NonNullable<CmdConfig["cmd"]>["permissions"]>[string];
+
+/** 可通过 `/config set` 修改的配置项 */
+const SETTABLE_FIELDS = ["PREFIXES", "helpText", "startText"];
+/** 可通过 `/config delete` 删除的配置项 */
+const DELETABLE_FIELDS = ["helpText", "startText"];
 
-export default async function config(
-  updateNewMessage: updateNewMessage,
-  args: string[],
-  client: Client
-) {
-  const chatId = updateNewMessage.message.chat_id;
-
-  if (!(await isPrivate(client, chatId))) return;
-
-  // 权限校验：只有管理员或超级管理员能触发
-  let userId: number | null = null;
-  if (updateNewMessage.message.sender_id?._ === "messageSenderUser") {
-    userId = updateNewMessage.message.sender_id.user_id;
-  }
-  const { getConfig } = await import("@db/config.ts");
-  const configData = await getConfig("admin");
-  const isAdmin =
-    userId &&
-    (userId === configData?.super_admin ||
-      (configData?.admin || []).includes(userId));
-  if (!isAdmin) {
-    await sendMessage(client, chatId, {
-      text: "❌ 你没有权限使用该命令",
-    });
-    return;
-  }
+/**
+ * `/config` 的子命令（场景与权限由 `/config` 命令定义校验）
+ */
+export function createConfigSubcommands(api: PluginAPI): Record<string, SubcommandDef> {
+  return {
+    list: {
+      description: "查看所有配置",
+      aliases: ["ls"],
+      handler: (_u, _a, ctx) => handleListConfigs(ctx),
+    },
+    get: {
+      description: "查看配置详情",
+      handler: (_u, _a, ctx) => handleGetConfig(ctx),
+    },
+    set: {
+      description: "设置配置值（文本类配置省略值时交互输入）",
+      args: [
+        { name: "field", type: "enum", values: SETTABLE_FIELDS, description: "配置项" },
+        { name: "value", rest: true, optional: true, description: "配置值（支持多行）" },
+      ],
+      handler: (_u, _a, ctx) =>
+        handleSetConfig(
+          ctx,
+          api,
+          ctx.parsed.field as string,
+          ctx.parsed.value as string | undefined
+        ),
+    },
+    delete: {
+      description: "删除配置值",
+      aliases: ["del"],
+      args: [{ name: "field", type: "enum", values: DELETABLE_FIELDS, description: "配置项" }],
+      handler: (_u, _a, ctx) => handleDeleteConfig(ctx, ctx.parsed.field as string),
+    },
+    permission: {
+      description: "设置命令的使用场景和权限",
+      aliases: ["perm"],
+      args: [
+        { name: "command", description: "命令名" },
+        { name: "scope", description: "all | private | group | channel，多个用逗号分隔" },
+        { name: "permission", description: "all | admin | owner | chat_admin | 权限节点" },
+      ],
+      handler: (_u, _a, ctx) =>
+        handleSetPermission(
+          ctx,
+          ctx.parsed.command as string,
+          ctx.parsed.scope as string,
+          ctx.parsed.permission as string
+        ),
+    },
+    plugin: {
+      description: "查看或修改插件配置",
+      args: [
+        { name: "name", description: "插件名" },
+        {
+          name: "action",
+          type: "enum",
+          values: ["get", "set", "reset"],
+          optional: true,
+          default: "get",
+          description: "操作",
+        },
+        { name: "key", optional: true, description: "配置项" },
+        { name: "value", rest: true, optional: true, description: "配置值" },
+      ],
+      handler: (_u, _a, ctx) =>
+        handlePluginConfig(
+          ctx,
+          api,
+          ctx.parsed.name as string,
+          ctx.parsed.action as string,
+          ctx.parsed.key as string | undefined,
+          ctx.parsed.value as string | undefined
+        ),
+    },
+  };
+}
 
-  if (!args || args.length === 0) {
-    await sendMessage(client, chatId, {
-      text:
-        "⚙️ *配置管理命令*\n\n" +
-        "*使用方法：*\n" +
-        "`/config <操作> [参数]`\n\n" +
-        "**可用操作：**\n" +
-        "• `list` - 查看所有配置\n" +
-        "• `get` - 查看配置详情\n" +
-        "• `set <配置项> <值>` - 设置配置值\n" +
-        "• `delete <配置项>` - 删除配置值\n" +
-        "• `permission <命令名> <场景> <权限>` - 设置命令权限\n\n" +
-        "*可修改的配置：*\n" +
-        "• `PREFIXES` - 命令前缀设置\n" +
-        "• `helpText` - 自定义帮助命令文本\n" +
-        "• `startText` - 自定义start命令文本\n\n" +
-        "*示例：*\n" +
-        "`/config list`\n" +
-        "`/config get`\n" +
-        "`/config set PREFIXES / ! .`\n" +
-        "`/config set helpText 这是自定义的帮助文本\\n支持换行符\\n多行显示`\n" +
-        "`/config set startText 欢迎使用我的机器人\\n这是第二行`\n" +
-        "`/config delete helpText`\n" +
-        "`/config delete startText`\n" +
-        "`/config permission help private owner` - help命令只能私聊且仅主人使用\n" +
-        "`/config permission ping all all` - ping命令无限制\n" +
-        "`/config permission status private,group admin` - status命令只能在私聊和群组中由管理员使用\n" +
-        "`/config permission announce group,channel owner` - announce命令只能在群组和频道中由主人使用\n\n" +
-        "💡 **场景选项：** all(全部) | private(私聊) | group(群组) | channel(频道)\n" +
-        "💡 **多场景：** 用逗号分隔，如 `private,channel` 表示私聊和频道都可用\n" +
-        "💡 **权限选项：** all(全部) | admin(管理员) | owner(主人)\n" +
-        "💡 **换行提示：** 在文本中使用 `\\n` 来表示换行符",
-    });
+/**
+ * `/config` 未匹配到子命令时回复用法
+ */
+export default async function config(ctx: CommandContext, def: CommandDef) {
+  const help = formatCommandHelp(ctx.prefix, ctx.command, def, undefined, ctx.t);
+  if (ctx.args.length > 0) {
+    await ctx.reply(`${ctx.t("config.invalidAction", { action: ctx.args[0]! })}\n\n${help}`);
     return;
   }
+  await ctx.reply(`${help}\n\n${ctx.t("config.usage")}`);
+}
 
-  const operation = args[0]!.toLowerCase();
-
-  switch (operation) {
-    case "list":
-      await handleListConfigs(client, chatId);
-      break;
-    case "get":
-      await handleGetConfig(client, chatId);
-      break;
-    case "set":
-      if (args.length < 3) {
-        await sendMessage(client, chatId, {
-          text: "❌ *参数错误*\n\n使用方法：`/config set <配置项> <值>`",
-        });
-        return;
-      }
-      await handleSetConfig(client, chatId, args[1]!, args.slice(2));
-      break;
-    case "delete":
-      if (args.length < 2) {
-        await sendMessage(client, chatId, {
-          text: "❌ *参数错误*\n\n使用方法：`/config delete <配置项>`",
-        });
-        return;
-      }
-      await handleDeleteConfig(client, chatId, args[1]!);
-      break;
-    case "permission":
-      if (args.length < 4) {
-        await sendMessage(client, chatId, {
-          text: "❌ *参数错误*\n\n使用方法：`/config permission <命令名> <场景> <权限>`",
-        });
-        return;
-      }
-      await handleSetPermission(client, chatId, args[1]!, args[2]!, args[3]!);
-      break;
-    default:
-      await sendMessage(client, chatId, {
-        text:
-          "❌ *无效的操作*\n\n" +
-          "支持的操作：`list`、`get`、`set`、`delete`、`permission`\n\n" +
-          "使用 `/config` 查看详细帮助。",
-      });
-  }
+/**
+ * 格式化命令的使用场景（多个场景用分隔符连接）
+ */
+function formatScope(t: Translator, scope: string | string[]): string {
+  const scopes = Array.isArray(scope) ? scope : [scope];
+  return scopes.map((s) => t.find(`config.scope.${s}`) ?? s).join(t("common.separator"));
 }
 
 /**
  * 处理配置列表命令
  */
-async function handleListConfigs(client: Client, chatId: number) {
+async function handleListConfigs(ctx: CommandContext) {
+  const t = ctx.t;
   try {
     const { getConfig } = await import("@db/config.ts");
 
     // 获取配置
     const configData = await getConfig("config");
 
-    let message = "⚙️ **系统配置列表**\n\n";
+    let message = `⚙️ **${t("config.listTitle")}**\n\n`;
 
     // 配置信息
     if (configData) {
-      message += "⌨️ **配置 (config):**\n";
-      message += `• 命令前缀: \`\`\`\n ${configData.PREFIXES?.join(" ") || "未设置"
+      message += `⌨️ **${t("config.section")}**\n`;
+      message += `• ${t("config.prefixes")} \`\`\`\n ${configData.PREFIXES?.join(" ") || t("config.unset")
         }\n\`\`\`\n`;
-      message += `• 自定义帮助文本: ${configData.cmd?.help ? "已设置 (使用 /help 查看)" : "未设置"
+      message += `• ${t("config.helpText")} ${configData.cmd?.help ? t("config.helpSet") : t("config.unset")
         }\n`;
-      message += `• 自定义start文本: ${configData.cmd?.start ? "已设置 (使用 /start 查看)" : "未设置"
+      message += `• ${t("config.startText")} ${configData.cmd?.start ? t("config.startSet") : t("config.unset")
         }\n`;
 
       // 显示命令权限覆盖
@@ -141,55 +150,50 @@ async function handleListConfigs(client: Client, chatId: number) {
         Object.keys(configData.cmd.permissions).length > 0
       ) {
         const count = Object.keys(configData.cmd.permissions).length;
-        message += `• 命令权限覆盖: ${count} 个命令已配置权限\n`;
+        message += `• ${t("config.permissions")} ${t("config.permissionCount", { count })}\n`;
       } else {
-        message += `• 命令权限覆盖: 未设置\n`;
+        message += `• ${t("config.permissions")} ${t("config.unset")}\n`;
       }
       message += "\n";
     } else {
-      message += "⌨️ **配置 (config):**\n";
-      message += "• 命令前缀: 未设置\n";
-      message += "• 自定义帮助文本: 未设置\n";
-      message += "• 自定义start文本: 未设置\n";
-      message += "• 命令权限覆盖: 未设置\n\n";
+      message += `⌨️ **${t("config.section")}**\n`;
+      message += `• ${t("config.prefixes")} ${t("config.unset")}\n`;
+      message += `• ${t("config.helpText")} ${t("config.unset")}\n`;
+      message += `• ${t("config.startText")} ${t("config.unset")}\n`;
+      message += `• ${t("config.permissions")} ${t("config.unset")}\n\n`;
     }
 
-    message += "💡 **提示：** 使用 `/config get` 查看详细配置";
+    message += t("config.listTip");
 
-    await sendMessage(client, chatId, {
-      text: message,
-    });
+    await ctx.reply(message);
   } catch (error) {
     logger.error(error, "获取配置列表时出错:");
-    await sendMessage(client, chatId, {
-      text: "❌ **获取配置列表时发生错误**\n\n请稍后重试。",
-    });
+    await ctx.reply(t("config.listError"));
   }
 }
 
 /**
  * 处理获取配置命令
  */
-async function handleGetConfig(client: Client, chatId: number) {
+async function handleGetConfig(ctx: CommandContext) {
+  const t = ctx.t;
   try {
     const { getConfig } = await import("@db/config.ts");
 
     const config = await getConfig("config");
     if (!config) {
-      await sendMessage(client, chatId, {
-        text: `❌ **配置不存在**\n\n配置未初始化。`,
-      });
+      await ctx.reply(t("config.notInitialized"));
       return;
     }
 
-    let message = `⚙️ **配置详情**\n\n`;
+    let message = `⚙️ **${t("config.detailTitle")}**\n\n`;
 
     // 显示配置
-    message += `⌨️ **配置:**\n`;
-    message += `• 命令前缀: \`${config.PREFIXES?.join("` `") || "未设置"}\`\n`;
-    message += `• 自定义帮助文本: ${config.cmd?.help ? "已设置 (使用 /help 查看)" : "未设置"
+    message += `⌨️ **${t("config.detailSection")}**\n`;
+    message += `• ${t("config.prefixes")} \`${config.PREFIXES?.join("` `") || t("config.unset")}\`\n`;
+    message += `• ${t("config.helpText")} ${config.cmd?.help ? t("config.helpSet") : t("config.unset")
       }\n`;
-    message += `• 自定义start文本: ${config.cmd?.start ? "已设置 (使用 /start 查看)" : "未设置"
+    message += `• ${t("config.startText")} ${config.cmd?.start ? t("config.startSet") : t("config.unset")
       }\n`;
 
     // 显示命令权限覆盖详情
@@ -197,229 +201,120 @@ async function handleGetConfig(client: Client, chatId: number) {
       config.cmd?.permissions &&
       Object.keys(config.cmd.permissions).length > 0
     ) {
-      message += `\n🔒 **命令权限覆盖:**\n`;
-
-      const scopeDesc: Record<string, string> = {
-        all: "全部",
-        private: "私聊",
-        group: "群组",
-        channel: "频道",
-      };
-
-      const permissionDesc: Record<string, string> = {
-        all: "所有用户",
-        admin: "管理员",
-        owner: "主人",
-      };
+      message += `\n🔒 **${t("config.permissionsTitle")}**\n`;
 
       for (const [cmd, perm] of Object.entries(config.cmd.permissions)) {
         const scope = perm.scope || "all";
         const permission = perm.permission || "all";
 
         // 格式化场景显示（处理数组情况）
-        const scopeDisplay = Array.isArray(scope)
-          ? scope.map((s) => scopeDesc[s] || s).join("、")
-          : scopeDesc[scope] || scope;
-
-        const permDisplay = permissionDesc[permission] || permission;
+        const scopeDisplay = formatScope(t, scope);
+        const permDisplay = t.find(`config.permission.${permission}`) ?? permission;
         message += `• \`${cmd}\`: ${scopeDisplay} | ${permDisplay}\n`;
       }
     } else {
-      message += `• 命令权限覆盖: 未设置\n`;
+      message += `• ${t("config.permissions")} ${t("config.unset")}\n`;
     }
 
-    await sendMessage(client, chatId, {
-      text: message,
-    });
+    await ctx.reply(message);
   } catch (error) {
     logger.error(error, "获取配置列表时出错:");
-    await sendMessage(client, chatId, {
-      text: "❌ **获取配置时发生错误**\n\n请稍后重试。",
-    });
+    await ctx.reply(t("config.getError"));
   }
 }
 
 /**
  * 处理设置配置命令
+ * @param value 配置值（保留换行），文本类配置省略时向用户提问
  */
 async function handleSetConfig(
-  client: Client,
-  chatId: number,
+  ctx: CommandContext,
+  api: PluginAPI,
   field: string,
-  value: string | string[]
+  value: string | undefined
 ) {
-  try {
-    const { upsertConfig, getConfig } = await import("@db/config.ts");
-
-    if (field !== "PREFIXES" && field !== "helpText" && field !== "startText") {
-      await sendMessage(client, chatId, {
-        text: `❌ **无效的配置项**\n\n支持的配置项：PREFIXES, helpText, startText\n\n使用 \`/config get\` 查看当前配置。`,
-      });
+  const t = ctx.t;
+  // 文本类配置未提供值时进入交互模式，直接接收用户的下一条消息（支持多行）
+  if (value === undefined && (field === "helpText" || field === "startText")) {
+    const reply = await api.ask(ctx.update, t("config.askValue", { field }));
+    if (!reply) return;
+    if (reply.message.content._ !== "messageText") {
+      await ctx.reply(t("config.textRequired"));
       return;
     }
+    value = reply.message.content.text.text;
+  }
 
-    let parsedValue: any;
-    const updateData: any = {};
+  if (value === undefined || value.trim().length === 0) {
+    await ctx.reply(
+      field === "PREFIXES" ? t("config.prefixesRequired") : t("config.emptyText", { field })
+    );
+    return;
+  }
 
-    // 处理 PREFIXES 字段
-    if (field === "PREFIXES") {
-      if (Array.isArray(value)) {
-        // 验证前缀
-        const validPrefixes = value.filter(
-          (prefix) => prefix.length > 0 && prefix.length <= 3
-        );
-        if (validPrefixes.length === 0) {
-          await sendMessage(client, chatId, {
-            text: "❌ **无效的前缀**\n\n前缀长度必须在 1-3 个字符之间。",
-          });
-          return;
-        }
-        parsedValue = validPrefixes;
-      } else {
-        await sendMessage(client, chatId, {
-          text: "❌ **参数格式错误**\n\n设置前缀需要提供多个前缀参数。\n\n示例：`/config set PREFIXES / ! . ~`",
-        });
-        return;
-      }
-      updateData[field] = parsedValue;
-    }
-    // 处理 helpText 字段
-    else if (field === "helpText") {
-      // 将数组合并为字符串，保持原始的换行符
-      parsedValue = Array.isArray(value) ? value.join(" ") : value;
-      // 将 \n 转换为实际的换行符
-      parsedValue = parsedValue.replace(/\\n/g, "\n");
-
-      if (!parsedValue || parsedValue.trim().length === 0) {
-        await sendMessage(client, chatId, {
-          text: "❌ **无效的帮助文本**\n\n帮助文本不能为空。\n\n示例：`/config set helpText 这是自定义的帮助信息\\n支持换行符\\n多行显示`",
-        });
-        return;
-      }
+  try {
+    const { upsertConfig, getConfig } = await import("@db/config.ts");
 
-      // 获取当前配置
-      const currentConfig = await getConfig("config");
-      updateData.cmd = {
-        ...currentConfig?.cmd,
-        help: parsedValue,
-      };
-    }
-    // 处理 startText 字段
-    else if (field === "startText") {
-      // 将数组合并为字符串，保持原始的换行符
-      parsedValue = Array.isArray(value) ? value.join(" ") : value;
-      // 将 \n 转换为实际的换行符
-      parsedValue = parsedValue.replace(/\\n/g, "\n");
-
-      if (!parsedValue || parsedValue.trim().length === 0) {
-        await sendMessage(client, chatId, {
-          text: "❌ **无效的start文本**\n\nstart文本不能为空。\n\n示例：`/config set startText 欢迎使用我的机器人\\n这是第二行`",
-        });
+    let parsedValue: string | string[];
+    const updateData: Partial<Omit<CmdConfig, "type">> = {};
+
+    if (field === "PREFIXES") {
+      // 验证前缀
+      const validPrefixes = value
+        .split(/\s+/)
+        .filter((prefix) => prefix.length > 0 && prefix.length <= 3);
+      if (validPrefixes.length === 0) {
+        await ctx.reply(t("config.invalidPrefixes"));
         return;
       }
-
-      // 获取当前配置
+      parsedValue = validPrefixes;
+      updateData.PREFIXES = validPrefixes;
+    } else {
+      parsedValue = value;
       const currentConfig = await getConfig("config");
       updateData.cmd = {
         ...currentConfig?.cmd,
-        start: parsedValue,
+        [field === "helpText" ? "help" : "start"]: value,
       };
     }
 
     await upsertConfig("config", updateData);
 
-    await sendMessage(client, chatId, {
-      text: `✅ **配置更新成功**\n\n配置项: ${field}\n新值: ${JSON.stringify(
-        parsedValue
-      )}\n\n💡 **提示:** 使用 \`/config get\` 查看更新后的配置`,
-    });
+    await ctx.reply(t("config.updated", { field, value: JSON.stringify(parsedValue) }));
 
     logger.info(`配置已更新: config.${field} = ${JSON.stringify(parsedValue)}`);
   } catch (error) {
     logger.error(error, `设置配置 config.${field} 时出错:`);
-    await sendMessage(client, chatId, {
-      text: "❌ **设置配置时发生错误**\n\n请检查参数格式或稍后重试。",
-    });
+    await ctx.reply(t("config.setError"));
   }
 }
 
 /**
  * 处理删除配置命令
  */
-async function handleDeleteConfig(
-  client: Client,
-  chatId: number,
-  field: string
-) {
+async function handleDeleteConfig(ctx: CommandContext, field: string) {
+  const t = ctx.t;
   try {
     const { upsertConfig, getConfig } = await import("@db/config.ts");
 
-    if (field !== "helpText" && field !== "startText") {
-      await sendMessage(client, chatId, {
-        text: `❌ **无效的配置项**\n\n可删除的配置项：helpText, startText\n\n💡 **提示:** PREFIXES 不支持删除操作。`,
-      });
-      return;
-    }
-
-    // 处理 helpText 删除
-    if (field === "helpText") {
-      const currentConfig = await getConfig("config");
-
-      if (!currentConfig?.cmd?.help) {
-        await sendMessage(client, chatId, {
-          text: "❌ **配置不存在**\n\n该配置项未设置,无需删除。",
-        });
-        return;
-      }
-
-      // 删除 help 字段
-      const updateData: any = {
-        cmd: {
-          ...currentConfig.cmd,
-        },
-      };
-      delete updateData.cmd.help;
-
-      await upsertConfig("config", updateData);
-
-      await sendMessage(client, chatId, {
-        text: `✅ **配置删除成功**\n\n配置项: ${field}\n\n💡 **提示:** 使用 \`/config get\` 查看更新后的配置`,
-      });
+    const key = field === "helpText" ? "help" : "start";
+    const currentConfig = await getConfig("config");
 
-      logger.info(`配置已删除: config.${field}`);
+    if (!currentConfig?.cmd?.[key]) {
+      await ctx.reply(t("config.notSet"));
+      return;
     }
-    // 处理 startText 删除
-    else if (field === "startText") {
-      const currentConfig = await getConfig("config");
 
-      if (!currentConfig?.cmd?.start) {
-        await sendMessage(client, chatId, {
-          text: "❌ **配置不存在**\n\n该配置项未设置,无需删除。",
-        });
-        return;
-      }
+    const cmd = { ...currentConfig.cmd };
+    delete cmd[key];
+    await upsertConfig("config", { cmd });
 
-      // 删除 start 字段
-      const updateData: any = {
-        cmd: {
-          ...currentConfig.cmd,
-        },
-      };
-      delete updateData.cmd.start;
-
-      await upsertConfig("config", updateData);
+    await ctx.reply(t("config.deleted", { field }));
 
-      await sendMessage(client, chatId, {
-        text: `✅ **配置删除成功**\n\n配置项: ${field}\n\n💡 **提示:** 使用 \`/config get\` 查看更新后的配置`,
-      });
-
-      logger.info(`配置已删除: config.${field}`);
-    }
+    logger.info(`配置已删除: config.${field}`);
   } catch (error) {
     logger.error(error, `删除配置 config.${field} 时出错:`);
-    await sendMessage(client, chatId, {
-      text: "❌ **删除配置时发生错误**\n\n请稍后重试。",
-    });
+    await ctx.reply(t("config.deleteError"));
   }
 }
 
@@ -427,67 +322,60 @@ async function handleDeleteConfig(
  * 处理设置命令权限
  */
 async function handleSetPermission(
-  client: Client,
-  chatId: number,
+  ctx: CommandContext,
   commandName: string,
   scopeInput: string,
   permission: string
 ) {
+  const t = ctx.t;
   try {
     const { upsertConfig, getConfig } = await import("@db/config.ts");
 
     // 禁止覆盖 config 命令的权限
     if (commandName === "config") {
-      await sendMessage(client, chatId, {
-        text:
-          "❌ **禁止操作**\n\n" +
-          "为了安全起见,`config` 命令的权限无法被覆盖。\n\n" +
-          "💡 **说明:** config 命令始终只能在私聊中由管理员使用,这是系统默认保护设置。",
-      });
+      await ctx.reply(t("config.protected"));
       return;
     }
 
     const validScopes = ["all", "private", "group", "channel"];
 
     // 解析场景参数 - 支持逗号分隔的多个场景
-    let scope: string | string[];
+    let scope: NonNullable<PermissionOverride["scope"]>;
     const scopeParts = scopeInput.split(",").map((s) => s.trim());
 
     // 验证所有场景参数
     for (const s of scopeParts) {
       if (!validScopes.includes(s)) {
-        await sendMessage(client, chatId, {
-          text: `❌ **无效的场景参数**\n\n场景必须是以下之一：${validScopes.join(
-            ", "
-          )}\n\n当前值：${s}`,
-        });
+        await ctx.reply(
+          t("config.invalidScope", { values: validScopes.join(", "), value: s })
+        );
         return;
       }
     }
 
     // 如果只有一个场景或包含 all，使用字符串；否则使用数组
     if (scopeParts.length === 1 || scopeParts.includes("all")) {
-      scope = scopeParts[0]!;
+      scope = scopeParts[0] as Exclude<PermissionOverride["scope"], unknown[] | undefined>;
     } else {
-      scope = scopeParts;
+      scope = scopeParts as Extract<PermissionOverride["scope"], unknown[]>;
     }
 
-    // 验证权限参数
-    const validPermissions = ["all", "admin", "owner"];
-    if (!validPermissions.includes(permission)) {
-      await sendMessage(client, chatId, {
-        text: `❌ **无效的权限参数**\n\n权限必须是以下之一：${validPermissions.join(
-          ", "
-        )}\n\n当前值：${permission}`,
-      });
+    // 验证权限参数（内置权限或权限节点）
+    const { isPermissionNode, isValidPermissionNode } = await import(
+      "@plugin/PluginRoles.ts"
+    );
+    const validPermissions = ["all", "admin", "owner", "chat_admin"];
+    if (isPermissionNode(permission) && !isValidPermissionNode(permission)) {
+      await ctx.reply(
+        t("config.invalidPermission", { values: validPermissions.join(", "), value: permission })
+      );
       return;
     }
 
     // 获取当前配置
     const currentConfig = await getConfig("config");
 
-    // 构建更新数据
-    const updateData: any = {
+    await upsertConfig("config", {
       cmd: {
         ...currentConfig?.cmd,
         permissions: {
@@ -498,39 +386,18 @@ async function handleSetPermission(
           },
         },
       },
-    };
-
-    await upsertConfig("config", updateData);
-
-    // 场景和权限的中文描述
-    const scopeDesc: Record<string, string> = {
-      all: "全部场景",
-      private: "私聊",
-      group: "群组",
-      channel: "频道",
-    };
-
-    const permissionDesc: Record<string, string> = {
-      all: "所有用户",
-      admin: "管理员",
-      owner: "超级管理员",
-    };
-
-    // 格式化场景显示
-    const scopeDisplay = Array.isArray(scope)
-      ? scope.map((s) => scopeDesc[s] || s).join("、")
-      : scopeDesc[scope] || scope;
-
-    await sendMessage(client, chatId, {
-      text:
-        `✅ **命令权限设置成功**\n\n` +
-        `命令: \`${commandName}\`\n` +
-        `场景: ${scopeDisplay} (\`${Array.isArray(scope) ? scope.join(",") : scope
-        }\`)\n` +
-        `权限: ${permissionDesc[permission]} (\`${permission}\`)\n\n` +
-        `💡 **提示:** 这些设置将覆盖命令的默认权限设置`,
     });
 
+    await ctx.reply(
+      t("config.permissionSet", {
+        command: commandName,
+        scope: formatScope(t, scope),
+        scopeValue: Array.isArray(scope) ? scope.join(",") : scope,
+        permission: t.find(`config.permission.${permission}`) ?? t("config.permissionNode"),
+        permissionValue: permission,
+      })
+    );
+
     logger.info(
       `命令权限已设置: ${commandName} - scope=${JSON.stringify(
         scope
@@ -538,8 +405,112 @@ async function handleSetPermission(
     );
   } catch (error) {
     logger.error(error, "设置命令权限时发生错误:");
-    await sendMessage(client, chatId, {
-      text: "❌ **设置命令权限时发生错误**\n\n请稍后重试。",
-    });
+    await ctx.reply(t("config.permissionError"));
+  }
+}
+
+/**
+ * 处理插件配置命令
+ * `/config plugin <插件名> [get] [配置项]`
+ * `/config plugin <插件名> set <配置项> <值>`
+ * `/config plugin <插件名> reset <配置项>`
+ */
+async function handlePluginConfig(
+  ctx: CommandContext,
+  api: PluginAPI,
+  pluginName: string,
+  action: string,
+  key: string | undefined,
+  value: string | undefined
+) {
+  const t = ctx.t;
+  const plugin = api.getPlugin(pluginName);
+  if (!plugin) {
+    await ctx.reply(t("config.pluginNotFound", { name: pluginName }));
+    return;
+  }
+
+  const schema = plugin.instance.configSchema || {};
+  if (Object.keys(schema).length === 0) {
+    await ctx.reply(t("config.pluginNoConfig", { name: pluginName }));
+    return;
+  }
+
+  const field = key ? schema[key] : undefined;
+  if (key && !field) {
+    await ctx.reply(
+      t("config.pluginInvalidKey", {
+        name: pluginName,
+        keys: Object.keys(schema)
+          .map((k) => `\`${k}\``)
+          .join(", "),
+      })
+    );
+    return;
+  }
+
+  try {
+    switch (action) {
+      case "get": {
+        const values = await getPluginConfigValues(pluginName, schema);
+        const keys = key ? [key] : Object.keys(schema);
+
+        let message = `🧩 **${t("config.pluginTitle", { name: pluginName })}**\n\n`;
+        for (const k of keys) {
+          const f = schema[k]!;
+          const type = f.secret ? `${f.type}, ${t("config.pluginSecret")}` : f.type;
+          message += `• \`${k}\` (${type}): ${formatConfigValue(f, values[k], t)}\n`;
+          if (f.description) message += `  ${f.description}\n`;
+          if (f.enum) message += `  ${t("config.pluginValues")} ${f.enum.join(", ")}\n`;
+          if (f.default !== undefined && !f.secret) {
+            message += `  ${t("config.pluginDefault")} ${formatConfigValue(f, f.default, t)}\n`;
+          }
+        }
+        await ctx.reply(message);
+        return;
+      }
+      case "set": {
+        if (!key || !field || value === undefined) {
+          await ctx.reply(t("config.pluginSetUsage"));
+          return;
+        }
+        const parsed = parseConfigInput(field, value, t);
+        if ("error" in parsed) {
+          await ctx.reply(t("config.pluginInvalidValue", { key, error: parsed.error }));
+          return;
+        }
+        await setPluginConfigValue(pluginName, schema, key, parsed.value);
+        await ctx.reply(
+          t("config.pluginUpdated", {
+            name: pluginName,
+            key,
+            value: formatConfigValue(field, parsed.value, t),
+          })
+        );
+        logger.info(
+          `插件配置已更新: ${pluginName}.${key} = ${field.secret ? "******" : JSON.stringify(parsed.value)}`
+        );
+        return;
+      }
+      case "reset": {
+        if (!key || !field) {
+          await ctx.reply(t("config.pluginResetUsage"));
+          return;
+        }
+        await resetPluginConfigValue(pluginName, schema, key);
+        await ctx.reply(
+          t("config.pluginReset", {
+            name: pluginName,
+            key,
+            value: formatConfigValue(field, field.default, t),
+          })
+        );
+        logger.info(`插件配置已重置: ${pluginName}.${key}`);
+        return;
+      }
+    }
+  } catch (error) {
+    logger.error(error, `处理插件 ${pluginName} 配置时出错:`);
+    await ctx.reply(t("config.pluginError"));
   }
 }
@@ -8,6 +8,7 @@ import fs from "fs/promises";
 import path from "path";
 import { fileURLToPath } from "url";
 import logger from "@log/index.ts";
+import type { Translator } from "@plugin/BasePlugin.ts";
 import { generateImage } from "@function/genImg.ts";
 import { sendMessage } from "@TDLib/function/message.ts";
 import { updateImgCache } from "@db/update.ts";
@@ -331,18 +332,20 @@ async function imageUrlToDataUrl(imageUrl: string): Promise<string> {
  * @param update 消息更新对象。
  * @param args 命令参数。
  * @param client TDLib 客户端。
+ * @param t 翻译函数。
  */
 export default async function dc(
     update: updateNewMessage,
     args: string[],
-    client: Client
+    client: Client,
+    t: Translator
 ) {
     try {
         const target = await getTargetInfo(client, update, args || []);
 
         if (!target?.username) {
             await sendMessage(client, update.message.chat_id, {
-                text: "❌ 未能获取目标用户名。请回复一条消息后使用 /dc，或使用 /dc @username。",
+                text: t("dc.noUsername"),
             });
             return;
         }
@@ -350,7 +353,7 @@ export default async function dc(
         const pageInfo = await fetchTelegramPageInfo(target.username);
         if (!pageInfo?.avatarUrl) {
             await sendMessage(client, update.message.chat_id, {
-                text: "❌ 未能从 t.me 页面解析头像地址，可能该用户没有公开用户名或头像。",
+                text: t("dc.noAvatar"),
             });
             return;
         }
@@ -415,7 +418,7 @@ export default async function dc(
 
         if (!image.path) {
             await sendMessage(client, update.message.chat_id, {
-                text: "❌ 图片生成失败，请稍后再试。",
+                text: t("dc.imageFailed"),
             });
             return;
         }
@@ -450,7 +453,7 @@ export default async function dc(
     } catch (error) {
         logger.error(error, "dc 命令执行失败");
         await sendMessage(client, update.message.chat_id, {
-            text: "❌ 查询 DC 失败，请确认目标用户名有效后重试。",
+            text: t("dc.error"),
         });
     }
 }
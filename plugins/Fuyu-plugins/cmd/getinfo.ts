@@ -7,6 +7,7 @@ import type {
   updateNewMessage,
 } from "tdlib-types";
 import logger from "@log/index.ts";
+import type { Translator } from "@plugin/BasePlugin.ts";
 import { isGroup, isChannel } from "@TDLib/function/index.ts";
 import { sendMessage } from "@TDLib/function/message.ts";
 
@@ -56,78 +57,79 @@ async function isMe(client: Client, sender_id: MessageSender) {
 /**
  * 构建用户信息字符串。
  * @param user - Td$user 对象，包含用户的详细信息。
+ * @param t - 翻译函数。
  * @returns 格式化的用户信息字符串。
  */
-function userinfo(user: Td$user) {
+function userinfo(user: Td$user, t: Translator) {
   const fullName = [user.first_name, user.last_name].filter(Boolean).join(" ");
   const username =
     user.usernames?.active_usernames &&
       user.usernames.active_usernames.length > 0
-      ? user.usernames.active_usernames.map((u) => `@${u}`).join("、")
+      ? user.usernames.active_usernames.map((u) => `@${u}`).join(t("common.separator"))
       : user.usernames?.editable_username
         ? `@${user.usernames.editable_username}`
-        : "无";
+        : t("info.none");
   const premium = user.is_premium ? "⭐ Premium" : "";
   const contact = user.is_contact
     ? user.is_mutual_contact
-      ? "🤝 双向联系人"
-      : "👤 单向联系人"
+      ? t("info.mutualContact")
+      : t("info.contact")
     : "";
-  const restrict = user.restricts_new_chats ? "🔒 限制陌生人私聊" : "";
+  const restrict = user.restricts_new_chats ? t("info.restrictsNewChats") : "";
   const stars =
     user.paid_message_star_count > 0
-      ? `✨ 发送消息需 ${user.paid_message_star_count} ⭐`
+      ? t("info.paidMessage", { stars: user.paid_message_star_count })
       : "";
-  const support = user.is_support ? "🛠 官方支持" : "";
+  const support = user.is_support ? t("info.support") : "";
 
   const typeMap: Record<string, string> = {
-    userTypeBot: "🤖 机器人",
-    userTypeDeleted: "❌ 已删除",
-    userTypeRegular: "👤 普通用户",
-    userTypeUnknown:
-      "❓ 未知(来自官方的解释：除了用户标识符之外，没有关于用户的信息，但该用户尚未被删除。此对象极为罕见，必须像删除用户一样处理。无法对此类用户执行任何操作。)",
+    userTypeBot: t("info.userTypeBot"),
+    userTypeDeleted: t("info.userTypeDeleted"),
+    userTypeRegular: t("info.userTypeRegular"),
+    userTypeUnknown: t("info.userTypeUnknown"),
   };
   const userTypeKey = user.type?._ ?? "userTypeUnknown";
   const userTypeLabel =
-    typeMap[userTypeKey] ?? userTypeKey.replace("userType", "") ?? "未知用户";
+    typeMap[userTypeKey] ?? userTypeKey.replace("userType", "") ?? t("info.unknown");
 
   const badges = [premium, contact, restrict, stars, support]
     .filter(Boolean)
     .join(" · ");
 
-  return `👤 **用户信息**
-├─ 名称：${fullName}
-├─ ID：\`${user.id}\`
-├─ 用户名：${username}
-├─ 电话：${user.phone_number || "未公开"}
-├─ 类型：${userTypeLabel}${badges ? `\n└─ 标签：${badges}` : ""}`;
+  return `👤 **${t("info.userTitle")}**
+├─ ${t("info.name")}${fullName}
+├─ ${t("info.id")}\`${user.id}\`
+├─ ${t("info.username")}${username}
+├─ ${t("info.phone")}${user.phone_number || t("info.hidden")}
+├─ ${t("info.type")}${userTypeLabel}${badges ? `\n└─ ${t("info.badges")}${badges}` : ""}`;
 }
 
 /** 构建消息信息字符串。
  * @param message - Td$message 对象，包含消息的详细信息。
+ * @param t - 翻译函数。
  * @returns 格式化的消息信息字符串。
  */
-function messageinfo(message: Td$message) {
+function messageinfo(message: Td$message, t: Translator) {
   // 发送者识别
   const sender =
     message.sender_id?._ === "messageSenderUser"
       ? `👤 ${message.sender_id.user_id}`
       : message.sender_id?._ === "messageSenderChat"
         ? `💬 ${message.sender_id.chat_id}`
-        : `❓ 未知`;
+        : `❓ ${t("info.unknown")}`;
 
   // 消息状态
-  const pinned = message.is_pinned ? "📌 置顶" : "";
-  const fromOffline = message.is_from_offline ? "🤖 自动回复" : "";
-  const canSave = message.can_be_saved ? "" : "🔒 禁止保存";
-  const channel = message.is_channel_post ? "📢 频道帖子" : "";
+  const pinned = message.is_pinned ? t("info.pinned") : "";
+  const fromOffline = message.is_from_offline ? t("info.fromOffline") : "";
+  const canSave = message.can_be_saved ? "" : t("info.cannotSave");
+  const channel = message.is_channel_post ? t("info.channelPost") : "";
   const paidStar =
     message.paid_message_star_count > 0
-      ? `✨ 花费 ${message.paid_message_star_count}⭐`
+      ? t("info.paidStars", { stars: message.paid_message_star_count })
       : "";
 
   // 时间显示
-  const date = message.date ? formattedDate(message.date) : "未知";
+  const date = message.date ? formattedDate(message.date) : t("info.unknown");
   const editDate =
     message.edit_date && message.edit_date !== 0
       ? formattedDate(message.edit_date)
@@ -135,46 +137,46 @@ function messageinfo(message: Td$message) {
 
   // 内容类型（MessageContent 对象的类型）
   const contentType =
-    message.content?._?.replace("messageContent", "") || "未知";
+    message.content?._?.replace("messageContent", "") || t("info.unknown");
 
   const badges = [pinned, fromOffline, canSave, channel, paidStar]
     .filter(Boolean)
     .join(" · ");
 
-  return `📨 **消息信息**
-├─ 消息 ID：\`${message.id}\`
-├─ 对话 ID：\`${message.chat_id}\`
-├─ 发送者：${sender}
-├─ 类型：${contentType}
-├─ 发送时间：${date}${editDate ? `\n├─ 编辑时间：${editDate}` : ""}${badges ? `\n└─ 标签：${badges}` : ""
+  return `📨 **${t("info.messageTitle")}**
+├─ ${t("info.messageId")}\`${message.id}\`
+├─ ${t("info.chatId")}\`${message.chat_id}\`
+├─ ${t("info.sender")}${sender}
+├─ ${t("info.type")}${contentType}
+├─ ${t("info.date")}${date}${editDate ? `\n├─ ${t("info.editDate")}${editDate}` : ""}${badges ? `\n└─ ${t("info.badges")}${badges}` : ""
     }`;
 }
 
-function chatinfo(chat: Td$chat) {
+function chatinfo(chat: Td$chat, t: Translator) {
   let typeLabel: string;
   let emoji: string;
 
   switch (chat.type._) {
     case "chatTypePrivate":
-      typeLabel = "私聊";
+      typeLabel = t("info.chatTypePrivate");
       emoji = "👤";
       break;
     case "chatTypeBasicGroup":
-      typeLabel = "基本群组";
+      typeLabel = t("info.chatTypeBasicGroup");
       emoji = "👥";
       break;
     case "chatTypeSupergroup":
       // supergroup 还需要判断是否为频道
       if ((chat.type as any)?.is_channel === true) {
-        typeLabel = "频道";
+        typeLabel = t("info.chatTypeChannel");
         emoji = "📢";
       } else {
-        typeLabel = "超级群组";
+        typeLabel = t("info.chatTypeSupergroup");
         emoji = "💬";
       }
       break;
     case "chatTypeSecret":
-      typeLabel = "私密聊天";
+      typeLabel = t("info.chatTypeSecret");
       emoji = "🔐";
       break;
   }
@@ -182,26 +184,27 @@ function chatinfo(chat: Td$chat) {
   const title = chat.title;
   const chat_id = chat.id;
 
-  const protectedContent = chat.has_protected_content ? "🔒 内容受保护" : "";
+  const protectedContent = chat.has_protected_content ? t("info.protectedContent") : "";
 
   // 定时删除
   const autodel =
     chat.message_auto_delete_time > 0
-      ? `⏱ 自动删除 ${chat.message_auto_delete_time}s`
+      ? t("info.autoDelete", { seconds: chat.message_auto_delete_time })
       : "";
 
   const badges = [protectedContent, autodel].filter(Boolean).join(" · ");
 
-  return `${emoji} **对话信息**
-├─ 标题：${title}
-├─ ID：\`${chat_id}\`
-├─ 类型：${typeLabel}${badges ? `\n└─ 标签：${badges}` : ""}`;
+  return `${emoji} **${t("info.chatTitle")}**
+├─ ${t("info.title")}${title}
+├─ ${t("info.id")}\`${chat_id}\`
+├─ ${t("info.type")}${typeLabel}${badges ? `\n└─ ${t("info.badges")}${badges}` : ""}`;
 }
 
 export default async function getinfo(
   updateNewMessage: updateNewMessage,
   _args: string[],
-  client: Client
+  client: Client,
+  t: Translator
 ) {
   try {
     const sections: string[] = [];
@@ -212,7 +215,7 @@ export default async function getinfo(
         _: "getMe",
       });
 
-      sections.push(`🔍 **查询信息**\n${userinfo(me)}`);
+      sections.push(`🔍 **${t("info.self")}**\n${userinfo(me, t)}`);
     } else {
       // 获取发送者信息
       if (updateNewMessage.message.sender_id?._ === "messageSenderUser") {
@@ -220,14 +223,14 @@ export default async function getinfo(
           _: "getUser",
           user_id: updateNewMessage.message.sender_id.user_id,
         });
-        sections.push(`📤 **发送者**\n${userinfo(user)}`);
+        sections.push(`📤 **${t("info.senderTitle")}**\n${userinfo(user, t)}`);
       }
       if (updateNewMessage.message.sender_id?._ === "messageSenderChat") {
         const chat = await client.invoke({
           _: "getChat",
           chat_id: updateNewMessage.message.sender_id.chat_id,
         });
-        sections.push(`📤 **发送者**\n${chatinfo(chat)}`);
+        sections.push(`📤 **${t("info.senderTitle")}**\n${chatinfo(chat, t)}`);
       }
     }
 
@@ -237,14 +240,14 @@ export default async function getinfo(
         _: "getChat",
         chat_id: updateNewMessage.message.chat_id,
       });
-      sections.push(`📍 **所在群组**\n${chatinfo(chat)}`);
+      sections.push(`📍 **${t("info.currentGroup")}**\n${chatinfo(chat, t)}`);
     }
     if (await isChannel(client, updateNewMessage.message.chat_id)) {
       const chat = await client.invoke({
         _: "getChat",
         chat_id: updateNewMessage.message.chat_id,
       });
-      sections.push(`📍 **所在频道**\n${chatinfo(chat)}`);
+      sections.push(`📍 **${t("info.currentChannel")}**\n${chatinfo(chat, t)}`);
     }
 
     // 发送消息信息/被回复用户信息
@@ -257,21 +260,21 @@ export default async function getinfo(
         chat_id: updateNewMessage.message.reply_to.chat_id,
         message_id: updateNewMessage.message.reply_to.message_id,
       });
-      sections.push(`↩️ **回复的消息**\n${messageinfo(replyMessage)}`);
+      sections.push(`↩️ **${t("info.repliedMessage")}**\n${messageinfo(replyMessage, t)}`);
       // 获取发送者信息
       if (replyMessage.sender_id?._ === "messageSenderUser") {
         const user = await client.invoke({
           _: "getUser",
           user_id: replyMessage.sender_id.user_id,
         });
-        sections.push(`👤 **被回复用户**\n${userinfo(user)}`);
+        sections.push(`👤 **${t("info.repliedUser")}**\n${userinfo(user, t)}`);
       }
       if (replyMessage.sender_id?._ === "messageSenderChat") {
         const chat = await client.invoke({
           _: "getChat",
           chat_id: replyMessage.sender_id.chat_id,
         });
-        sections.push(`💬 **被回复对话**\n${chatinfo(chat)}`);
+        sections.push(`💬 **${t("info.repliedChat")}**\n${chatinfo(chat, t)}`);
       }
 
       // 额外支持：如果是转发自频道的消息，获取频道原消息的信息
@@ -287,16 +290,19 @@ export default async function getinfo(
             chat_id: origin.chat_id,
             message_id: origin.message_id,
           });
-          sections.push(`📢 **原频道消息**\n${messageinfo(channelMessage)}`);
+          sections.push(`📢 **${t("info.originMessage")}**\n${messageinfo(channelMessage, t)}`);
           // 也可获取频道信息
           const channelChat = await client.invoke({
             _: "getChat",
             chat_id: origin.chat_id,
           });
-          sections.push(`📢 **原频道**\n${chatinfo(channelChat)}`);
+          sections.push(`📢 **${t("info.originChannel")}**\n${chatinfo(channelChat, t)}`);
         } catch {
           sections.push(
-            `⚠️ 无法获取原频道消息(chat_id: ${origin.chat_id}, message_id: ${origin.message_id})`
+            t("info.originUnavailable", {
+              chatId: origin.chat_id,
+              messageId: origin.message_id,
+            })
           );
         }
       }
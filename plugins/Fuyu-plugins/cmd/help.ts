@@ -6,10 +6,30 @@ import { sendMessage, deleteMessage } from "@TDLib/function/message.ts";
 import { updateImgCache } from "@db/update.ts";
 import { deleteImgCache } from "@db/delete.ts";
 import type {
+  CommandContext,
+  CommandDef,
   CommandScope,
   CommandPermission,
   PluginInfo,
 } from "@plugin/BasePlugin.ts";
+import { formatCommandUsage } from "@plugin/PluginArgs.ts";
+import {
+  resolveSubcommand,
+  formatCommandHelp,
+} from "@plugin/PluginCommandRouter.ts";
+import {
+  getCommandPolicy,
+  getCommandProviders,
+  pickCommandProvider,
+  resolveCommandProviders,
+} from "@plugin/PluginCommandConflict.ts";
+import {
+  getUserPermissionNodes,
+  hasPermissionNode,
+  isPermissionNode,
+} from "@plugin/PluginRoles.ts";
+import { isChatAdmin } from "@plugin/PluginChatAdmin.ts";
+import { createTranslator, getCommandDescription } from "@plugin/PluginI18n.ts";
 import path from "path";
 import { fileURLToPath } from "url";
 import fs from "fs/promises";
@@ -27,7 +47,8 @@ export const scope: CommandScope = "all";
 export const permission: CommandPermission = "all";
 
 export function createHelpHandler(client: Client, plugins: PluginInfo[]) {
-  return async (update: updateNewMessage, args?: string[]) => {
+  return async (update: updateNewMessage, args: string[] | undefined, ctx: CommandContext) => {
+    const t = ctx.t;
     try {
       // 尝试获取自定义帮助文本
       const dbModule = await import("@db/config.ts");
@@ -88,6 +109,17 @@ export function createHelpHandler(client: Client, plugins: PluginInfo[]) {
             ? "admin"
             : "user";
 
+      // 用户通过角色获得的权限节点（用于权限节点命令的可见性）
+      const nodes =
+        userPermission === "user"
+          ? await getUserPermissionNodes(userId, chatId)
+          : [];
+      // 是否为当前群组管理员（用于 chat_admin 命令的可见性，不区分具体权限）
+      const chatAdmin =
+        userPermission === "user" && chatType !== "private"
+          ? await isChatAdmin(client, chatId, sender)
+          : false;
+
       // 读取命令覆盖配置（用于 scope/permission 的覆盖）
       const configData = await getConfig("config").catch(() => null);
 
@@ -122,7 +154,15 @@ export function createHelpHandler(client: Client, plugins: PluginInfo[]) {
           return { allowed: true };
         }
 
-        if (permission !== "all") {
+        if (permission === "chat_admin") {
+          if (userPermission === "user" && !chatAdmin) {
+            return { allowed: false };
+          }
+        } else if (isPermissionNode(permission)) {
+          if (userPermission === "user" && !hasPermissionNode(nodes, permission)) {
+            return { allowed: false };
+          }
+        } else if (permission !== "all") {
           if (permission === "owner" && userPermission !== "owner") {
             return { allowed: false };
           }
@@ -133,9 +173,59 @@ export function createHelpHandler(client: Client, plugins: PluginInfo[]) {
 
         return { allowed: true };
       };
+      const prefix = config?.PREFIXES?.[0] || "/";
+
+      // `/help <命令> [子命令...]`：显示单个命令的用法和子命令树
+      const firstArg = args?.[0];
+      if (firstArg && firstArg.toLowerCase() !== "text") {
+        const usedPrefix = (config?.PREFIXES || []).find((p) =>
+          firstArg.startsWith(p)
+        );
+        const name = usedPrefix ? firstArg.slice(usedPrefix.length) : firstArg;
+        let text = t("help.notFound", { name });
+        // 与命令路由一致：同名命令按冲突策略选出插件，`插件名:命令` 指定插件
+        for (const found of await resolveCommandProviders(plugins, name)) {
+          const { def, plugin } = found;
+          if (!validateAccess(found.name, def.scope, def.permission, true).allowed) {
+            continue;
+          }
+
+          const route = resolveSubcommand(def, args.slice(1), "");
+          const fullName = [found.name, ...route.path].join(" ");
+          text = formatCommandHelp(
+            prefix,
+            fullName,
+            route.node,
+            (sub) =>
+              sub.scope || sub.permission
+                ? validateAccess(fullName, sub.scope, sub.permission, true).allowed
+                : true,
+            createTranslator(ctx.locale, plugin)
+          );
+          text += `\n\n${t("help.fromPlugin", { plugin: plugin.name })}`;
+
+          const providers = getCommandProviders(plugins, found.name);
+          if (providers.length > 1) {
+            text += `\n${t("help.conflict", {
+              plugins: providers.map((p) => p.plugin.name).join(t("common.separator")),
+              command: found.name,
+              prefix,
+            })}`;
+          }
+          break;
+        }
+
+        await sendMessage(client, update.message.chat_id, {
+          text,
+          reply_to_message_id: update.message.id,
+        });
+        return;
+      }
+
       const singleCommandList: Array<{
         name: string;
         cmd: string;
+        def: CommandDef;
         doc: string;
       }> = [];
 
@@ -145,11 +235,25 @@ export function createHelpHandler(client: Client, plugins: PluginInfo[]) {
         description: string;
         cmdHandlers: Array<{
           cmd: string;
+          def: CommandDef;
           description: string;
         }>;
       }> = [];
 
+      // 同名命令只有一个插件能直接调用，其余插件的显示为 `插件名:命令`
+      const commandPolicy = await getCommandPolicy();
+      const displayName = (pluginName: string, cmd: string) => {
+        const providers = getCommandProviders(plugins, cmd);
+        const winner = pickCommandProvider(providers, cmd, commandPolicy);
+        return winner && winner.plugin.name !== pluginName
+          ? `${pluginName}:${cmd}`
+          : cmd;
+      };
+
       for (const plugin of plugins) {
+        const pluginT = createTranslator(ctx.locale, plugin);
+        const describe = (cmd: string, def: CommandDef) =>
+          getCommandDescription(def, cmd, pluginT) || t("help.noDescription");
         const cmdHandlers = plugin.instance?.cmdHandlers || {};
         const commands = Object.entries(cmdHandlers);
 
@@ -173,22 +277,24 @@ export function createHelpHandler(client: Client, plugins: PluginInfo[]) {
         if (finalVisible.length === 0) continue;
 
         const commandInfo = finalVisible.map(([cmd, def]) => ({
-          cmd,
-          description: def.description || "无描述",
+          cmd: displayName(plugin.name, cmd),
+          def,
+          description: describe(cmd, def),
         }));
 
         if (finalVisible.length === 1) {
           const [cmd, def] = finalVisible[0]!;
           singleCommandList.push({
             name: plugin.name,
-            cmd,
-            doc: def.description || "无描述",
+            cmd: displayName(plugin.name, cmd),
+            def,
+            doc: describe(cmd, def),
           });
         } else {
           multiCommandList.push({
             name: plugin.name,
             version: plugin.version,
-            description: plugin.description,
+            description: pluginT.find("plugin.description") ?? plugin.description,
             cmdHandlers: commandInfo,
           });
         }
@@ -203,16 +309,15 @@ export function createHelpHandler(client: Client, plugins: PluginInfo[]) {
         }>;
       }> = [];
 
-      const prefix = config?.PREFIXES?.[0] || "/";
       // 1. 内置命令已移动到插件的命令列表中，无需单独添加“内置命令”分组
 
       // 2. 添加单命令插件列表
       if (singleCommandList.length > 0) {
         data.push({
-          name: "插件命令",
-          desc: "单命令插件列表",
+          name: t("help.singleGroup"),
+          desc: t("help.singleGroupDescription"),
           commands: singleCommandList.map((item) => ({
-            name: `${prefix}${item.cmd}`,
+            name: formatCommandUsage(prefix, item.cmd, item.def),
             desc: `${item.doc}`,
           })),
         });
@@ -224,18 +329,17 @@ export function createHelpHandler(client: Client, plugins: PluginInfo[]) {
           name: plugin.name,
           desc: plugin.description,
           commands: plugin.cmdHandlers.map((cmd) => ({
-            name: `${prefix}${cmd.cmd}`,
+            name: formatCommandUsage(prefix, cmd.cmd, cmd.def),
             desc: cmd.description,
           })),
         });
       }
 
       // 如果请求文本模式（例如 `/help text`），直接发送文本帮助并跳过图片生成
-      const firstArg = args?.[0];
       if (firstArg?.toLowerCase() === "text") {
-        let helpText = `帮助 — Fuyu_TDBot - v${process.env.APP_VERSION || "0.0.0"}\n\n`;
+        let helpText = `${t("help.textTitle", { version: process.env.APP_VERSION || "0.0.0" })}\n\n`;
         for (const group of data) {
-          helpText += `${group.name}：${group.desc}\n`;
+          helpText += `${t("help.groupLine", { name: group.name, description: group.desc })}\n`;
           for (const cmd of group.commands) {
             helpText += `${cmd.name} — ${cmd.desc}\n`;
           }
@@ -275,12 +379,12 @@ export function createHelpHandler(client: Client, plugins: PluginInfo[]) {
         },
         await fs.readFile(path.join(path.dirname(fileURLToPath(import.meta.url)), "./vue/help.vue"), "utf-8"),
         {
-          title: "帮助",
-          description: "Fuyu_TDBot - 帮助命令列表",
+          title: t("help.title"),
+          description: t("help.description"),
           data,
           imgSrc: bgImageBase64,
           version: `Fuyu_TDBot - v${process.env.APP_VERSION || "0.0.0"}`,
-          tips: "提示：发送 /help text 获取文本格式帮助信息",
+          tips: t("help.tips"),
         }
       );
       // 检查缓存是否存在且数据未变化
@@ -0,0 +1,64 @@
+import logger from "@log/index.ts";
+import type { CommandContext, PluginAPI } from "@plugin/BasePlugin.ts";
+import {
+  createTranslator,
+  getAvailableLocales,
+  getUserLanguage,
+  normalizeLocale,
+  setUserLanguage,
+} from "@plugin/PluginI18n.ts";
+
+/**
+ * 查看或设置用户自己使用的语言
+ */
+export default async function language(ctx: CommandContext, api: PluginAPI) {
+  const t = ctx.t;
+  try {
+    if (ctx.userId === null) {
+      await ctx.reply(t("language.userOnly"));
+      return;
+    }
+
+    const plugins = api.getPlugins();
+    const available = getAvailableLocales(plugins);
+    const input = ctx.parsed.language as string | undefined;
+
+    if (!input) {
+      const own = await getUserLanguage(ctx.userId);
+      await ctx.reply(
+        t("language.current", {
+          locale: ctx.locale,
+          source: own ? t("language.sourceUser") : t("language.sourceDefault"),
+          available: available.map((l) => `\`${l}\``).join(" "),
+        })
+      );
+      return;
+    }
+
+    if (input === "reset") {
+      await setUserLanguage(ctx.userId, null);
+      await ctx.reply(t("language.reset"));
+      return;
+    }
+
+    const locale = normalizeLocale(input);
+    const base = locale.split("-")[0] ?? locale;
+    if (!available.includes(locale) && !available.includes(base)) {
+      await ctx.reply(
+        t("language.unsupported", {
+          locale: input,
+          available: available.map((l) => `\`${l}\``).join(" "),
+        })
+      );
+      return;
+    }
+
+    await setUserLanguage(ctx.userId, locale);
+    // 使用新语言回复
+    const self = plugins.find((plugin) => plugin.name === "Fuyu-plugins");
+    await ctx.reply(createTranslator(locale, self)("language.set", { locale }));
+  } catch (error) {
+    logger.error(error, "设置语言时出错:");
+    await ctx.reply(t("language.error"));
+  }
+}
@@ -1,124 +1,136 @@
 import type { Client } from "tdl";
 import { sendMessage } from "@TDLib/function/message.ts";
-import { isPrivate } from "@TDLib/function/index.ts";
 import logger from "@log/index.ts";
-import type { updateNewMessage } from "tdlib-types";
-import type { PluginAPI } from "@plugin/BasePlugin.ts";
-
-export default async function plugin(
-  updateNewMessage: updateNewMessage,
-  args: string[],
+import type {
+  CommandContext,
+  CommandDef,
+  PluginAPI,
+  SubcommandDef,
+  Translator,
+} from "@plugin/BasePlugin.ts";
+import { formatCommandHelp } from "@plugin/PluginCommandRouter.ts";
+import { getPendingMessageStats } from "@TDLib/PendingMessages.ts";
+import {
+  findCommandConflicts,
+  getCommandPolicy,
+  getCommandProviders,
+  pickCommandProvider,
+} from "@plugin/PluginCommandConflict.ts";
+
+/**
+ * `/plugin` 的子命令（场景与权限由 `/plugin` 命令定义校验）
+ */
+export function createPluginSubcommands(
   client: Client,
   api: PluginAPI
-) {
-  const chatId = updateNewMessage.message.chat_id;
-
-  if (!(await isPrivate(client, chatId))) return;
-
-  // 权限校验：只有管理员或超级管理员能触发
-  let userId: number | null = null;
-  if (updateNewMessage.message.sender_id?._ === "messageSenderUser") {
-    userId = updateNewMessage.message.sender_id.user_id;
-  }
-  const { getConfig } = await import("@db/config.ts");
-  const config = await getConfig("admin");
-  const isAdmin =
-    userId &&
-    (userId === config?.super_admin || (config?.admin ?? []).includes(userId));
-  if (!isAdmin) {
-    await sendMessage(client, chatId, {
-      text: "❌ 你没有权限使用该命令",
-    });
-    return;
-  }
-
-  if (!args || args.length === 0) {
-    await sendMessage(client, chatId, {
-      text:
-        "🔌 *插件管理命令*\n\n" +
-        "*使用方法：*\n" +
-        "`/plugin <操作> [参数]`\n\n" +
-        "*可用操作：*\n" +
-        "• `list` - 查看所有插件列表\n" +
-        "• `info <插件名>` - 查看插件详细信息\n" +
-        "• `enable <插件名>` - 启用插件\n" +
-        "• `disable <插件名>` - 禁用插件\n" +
-        "• `reload <插件名>` - 重载插件\n" +
-        "• `delete <插件名>` - 删除插件(不可逆)\n" +
-        "• `disabled` - 查看禁用的插件列表\n\n" +
-        "*示例：*\n" +
-        "`/plugin list`\n" +
-        "`/plugin info 示例插件`\n" +
-        "`/plugin enable 示例插件`\n" +
-        "`/plugin disable 示例插件`\n" +
-        "`/plugin reload 示例插件`",
-    });
-    return;
-  }
-
-  const operation = args[0]!.toLowerCase();
-
-  switch (operation) {
-    case "list":
-      await handleListPlugins(client, chatId, api);
-      break;
-    case "info":
-      if (args.length < 2) {
-        await sendMessage(client, chatId, {
-          text: "❌ *参数错误*\n\n使用方法：`/plugin info <插件名>`",
-        });
-        return;
-      }
-      await handlePluginInfo(client, chatId, args[1]!, api);
-      break;
-    case "enable":
-      if (args.length < 2) {
-        await sendMessage(client, chatId, {
-          text: "❌ *参数错误*\n\n使用方法：`/plugin enable <插件名>`",
-        });
-        return;
-      }
-      await handleEnablePlugin(client, chatId, args[1]!, api);
-      break;
-    case "disable":
-      if (args.length < 2) {
-        await sendMessage(client, chatId, {
-          text: "❌ *参数错误*\n\n使用方法：`/plugin disable <插件名>`",
-        });
-        return;
-      }
-      await handleDisablePlugin(client, chatId, args[1]!, api);
-      break;
-    case "reload":
-      if (args.length < 2) {
-        await sendMessage(client, chatId, {
-          text: "❌ *参数错误*\n\n使用方法：`/plugin reload <插件名>`",
-        });
-        return;
-      }
-      await handleReloadPlugin(client, chatId, args[1]!, api);
-      break;
+): Record<string, SubcommandDef> {
+  const nameArg = [{ name: "name", description: "插件名" }];
+
+  return {
+    list: {
+      description: "查看所有插件列表",
+      aliases: ["ls"],
+      handler: (_u, _a, ctx) => handleListPlugins(client, ctx.chatId, api, ctx.t),
+    },
+    info: {
+      description: "查看插件详细信息",
+      args: nameArg,
+      handler: (_u, _a, ctx) =>
+        handlePluginInfo(client, ctx.chatId, ctx.parsed.name as string, api, ctx.t),
+    },
+    enable: {
+      description: "启用插件",
+      args: nameArg,
+      handler: (_u, _a, ctx) =>
+        handleEnablePlugin(client, ctx.chatId, ctx.parsed.name as string, api, ctx.t),
+    },
+    disable: {
+      description: "禁用插件",
+      args: nameArg,
+      handler: (_u, _a, ctx) =>
+        handleDisablePlugin(client, ctx.chatId, ctx.parsed.name as string, api, ctx.t),
+    },
+    reload: {
+      description: "重载插件",
+      args: nameArg,
+      handler: (_u, _a, ctx) =>
+        handleReloadPlugin(client, ctx.chatId, ctx.parsed.name as string, api, ctx.t),
+    },
+    delete: {
+      description: "删除插件(不可逆)",
+      args: nameArg,
+      handler: (_u, _a, ctx) =>
+        handleDeletePlugin(client, ctx.chatId, ctx.parsed.name as string, api, ctx.t),
+    },
+    install: {
+      description: "从 git 地址或压缩包安装插件",
+      args: [{ name: "source", description: "git 地址或压缩包路径" }],
+      handler: (_u, _a, ctx) =>
+        handleInstallPlugin(client, ctx.chatId, ctx.parsed.source as string, api, ctx.t),
+    },
+    update: {
+      description: "从安装来源更新插件",
+      args: nameArg,
+      handler: (_u, _a, ctx) =>
+        handleUpdatePlugin(client, ctx.chatId, ctx.parsed.name as string, api, ctx.t),
+    },
+    disabled: {
+      description: "查看禁用的插件列表",
+      handler: (_u, _a, ctx) => handleListDisabledPlugins(client, ctx.chatId, ctx.t),
+    },
+    policy: {
+      description: "查看或设置同名命令的处理策略",
+      args: [
+        {
+          name: "policy",
+          type: "enum",
+          values: ["first-wins", "priority"],
+          optional: true,
+          description: "first-wins: 先加载的插件处理；priority: 优先级高的插件处理",
+        },
+      ],
+      handler: (_u, _a, ctx) =>
+        handleCommandPolicy(
+          client,
+          ctx.chatId,
+          api,
+          ctx.t,
+          ctx.parsed.policy as string | undefined
+        ),
+    },
+    prefer: {
+      description: "指定同名命令由哪个插件处理（省略插件名则取消指定）",
+      args: [
+        { name: "command", description: "命令名或别名" },
+        { name: "plugin", optional: true, description: "插件名" },
+      ],
+      handler: (_u, _a, ctx) =>
+        handlePreferCommand(
+          client,
+          ctx.chatId,
+          api,
+          ctx.t,
+          ctx.parsed.command as string,
+          ctx.parsed.plugin as string | undefined
+        ),
+    },
+    queue: {
+      description: "查看更新分发队列和消息发送回执的状态",
+      handler: (_u, _a, ctx) => handleDispatchQueue(client, ctx.chatId, api, ctx.t),
+    },
+  };
+}
 
-    case "delete":
-      if (args.length < 2) {
-        await sendMessage(client, chatId, {
-          text: "❌ *参数错误*\n\n使用方法：`/plugin delete <插件名>`",
-        });
-        return;
-      }
-      await handleDeletePlugin(client, chatId, args[1]!, api);
-      break;
-    case "disabled":
-      await handleListDisabledPlugins(client, chatId);
-      break;
-    default:
-      await sendMessage(client, chatId, {
-        text:
-          "❌ *无效的操作*\n\n" +
-          "支持的操作：`list`、`info`、`enable`、`disable`、`reload`、`unload`、`disabled`\n\n" +
-          "使用 `/plugin` 查看详细帮助。",
-      });
-  }
+/**
+ * `/plugin` 未匹配到子命令时回复用法
+ */
+export default async function plugin(ctx: CommandContext, def: CommandDef) {
+  const help = formatCommandHelp(ctx.prefix, ctx.command, def, undefined, ctx.t);
+  await ctx.reply(
+    ctx.args.length > 0
+      ? `${ctx.t("plugins.invalidAction", { action: ctx.args[0]! })}\n\n${help}`
+      : `${help}\n\n${ctx.t("plugins.examples")}`
+  );
 }
 
 /*
@@ -127,30 +139,31 @@ export default async function plugin(
 async function handleListPlugins(
   client: Client,
   chatId: number,
-  api: PluginAPI
+  api: PluginAPI,
+  t: Translator
 ) {
   try {
     const plugins = api.getPlugins();
 
     if (plugins.length === 0) {
       await sendMessage(client, chatId, {
-        text: "📋 *插件列表*\n\n当前没有加载的插件。",
+        text: `📋 *${t("plugins.listTitle")}*\n\n${t("plugins.listEmpty")}`,
       });
       return;
     }
 
-    let message = "📋 *插件列表*\n\n";
+    let message = `📋 *${t("plugins.listTitle")}*\n\n`;
 
-    message += `*🔌 插件 (${plugins.length}个):*\n`;
+    message += `*🔌 ${t("plugins.listCount", { count: plugins.length })}*\n`;
     plugins.forEach((plugin, index) => {
       const status = "✅"; // 已加载状态
       message += `${index + 1}. ${status} *${plugin.name}* v${plugin.version
         }\n`;
       message += `   📝 ${plugin.description}\n`;
-      message += `   🏷️ 类型: ${plugin.instance.type}\n\n`;
+      message += `   🏷️ ${t("plugins.type")} ${plugin.instance.type}\n\n`;
     });
 
-    message += `💡 *提示：* 使用 \`/plugin info <插件名>\` 查看详细信息`;
+    message += t("plugins.listTip");
 
     await sendMessage(client, chatId, {
       text: message,
@@ -158,7 +171,7 @@ async function handleListPlugins(
   } catch (error) {
     logger.error(error, "获取插件列表时出错:");
     await sendMessage(client, chatId, {
-      text: "❌ *获取插件列表时发生错误*\n\n请稍后重试。",
+      text: t("plugins.listError"),
     });
   }
 }
@@ -170,23 +183,59 @@ async function handlePluginInfo(
   client: Client,
   chatId: number,
   pluginName: string,
-  api: PluginAPI
+  api: PluginAPI,
+  t: Translator
 ) {
   try {
     // 查找插件
     const plugin = api.getPlugin(pluginName);
     if (plugin) {
-      let message = `🔌 *插件信息*\n\n`;
-      message += `📦 *名称:* ${plugin.name}\n`;
-      message += `🏷️ *版本:* ${plugin.version}\n`;
-      message += `📝 *描述:* ${plugin.description}\n`;
-      message += `🔧 *类型:* ${plugin.instance.type}\n`;
-      message += `✅ *状态:* 已加载\n\n`;
+      let message = `🔌 *${t("plugins.infoTitle")}*\n\n`;
+      message += `📦 *${t("plugins.name")}* ${plugin.name}\n`;
+      message += `🏷️ *${t("plugins.version")}* ${plugin.version}\n`;
+      message += `📝 *${t("plugins.description")}* ${plugin.description}\n`;
+      message += `🔧 *${t("plugins.type")}* ${plugin.instance.type}\n`;
+      message += `✅ *${t("plugins.status")}* ${t("plugins.loaded")}\n`;
+
+      // 插件清单信息
+      const manifest = plugin.manifest;
+      if (manifest?.author) {
+        message += `👤 *${t("plugins.author")}* ${manifest.author}\n`;
+      }
+      if (manifest?.homepage) {
+        message += `🔗 *${t("plugins.homepage")}* ${manifest.homepage}\n`;
+      }
+      if (manifest?.minFrameworkVersion) {
+        message += `🧱 *${t("plugins.minFrameworkVersion")}* ${manifest.minFrameworkVersion}\n`;
+      }
+      if (manifest?.accountType) {
+        message += `👥 *${t("plugins.accountType")}* ${manifest.accountType}\n`;
+      }
+      if (manifest?.permissions && manifest.permissions.length > 0) {
+        message += `🔐 *${t("plugins.permissions")}* ${manifest.permissions.join(", ")}\n`;
+      }
+      message += `\n`;
+
+      // 获取插件的依赖
+      const dependencies = Object.entries(plugin.instance.dependencies || {});
+      const softDependencies = Object.entries(
+        plugin.instance.softDependencies || {}
+      );
+      if (dependencies.length > 0 || softDependencies.length > 0) {
+        message += `🔗 *${t("plugins.dependencies")}*\n`;
+        dependencies.forEach(([name, range]) => {
+          message += `• \`${name}\` ${range}\n`;
+        });
+        softDependencies.forEach(([name, range]) => {
+          message += `• \`${name}\` ${range} (${t("plugins.optional")})\n`;
+        });
+        message += `\n`;
+      }
 
       // 获取插件的命令列表
       const cmdHandlers = Object.keys(plugin.instance.cmdHandlers);
       if (cmdHandlers.length > 0) {
-        message += `⚡ *命令 (${cmdHandlers.length}个):*\n`;
+        message += `⚡ *${t("plugins.commands", { count: cmdHandlers.length })}*\n`;
         cmdHandlers.forEach((cmd) => {
           const cmdDef = plugin.instance.cmdHandlers[cmd];
           message += `• \`${cmd}\``;
@@ -198,20 +247,72 @@ async function handlePluginInfo(
         message += `\n`;
       }
 
+      // 获取插件的命令冲突
+      const conflicts = findCommandConflicts(api.getPlugins(), plugin.name);
+      if (conflicts.size > 0) {
+        const policy = await getCommandPolicy();
+        message += `⚠️ *${t("plugins.conflicts", { count: conflicts.size })}*\n`;
+        for (const [name, providers] of conflicts) {
+          const winner = pickCommandProvider(providers, name, policy);
+          const others = providers
+            .filter((p) => p.plugin.name !== plugin.name)
+            .map((p) => p.plugin.name);
+          message += `• ${t("plugins.conflict", {
+            command: name,
+            plugins: others.join(t("common.separator")),
+            winner: winner?.plugin.name ?? "",
+          })}`;
+          if (winner?.plugin.name !== plugin.name) {
+            message += t("plugins.conflictQualified", { command: `${plugin.name}:${name}` });
+          }
+          message += `\n`;
+        }
+        message += `\n`;
+      }
+
       // 获取插件的更新处理器
       const updateHandlers = Object.keys(plugin.instance.updateHandlers);
       if (updateHandlers.length > 0) {
-        message += `📡 *更新处理器 (${updateHandlers.length}个):*\n`;
+        message += `📡 *${t("plugins.updateHandlers", { count: updateHandlers.length })}*\n`;
         updateHandlers.forEach((handler) => {
           message += `• ${handler}\n`;
         });
         message += `\n`;
       }
 
+      // 获取插件的回调处理器
+      const callbackHandlers = Object.keys(plugin.instance.callbackHandlers || {});
+      if (callbackHandlers.length > 0) {
+        message += `🔘 *${t("plugins.callbackHandlers", { count: callbackHandlers.length })}*\n`;
+        callbackHandlers.forEach((handler) => {
+          const callbackDef = plugin.instance.callbackHandlers[handler];
+          message += `• ${handler}`;
+          if (callbackDef?.description) {
+            message += ` - ${callbackDef.description}`;
+          }
+          message += `\n`;
+        });
+        message += `\n`;
+      }
+
+      // 获取插件的中间件
+      const middlewares = Object.entries(plugin.instance.middlewareHandlers || {});
+      if (middlewares.length > 0) {
+        message += `🧅 *${t("plugins.middlewares", { count: middlewares.length })}*\n`;
+        middlewares.forEach(([name, def]) => {
+          message += `• ${name} (${t("plugins.priority", { priority: def.priority ?? 0 })})`;
+          if (def.description) {
+            message += ` - ${def.description}`;
+          }
+          message += `\n`;
+        });
+        message += `\n`;
+      }
+
       // 获取插件的运行任务
       const runHandlers = Object.keys(plugin.instance.runHandlers);
       if (runHandlers.length > 0) {
-        message += `⏰ *定时任务 (${runHandlers.length}个):*\n`;
+        message += `⏰ *${t("plugins.runHandlers", { count: runHandlers.length })}*\n`;
         runHandlers.forEach((handler) => {
           const runDef = plugin.instance.runHandlers[handler];
           message += `• ${handler}`;
@@ -232,13 +333,13 @@ async function handlePluginInfo(
     const fuyuPlugin = api.getPlugin("Fuyu-plugins");
     if (fuyuPlugin && fuyuPlugin.instance.cmdHandlers[pluginName]) {
       const cmdDef = fuyuPlugin.instance.cmdHandlers[pluginName];
-      let message = `⚙️ *系统命令信息*\n\n`;
-      message += `📦 *名称:* ${pluginName}\n`;
+      let message = `⚙️ *${t("plugins.systemCommandTitle")}*\n\n`;
+      message += `📦 *${t("plugins.name")}* ${pluginName}\n`;
       if (cmdDef.description) {
-        message += `📝 *描述:* ${cmdDef.description}\n`;
+        message += `📝 *${t("plugins.description")}* ${cmdDef.description}\n`;
       }
-      message += `✅ *状态:* 已加载\n`;
-      message += `🏷️ *类型:* 系统命令 (Fuyu-plugins)\n`;
+      message += `✅ *${t("plugins.status")}* ${t("plugins.loaded")}\n`;
+      message += `🏷️ *${t("plugins.type")}* ${t("plugins.systemCommand")}\n`;
 
       await sendMessage(client, chatId, {
         text: message,
@@ -248,12 +349,12 @@ async function handlePluginInfo(
 
     // 如果都没找到
     await sendMessage(client, chatId, {
-      text: `❌ *插件未找到*\n\n未找到名为 "${pluginName}" 的插件或命令。\n\n使用 \`/plugin list\` 查看所有可用的插件。`,
+      text: t("plugins.infoNotFound", { name: pluginName }),
     });
   } catch (error) {
     logger.error(error, `获取插件 ${pluginName} 信息时出错:`);
     await sendMessage(client, chatId, {
-      text: "❌ *获取插件信息时发生错误*\n\n请稍后重试。",
+      text: t("plugins.infoError"),
     });
   }
 }
@@ -265,13 +366,14 @@ async function handleEnablePlugin(
   client: Client,
   chatId: number,
   pluginName: string,
-  api: PluginAPI
+  api: PluginAPI,
+  t: Translator
 ) {
   try {
     // 检查插件是否已经加载
     if (api.hasPlugin(pluginName)) {
       await sendMessage(client, chatId, {
-        text: `✅ *插件已启用*\n\n插件 "${pluginName}" 已经处于启用状态。`,
+        text: t("plugins.alreadyEnabled", { name: pluginName }),
       });
       return;
     }
@@ -281,7 +383,7 @@ async function handleEnablePlugin(
     if (success) {
       // 启用成功后自动加载插件
       await sendMessage(client, chatId, {
-        text: `🔄 *插件启用成功，正在加载*\n\n插件 "${pluginName}" 已从禁用列表中移除，正在加载...`,
+        text: t("plugins.enabling", { name: pluginName }),
       });
 
       // 尝试重新扫描/加载插件
@@ -292,28 +394,28 @@ async function handleEnablePlugin(
 
         if (loaded) {
           await sendMessage(client, chatId, {
-            text: `✅ *插件启用并加载成功*\n\n插件 "${pluginName}" 已成功启用并加载。`,
+            text: t("plugins.enabled", { name: pluginName }),
           });
         } else {
           await sendMessage(client, chatId, {
-            text: `⚠️ *插件启用成功但加载失败*\n\n插件 "${pluginName}" 已从禁用列表中移除，但加载时遇到问题。请检查插件文件是否存在。`,
+            text: t("plugins.enableLoadFailed", { name: pluginName }),
           });
         }
       } catch (scanError) {
         logger.error(scanError, `加载插件时出错:`);
         await sendMessage(client, chatId, {
-          text: `⚠️ *插件启用成功但加载失败*\n\n插件 "${pluginName}" 已从禁用列表中移除，但加载时遇到问题。请使用 \`/plugin reload ${pluginName}\` 手动重载。`,
+          text: t("plugins.enableLoadError", { name: pluginName }),
         });
       }
     } else {
       await sendMessage(client, chatId, {
-        text: `⚠️ *启用失败*\n\n插件 "${pluginName}" 可能不在禁用列表中或操作失败。\n\n使用 \`/plugin disabled\` 查看禁用的插件列表。`,
+        text: t("plugins.enableFailed", { name: pluginName }),
       });
     }
   } catch (error) {
     logger.error(error, `启用插件 ${pluginName} 时出错:`);
     await sendMessage(client, chatId, {
-      text: "❌ *启用插件时发生错误*\n\n请稍后重试。",
+      text: t("plugins.enableError"),
     });
   }
 }
@@ -325,14 +427,15 @@ async function handleDisablePlugin(
   client: Client,
   chatId: number,
   pluginName: string,
-  api: PluginAPI
+  api: PluginAPI,
+  t: Translator
 ) {
   try {
     // 检查插件是否存在
     const plugin = api.getPlugin(pluginName);
     if (!plugin) {
       await sendMessage(client, chatId, {
-        text: `❌ *插件未找到*\n\n未找到名为 "${pluginName}" 的插件。\n\n使用 \`/plugin list\` 查看所有可用的插件。`,
+        text: t("plugins.notFound", { name: pluginName }),
       });
       return;
     }
@@ -340,7 +443,7 @@ async function handleDisablePlugin(
     // 检查是否是系统插件，系统插件不能被禁用
     if (plugin.instance.type === "general" && pluginName === "Fuyu-plugins") {
       await sendMessage(client, chatId, {
-        text: `❌ *无法禁用*\n\n无法禁用核心插件 Fuyu-plugins。`,
+        text: t("plugins.cannotDisable"),
       });
       return;
     }
@@ -349,17 +452,17 @@ async function handleDisablePlugin(
 
     if (success) {
       await sendMessage(client, chatId, {
-        text: `✅ *插件禁用成功*\n\n插件 "${pluginName}" 已被禁用。\n\n💡 *提示:* 使用 \`/plugin enable ${pluginName}\` 来重新启用插件。`,
+        text: t("plugins.disabled", { name: pluginName }),
       });
     } else {
       await sendMessage(client, chatId, {
-        text: `⚠️ *禁用失败*\n\n插件 "${pluginName}" 可能已经被禁用或操作失败。`,
+        text: t("plugins.disableFailed", { name: pluginName }),
       });
     }
   } catch (error) {
     logger.error(error, `禁用插件 ${pluginName} 时出错:`);
     await sendMessage(client, chatId, {
-      text: "❌ *禁用插件时发生错误*\n\n请稍后重试。",
+      text: t("plugins.disableError"),
     });
   }
 }
@@ -371,36 +474,37 @@ async function handleReloadPlugin(
   client: Client,
   chatId: number,
   pluginName: string,
-  api: PluginAPI
+  api: PluginAPI,
+  t: Translator
 ) {
   try {
     // 检查插件是否存在
     if (!api.hasPlugin(pluginName)) {
       await sendMessage(client, chatId, {
-        text: `❌ *插件未加载*\n\n插件 "${pluginName}" 当前未加载。\n\n使用 \`/plugin list\` 查看已加载的插件。`,
+        text: t("plugins.notLoaded", { name: pluginName }),
       });
       return;
     }
 
     await sendMessage(client, chatId, {
-      text: `🔄 *开始重载插件*\n\n正在重载插件 "${pluginName}"...`,
+      text: t("plugins.reloading", { name: pluginName }),
     });
 
     const success = await api.reloadPlugin(pluginName, client);
 
     if (success) {
       await sendMessage(client, chatId, {
-        text: `✅ *插件重载成功*\n\n插件 "${pluginName}" 已成功重载。`,
+        text: t("plugins.reloaded", { name: pluginName }),
       });
     } else {
       await sendMessage(client, chatId, {
-        text: `❌ *插件重载失败*\n\n插件 "${pluginName}" 重载时遇到问题。请检查插件文件或日志。`,
+        text: t("plugins.reloadFailed", { name: pluginName }),
       });
     }
   } catch (error) {
     logger.error(error, `重载插件 ${pluginName} 时出错:`);
     await sendMessage(client, chatId, {
-      text: `❌ *重载插件时发生错误*\n\n插件 "${pluginName}" 重载失败。\n\n错误信息已记录到日志中。`,
+      text: t("plugins.reloadError", { name: pluginName }),
     });
   }
 }
@@ -412,36 +516,37 @@ async function handleDeletePlugin(
   client: Client,
   chatId: number,
   pluginName: string,
-  api: PluginAPI
+  api: PluginAPI,
+  t: Translator
 ) {
   try {
     // 禁止删除系统命令或关键插件
     if (pluginName === "Fuyu-plugins") {
       await sendMessage(client, chatId, {
-        text: "❌ *无法删除*\n\n无法删除核心插件 Fuyu-plugins。",
+        text: t("plugins.cannotDelete"),
       });
       return;
     }
 
     await sendMessage(client, chatId, {
-      text: `⚠️ *即将删除插件*\n\n正在尝试删除插件 "${pluginName}"，这将从磁盘中移除插件文件或文件夹，操作不可恢复。请稍候...`,
+      text: t("plugins.deleting", { name: pluginName }),
     });
 
     const success = await api.deletePlugin(pluginName);
 
     if (success) {
       await sendMessage(client, chatId, {
-        text: `✅ *删除成功*\n\n插件 "${pluginName}" 已从磁盘中删除。`,
+        text: t("plugins.deleted", { name: pluginName }),
       });
     } else {
       await sendMessage(client, chatId, {
-        text: `❌ *删除失败*\n\n插件 "${pluginName}" 删除失败，可能插件文件不存在或删除时发生错误。请检查日志以获取详细信息。`,
+        text: t("plugins.deleteFailed", { name: pluginName }),
       });
     }
   } catch (error) {
     logger.error(error, `删除插件 ${pluginName} 时出错:`);
     await sendMessage(client, chatId, {
-      text: `❌ *删除插件时发生错误*\n\n插件 "${pluginName}" 删除失败。错误信息已记录到日志中。`,
+      text: t("plugins.deleteError", { name: pluginName }),
     });
   }
 }
@@ -449,21 +554,21 @@ async function handleDeletePlugin(
 /*
  * 处理禁用插件列表命令
  */
-async function handleListDisabledPlugins(client: Client, chatId: number) {
+async function handleListDisabledPlugins(client: Client, chatId: number, t: Translator) {
   try {
     const { getConfig } = await import("@db/config.ts");
     const pluginsConfig = await getConfig("plugins");
 
     if (!pluginsConfig || !Array.isArray(pluginsConfig.disabled)) {
       await sendMessage(client, chatId, {
-        text: "📋 *禁用插件列表*\n\n当前没有禁用的插件。",
+        text: `📋 *${t("plugins.disabledTitle")}*\n\n${t("plugins.disabledEmpty")}`,
       });
       return;
     }
 
     if (pluginsConfig.disabled.length === 0) {
       await sendMessage(client, chatId, {
-        text: "📋 *禁用插件列表*\n\n当前没有禁用的插件。",
+        text: `📋 *${t("plugins.disabledTitle")}*\n\n${t("plugins.disabledEmpty")}`,
       });
       return;
     }
@@ -474,15 +579,250 @@ async function handleListDisabledPlugins(client: Client, chatId: number) {
 
     await sendMessage(client, chatId, {
       text:
-        `📋 *禁用插件列表*\n\n` +
-        `共 ${pluginsConfig.disabled.length} 个禁用的插件：\n\n` +
+        `📋 *${t("plugins.disabledTitle")}*\n\n` +
+        `${t("plugins.disabledCount", { count: pluginsConfig.disabled.length })}\n\n` +
         disabledList +
-        `\n\n💡 *提示：* 使用 \`/plugin enable <插件名>\` 来启用插件`,
+        `\n\n${t("plugins.disabledTip")}`,
     });
   } catch (error) {
     logger.error(error, "获取禁用插件列表时出错:");
     await sendMessage(client, chatId, {
-      text: "❌ *获取禁用插件列表时发生错误*\n\n请稍后重试。",
+      text: t("plugins.disabledError"),
+    });
+  }
+}
+
+/*
+ * 处理安装插件命令
+ */
+async function handleInstallPlugin(
+  client: Client,
+  chatId: number,
+  source: string,
+  api: PluginAPI,
+  t: Translator
+) {
+  try {
+    await sendMessage(client, chatId, {
+      text: t("plugins.installing", { source }),
+    });
+
+    const result = await api.installPlugin(source);
+
+    if (result.success) {
+      await sendMessage(client, chatId, {
+        text: t("plugins.installed", {
+          message: t(result.messageKey, result.messageParams),
+          name: result.name ?? "",
+        }),
+      });
+    } else {
+      await sendMessage(client, chatId, {
+        text: t("plugins.installFailed", {
+          message: t(result.messageKey, result.messageParams),
+        }),
+      });
+    }
+  } catch (error) {
+    logger.error(error, `安装插件 ${source} 时出错:`);
+    await sendMessage(client, chatId, {
+      text: t("plugins.installError"),
+    });
+  }
+}
+
+/*
+ * 处理更新插件命令
+ */
+async function handleUpdatePlugin(
+  client: Client,
+  chatId: number,
+  pluginName: string,
+  api: PluginAPI,
+  t: Translator
+) {
+  try {
+    if (!api.hasPlugin(pluginName)) {
+      await sendMessage(client, chatId, {
+        text: t("plugins.notLoaded", { name: pluginName }),
+      });
+      return;
+    }
+
+    await sendMessage(client, chatId, {
+      text: t("plugins.updating", { name: pluginName }),
+    });
+
+    const result = await api.updatePlugin(pluginName);
+
+    if (result.success) {
+      await sendMessage(client, chatId, {
+        text: t("plugins.updated", {
+          message: t(result.messageKey, result.messageParams),
+        }),
+      });
+    } else {
+      await sendMessage(client, chatId, {
+        text: t("plugins.updateFailed", {
+          message: t(result.messageKey, result.messageParams),
+        }),
+      });
+    }
+  } catch (error) {
+    logger.error(error, `更新插件 ${pluginName} 时出错:`);
+    await sendMessage(client, chatId, {
+      text: t("plugins.updateError"),
+    });
+  }
+}
+
+/**
+ * 查看或设置同名命令的处理策略
+ */
+async function handleCommandPolicy(
+  client: Client,
+  chatId: number,
+  api: PluginAPI,
+  t: Translator,
+  policy?: string
+) {
+  try {
+    const { getConfig, upsertConfig } = await import("@db/config.ts");
+    if (policy === "first-wins" || policy === "priority") {
+      await upsertConfig("plugins", {
+        disabled: (await getConfig("plugins"))?.disabled ?? [],
+        commandPolicy: policy,
+      });
+      logger.info(`同名命令处理策略已设置为 ${policy}`);
+    }
+
+    const current = await getCommandPolicy();
+    const conflicts = findCommandConflicts(api.getPlugins());
+
+    let message = policy
+      ? `✅ *${t("plugins.policySet")}* \`${current.policy}\`\n\n`
+      : `⚖️ *${t("plugins.policy")}* \`${current.policy}\`\n\n`;
+
+    const overrides = Object.entries(current.overrides);
+    if (overrides.length > 0) {
+      message += `📌 *${t("plugins.overrides")}*\n`;
+      for (const [command, pluginName] of overrides) {
+        message += `• \`${command}\` → ${pluginName}\n`;
+      }
+      message += `\n`;
+    }
+
+    if (conflicts.size === 0) {
+      message += t("plugins.noConflicts");
+    } else {
+      message += `⚠️ *${t("plugins.conflicts", { count: conflicts.size })}*\n`;
+      for (const [name, providers] of conflicts) {
+        const winner = pickCommandProvider(providers, name, current);
+        message += `• \`${name}\`: ${providers
+          .map((p) => p.plugin.name)
+          .join(t("common.separator"))} → ${winner?.plugin.name}\n`;
+      }
+    }
+
+    await sendMessage(client, chatId, { text: message });
+  } catch (error) {
+    logger.error(error, "处理命令冲突策略时出错:");
+    await sendMessage(client, chatId, {
+      text: t("plugins.policyError"),
+    });
+  }
+}
+
+/**
+ * 指定同名命令由哪个插件处理
+ */
+async function handlePreferCommand(
+  client: Client,
+  chatId: number,
+  api: PluginAPI,
+  t: Translator,
+  command: string,
+  pluginName?: string
+) {
+  try {
+    const { getConfig, upsertConfig } = await import("@db/config.ts");
+    const pluginsConfig = await getConfig("plugins");
+    const disabled = pluginsConfig?.disabled ?? [];
+    const overrides = { ...pluginsConfig?.commandOverrides };
+
+    if (!pluginName) {
+      delete overrides[command];
+      await upsertConfig("plugins", { disabled, commandOverrides: overrides });
+      await sendMessage(client, chatId, {
+        text: t("plugins.preferCleared", { command }),
+      });
+      return;
+    }
+
+    const providers = getCommandProviders(api.getPlugins(), command);
+    const target = providers.find((p) => p.plugin.name === pluginName);
+    if (!target) {
+      await sendMessage(client, chatId, {
+        text:
+          `${t("plugins.preferNotProvided", { name: pluginName, command })}\n\n` +
+          (providers.length > 0
+            ? t("plugins.preferProviders", {
+                plugins: providers.map((p) => p.plugin.name).join(t("common.separator")),
+              })
+            : t("plugins.preferNoProviders")),
+      });
+      return;
+    }
+
+    overrides[command] = pluginName;
+    await upsertConfig("plugins", { disabled, commandOverrides: overrides });
+    logger.info(`命令 ${command} 已指定由插件 ${pluginName} 处理`);
+    await sendMessage(client, chatId, {
+      text: t("plugins.preferSet", { command, name: pluginName }),
+    });
+  } catch (error) {
+    logger.error(error, `指定命令 ${command} 的处理插件时出错:`);
+    await sendMessage(client, chatId, {
+      text: t("plugins.preferError"),
     });
   }
 }
+
+/**
+ * 查看更新分发队列和消息发送回执的状态
+ */
+async function handleDispatchQueue(
+  client: Client,
+  chatId: number,
+  api: PluginAPI,
+  t: Translator
+) {
+  const stats = api.getDispatchStats();
+  if (!stats) {
+    await sendMessage(client, chatId, {
+      text: t("plugins.queueNotStarted"),
+    });
+    return;
+  }
+
+  const { options } = stats;
+  const sent = getPendingMessageStats();
+  await sendMessage(client, chatId, {
+    text: t("plugins.queue", {
+      running: stats.running,
+      concurrency: options.concurrency,
+      pending: stats.pending,
+      maxPending: options.maxPending,
+      waiting: stats.waiting,
+      activeChats: stats.activeChats,
+      processed: stats.processed,
+      dropped: stats.dropped,
+      perChatOrder: options.perChatOrder ? t("plugins.yes") : t("plugins.no"),
+      sendPending: sent.pending,
+      succeeded: sent.succeeded,
+      failed: sent.failed,
+      timedOut: sent.timedOut,
+      cancelled: sent.cancelled,
+    }),
+  });
+}
@@ -2,7 +2,7 @@ import type { Client } from "tdl";
 import logger from "@log/index.ts";
 import { sendMessage } from "@TDLib/function/message.ts";
 import type { updateNewMessage } from "tdlib-types";
-import type { PluginInfo } from "@plugin/BasePlugin.ts";
+import type { PluginInfo, Translator } from "@plugin/BasePlugin.ts";
 import {
   collectInlineToolEntries,
   renderInlineToolListText,
@@ -12,7 +12,8 @@ export default async function Start(
   updateNewMessage: updateNewMessage,
   client: Client,
   plugins: PluginInfo[] = [],
-  args: string[] = []
+  args: string[] = [],
+  t: Translator
 ) {
   if (updateNewMessage.message.content._ !== "messageText") return;
 
@@ -27,8 +28,7 @@ export default async function Start(
       const { getConfig } = await import("@db/config.ts");
       const config = await getConfig("config");
 
-      let text =
-        "Hello! 欢迎使用本 Bot。\n\n使用 /help 查看可用命令。\n\n本bot由 [Fuyu_TDBot](https://github.com/CatMoeCircle/Fuyu_TDBot) 框架驱动";
+      let text = t("start.welcome");
 
       if (config?.cmd?.start) {
         text = config.cmd.start;
@@ -92,12 +92,17 @@ export default async function Start(
         : "user";
 
   try {
-    const toolEntries = collectInlineToolEntries(plugins, {
-      chat_type: chatType,
-      role: userPermission,
-    });
+    const { getUserPermissionNodes } = await import("@plugin/PluginRoles.ts");
+    const toolEntries = collectInlineToolEntries(
+      plugins,
+      {
+        chat_type: chatType,
+        role: userPermission,
+      },
+      userPermission === "user" ? await getUserPermissionNodes(userId) : []
+    );
 
-    const toolListText = renderInlineToolListText(toolEntries);
+    const toolListText = renderInlineToolListText(toolEntries, t);
 
     await client.invoke({
       _: "sendMessage",
@@ -1,6 +1,10 @@
 import { Plugin } from "@plugin/BasePlugin.ts";
 import type { Client } from "tdl";
 import type { PluginAPI } from "@plugin/BasePlugin.ts";
+import { createPluginSubcommands } from "./cmd/plugin.ts";
+import { createAccessSubcommands } from "./cmd/access.ts";
+import { createChatConfigSubcommands } from "./cmd/chatconfig.ts";
+import { createConfigSubcommands } from "./cmd/config.ts";
 
 export default class FuyuPlugins extends Plugin {
   type = "general";
@@ -14,64 +18,110 @@ export default class FuyuPlugins extends Plugin {
     this.cmdHandlers = {
       help: {
         description: "显示帮助信息",
-        handler: async (update, args) => {
+        handler: async (update, args, ctx) => {
           const { createHelpHandler } = await import("./cmd/help.ts");
           const plugins = api.getPlugins();
-          return createHelpHandler(this.client, plugins)(update, args);
+          return createHelpHandler(this.client, plugins)(update, args, ctx);
+        },
+      },
+      language: {
+        description: "设置自己使用的语言",
+        aliases: ["lang"],
+        args: [
+          {
+            name: "language",
+            optional: true,
+            description: "语言代码（如 zh、en）或 reset",
+          },
+        ],
+        handler: async (_updateNewMessage, _args, ctx) => {
+          const { default: language } = await import("./cmd/language.ts");
+          return language(ctx, api);
         },
       },
       start: {
         description: "处理 /start 命令",
-        handler: async (updateNewMessage, args) => {
+        handler: async (updateNewMessage, args, ctx) => {
           const { default: Start } = await import("./cmd/start.ts");
-          return Start(updateNewMessage, this.client, api.getPlugins(), args);
+          return Start(updateNewMessage, this.client, api.getPlugins(), args, ctx.t);
         },
       },
       admin: {
         description: "设置bot管理员(仅限bot主人)",
-        handler: async (updateNewMessage, args) => {
+        handler: async (updateNewMessage, args, ctx) => {
           const { default: setAdmin } = await import("./cmd/admin.ts");
-          return setAdmin(updateNewMessage, args || [], this.client);
+          return setAdmin(updateNewMessage, args || [], this.client, api, ctx.t);
         },
       },
       plugin: {
-        description: "插件管理命令(仅限bot管理)",
+        description: "插件管理命令(仅限私聊&bot管理)",
+        scope: "private",
         permission: "admin",
-        handler: async (updateNewMessage, args) => {
+        subcommands: createPluginSubcommands(this.client, api),
+        handler: async (_updateNewMessage, _args, ctx) => {
           const { default: plugin } = await import("./cmd/plugin.ts");
-          return plugin(updateNewMessage, args || [], this.client, api);
+          return plugin(ctx, this.cmdHandlers.plugin!);
+        },
+      },
+      access: {
+        description: "访问名单管理(仅限bot管理)",
+        permission: "admin",
+        subcommands: createAccessSubcommands(),
+        handler: async (_updateNewMessage, _args, ctx) => {
+          const { default: access } = await import("./cmd/access.ts");
+          return access(ctx, this.cmdHandlers.access!);
+        },
+      },
+      chatconfig: {
+        description: "群组设置(仅限群组管理员)",
+        scope: "group",
+        permission: "chat_admin",
+        subcommands: createChatConfigSubcommands(api),
+        handler: async (_updateNewMessage, _args, ctx) => {
+          const { default: chatconfig } = await import("./cmd/chatconfig.ts");
+          return chatconfig(ctx, this.cmdHandlers.chatconfig!);
         },
       },
       config: {
         description: "配置管理命令(仅限私聊&bot管理)",
         scope: "private",
         permission: "admin",
-        handler: async (updateNewMessage, args) => {
+        subcommands: createConfigSubcommands(api),
+        handler: async (_updateNewMessage, _args, ctx) => {
           const { default: config } = await import("./cmd/config.ts");
-          return config(updateNewMessage, args || [], this.client);
+          return config(ctx, this.cmdHandlers.config!);
         },
       },
       info: {
         description: "获取 用户/消息 详细内容",
-        handler: async (updateNewMessage, args) => {
+        handler: async (updateNewMessage, args, ctx) => {
           const { default: getinfo } = await import("./cmd/getinfo.ts");
-          return getinfo(updateNewMessage, args || [], this.client);
+          return getinfo(updateNewMessage, args || [], this.client, ctx.t);
         },
       },
       dc: {
         description: "查询用户/频道头像对应的 DC",
-        handler: async (updateNewMessage, args) => {
+        handler: async (updateNewMessage, args, ctx) => {
           const { default: dc } = await import("./cmd/dc.ts");
-          return dc(updateNewMessage, args || [], this.client);
+          return dc(updateNewMessage, args || [], this.client, ctx.t);
         },
       },
       log: {
         description: "获取日志文件(仅限私聊&bot主人)",
         scope: "private",
         permission: "owner",
-        handler: async (updateNewMessage, args) => {
+        args: [
+          {
+            name: "type",
+            type: "enum",
+            values: ["info", "error", "debug"],
+            description: "日志类型",
+            optional: true,
+          },
+        ],
+        handler: async (_updateNewMessage, _args, ctx) => {
           const { default: getlog } = await import("./cmd/getlog.ts");
-          return getlog(updateNewMessage, args || [], this.client);
+          return getlog(ctx);
         },
       },
     };
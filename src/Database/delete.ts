@@ -11,3 +11,27 @@ export async function deleteImgCache(hash: string) {
   const result = await collection.deleteOne({ hash });
   return result;
 }
+
+/**
+ * 删除会话状态
+ * @param key 会话键（`${chat_id}:${user_id}`）
+ * @returns 返回 MongoDB 删除操作的结果
+ */
+export async function deleteConversation(key: string) {
+  const db = await getDatabase();
+  const collection = db.collection("conversations");
+  const result = await collection.deleteOne({ key });
+  return result;
+}
+
+/**
+ * 删除对话设置
+ * @param chat_id 对话 ID
+ * @returns 返回 MongoDB 删除操作的结果
+ */
+export async function deleteChatSettings(chat_id: number) {
+  const db = await getDatabase();
+  const collection = db.collection("chat_settings");
+  const result = await collection.deleteOne({ chat_id });
+  return result;
+}
@@ -1,4 +1,9 @@
 import { getDatabase } from "./index.ts";
+import type {
+  ChatSettingsRecord,
+  ConversationRecord,
+  UserSettingsRecord,
+} from "../types/Database.d.ts";
 
 /**
  * 获取图片缓存记录
@@ -11,3 +16,41 @@ export async function getImgCache(hash: string): Promise<string | null> {
   const doc = await collection.findOne({ hash });
   return doc ? doc.file_id : null;
 }
+
+/**
+ * 获取所有未过期的会话状态
+ * @returns 会话状态列表
+ */
+export async function getConversations(): Promise<ConversationRecord[]> {
+  const db = await getDatabase();
+  const collection = db.collection<ConversationRecord>("conversations");
+  return collection
+    .find({ expires_at: { $gt: new Date() } }, { projection: { _id: 0 } })
+    .toArray();
+}
+
+/**
+ * 获取对话设置
+ * @param chat_id 对话 ID
+ * @returns 对话设置，未设置过时返回 null
+ */
+export async function getChatSettings(
+  chat_id: number
+): Promise<ChatSettingsRecord | null> {
+  const db = await getDatabase();
+  const collection = db.collection<ChatSettingsRecord>("chat_settings");
+  return collection.findOne({ chat_id }, { projection: { _id: 0 } });
+}
+
+/**
+ * 获取用户设置
+ * @param user_id 用户 ID
+ * @returns 用户设置，未设置过时返回 null
+ */
+export async function getUserSettings(
+  user_id: number
+): Promise<UserSettingsRecord | null> {
+  const db = await getDatabase();
+  const collection = db.collection<UserSettingsRecord>("user_settings");
+  return collection.findOne({ user_id }, { projection: { _id: 0 } });
+}
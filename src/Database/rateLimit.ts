@@ -0,0 +1,108 @@
+import type { Collection } from "mongodb";
+import type { RateLimitRecord } from "../types/Database.d.ts";
+import { getDatabase } from "./index.ts";
+
+/** 连接失败后，重新尝试连接前直接报错（由调用方使用内存存储）的时间 */
+const RETRY_BACKOFF_MS = 30 * 1000;
+
+let collectionPromise: Promise<Collection<RateLimitRecord>> | null = null;
+/** 允许重新尝试连接的时间 */
+let retryAt = 0;
+
+/**
+ * 获取 `rate_limits` 集合，首次调用时创建索引
+ * （连接失败后的 `RETRY_BACKOFF_MS` 内直接报错，不再等待连接）
+ */
+async function getCollection(): Promise<Collection<RateLimitRecord>> {
+  if (!collectionPromise) {
+    if (Date.now() < retryAt) {
+      throw new Error("rate_limits 集合暂不可用 (等待重新连接)");
+    }
+    collectionPromise = (async () => {
+      const db = await getDatabase();
+      const collection = db.collection<RateLimitRecord>("rate_limits");
+      await collection.createIndex({ key: 1 }, { unique: true });
+      await collection.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 });
+      return collection;
+    })();
+    collectionPromise.catch(() => {
+      collectionPromise = null;
+      retryAt = Date.now() + RETRY_BACKOFF_MS;
+    });
+  }
+  return collectionPromise;
+}
+
+/**
+ * 原子地从令牌桶中取出一次调用次数
+ * @param key 桶标识
+ * @param capacity 桶容量
+ * @param windowMs 从空桶恢复到满桶所需的时间（毫秒）
+ * @returns 是否允许调用，不允许时附带需要等待的毫秒数
+ */
+export async function consumeRateLimitToken(
+  key: string,
+  capacity: number,
+  windowMs: number
+): Promise<{ allowed: boolean; retryAfterMs: number }> {
+  const collection = await getCollection();
+  const now = new Date();
+  const rate = capacity / windowMs;
+
+  // 使用管道更新在数据库内完成「恢复 → 判断 → 扣减」，避免并发请求重复计数
+  const doc = await collection.findOneAndUpdate(
+    { key },
+    [
+      {
+        $set: {
+          tokens: {
+            $min: [
+              capacity,
+              {
+                $add: [
+                  { $ifNull: ["$tokens", capacity] },
+                  {
+                    $multiply: [
+                      { $subtract: [now, { $ifNull: ["$updated_at", now] }] },
+                      rate,
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      },
+      { $set: { allowed: { $gte: ["$tokens", 1] } } },
+      {
+        $set: {
+          tokens: {
+            $cond: ["$allowed", { $subtract: ["$tokens", 1] }, "$tokens"],
+          },
+          updated_at: now,
+          expires_at: new Date(now.getTime() + windowMs),
+        },
+      },
+    ],
+    { upsert: true, returnDocument: "after" }
+  );
+
+  const tokens = doc?.tokens ?? capacity - 1;
+  const allowed = doc?.allowed ?? true;
+  return {
+    allowed,
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+  };
+}
+
+/**
+ * 退还一次取出的调用次数（不超过桶容量）
+ * @param key 桶标识
+ * @param capacity 桶容量
+ */
+export async function refundRateLimitToken(key: string, capacity: number): Promise<void> {
+  const collection = await getCollection();
+  await collection.updateOne({ key }, [
+    { $set: { tokens: { $min: [capacity, { $add: ["$tokens", 1] }] } } },
+  ]);
+}
@@ -0,0 +1,360 @@
+import type { Collection, Document } from "mongodb";
+import type { PluginStorageRecord, StorageSchema } from "../types/Database.d.ts";
+
+import { Low } from "lowdb";
+import { JSONFile } from "lowdb/node";
+import { fileURLToPath } from "url";
+import logger from "@log/index.ts";
+import { getDatabase } from "./index.ts";
+
+/**
+ * 插件键值存储
+ *
+ * 优先使用 MongoDB 的 `plugin_storage` 集合；
+ * 若首次使用时 MongoDB 不可用（未配置或连接失败），回退到 `config/plugin_storage.json`，
+ * 并在后台每隔 `BACKEND_RETRY_MS` 重新尝试连接。连接成功后先把本地记录迁移到 MongoDB，
+ * 之后一直使用 MongoDB（不再回退，避免两边的数据互相覆盖）。
+ */
+
+/** 回退到本地 JSON 存储后，在后台重新尝试连接 MongoDB 的间隔 */
+const BACKEND_RETRY_MS = 30 * 1000;
+
+const storageFile = fileURLToPath(
+  new URL("../../config/plugin_storage.json", import.meta.url)
+);
+
+let fallbackDb: Low<StorageSchema> | null = null;
+let fallbackWriteLock = Promise.resolve();
+
+let backendPromise: Promise<Collection<PluginStorageRecord> | null> | null =
+  null;
+
+/** 回退期间在本地删除的键（`${插件}\u0000${键}`），迁移时同步删除 MongoDB 中的旧值 */
+const fallbackDeletedKeys = new Set<string>();
+/** 回退期间清空过存储的插件，迁移时同步清空 MongoDB 中的旧值 */
+const fallbackClearedPlugins = new Set<string>();
+
+async function connectCollection(): Promise<Collection<PluginStorageRecord>> {
+  const db = await getDatabase();
+  const collection = db.collection<PluginStorageRecord>("plugin_storage");
+  await collection.createIndex({ plugin: 1, key: 1 }, { unique: true });
+  await collection.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 });
+  return collection;
+}
+
+/**
+ * 获取存储后端：MongoDB 集合，或 null 表示使用 lowdb 回退
+ */
+async function getBackend(): Promise<Collection<PluginStorageRecord> | null> {
+  if (!backendPromise) {
+    backendPromise = connectCollection().catch((err) => {
+      logger.warn(err, "插件存储无法使用 MongoDB，回退到本地 JSON 存储:");
+      scheduleReconnect();
+      return null;
+    });
+  }
+  return backendPromise;
+}
+
+/**
+ * 在后台重新尝试连接 MongoDB（不阻塞存储调用）
+ */
+function scheduleReconnect() {
+  const timer = setTimeout(() => void reconnect(), BACKEND_RETRY_MS);
+  timer.unref?.();
+}
+
+async function reconnect() {
+  let collection: Collection<PluginStorageRecord>;
+  try {
+    collection = await connectCollection();
+  } catch (err) {
+    logger.debug(err, "插件存储重新连接 MongoDB 失败:");
+    scheduleReconnect();
+    return;
+  }
+
+  // 迁移完成前，新的存储调用等待迁移结果，避免读到 MongoDB 中的旧值
+  backendPromise = migrateFallback(collection).then(
+    () => {
+      logger.info("插件存储已迁移本地 JSON 记录并切换到 MongoDB");
+      return collection;
+    },
+    (err) => {
+      logger.warn(err, "插件存储迁移本地 JSON 记录失败，继续使用本地 JSON 存储:");
+      scheduleReconnect();
+      return null;
+    }
+  );
+}
+
+/**
+ * 把回退期间的本地记录（包括删除）写入 MongoDB，并从本地移除已迁移的记录
+ */
+async function migrateFallback(collection: Collection<PluginStorageRecord>) {
+  const db = await getFallbackDb();
+  await fallbackWriteLock;
+
+  for (const plugin of fallbackClearedPlugins) {
+    await collection.deleteMany({ plugin });
+  }
+  fallbackClearedPlugins.clear();
+  for (const id of fallbackDeletedKeys) {
+    const [plugin, key] = id.split("\u0000") as [string, string];
+    await collection.deleteOne({ plugin, key });
+  }
+  fallbackDeletedKeys.clear();
+
+  // 迁移过程中仍在进行的本地写入会替换条目，再迁移一轮直到本地为空
+  while (Object.keys(db.data.plugins).length > 0) {
+    const snapshot = Object.entries(db.data.plugins).flatMap(([plugin, namespace]) =>
+      Object.entries(namespace).map(([key, entry]) => ({ plugin, key, entry }))
+    );
+    const now = Date.now();
+    const live = snapshot.filter(
+      ({ entry }) => entry.expires_at === undefined || entry.expires_at > now
+    );
+    if (live.length > 0) {
+      await collection.bulkWrite(
+        live.map(({ plugin, key, entry }) => ({
+          updateOne: {
+            filter: { plugin, key },
+            update:
+              entry.expires_at !== undefined
+                ? { $set: { value: entry.value, expires_at: new Date(entry.expires_at) } }
+                : { $set: { value: entry.value }, $unset: { expires_at: "" } },
+            upsert: true,
+          },
+        }))
+      );
+    }
+
+    for (const { plugin, key, entry } of snapshot) {
+      const namespace = db.data.plugins[plugin];
+      if (namespace?.[key] !== entry) continue;
+      delete namespace[key];
+      if (Object.keys(namespace).length === 0) delete db.data.plugins[plugin];
+    }
+    await fallbackWrite(db);
+  }
+}
+
+async function getFallbackDb(): Promise<Low<StorageSchema>> {
+  if (!fallbackDb) {
+    const db = new Low<StorageSchema>(new JSONFile<StorageSchema>(storageFile), {
+      plugins: {},
+    });
+    await db.read();
+    db.data ||= { plugins: {} };
+    db.data.plugins ||= {};
+    fallbackDb = db;
+  }
+  return fallbackDb;
+}
+
+function fallbackWrite(db: Low<StorageSchema>) {
+  fallbackWriteLock = fallbackWriteLock.then(() => db.write());
+  return fallbackWriteLock;
+}
+
+/**
+ * 获取 lowdb 中某个插件的命名空间，并清理已过期的键
+ */
+async function getFallbackNamespace(plugin: string) {
+  const db = await getFallbackDb();
+  const namespace = (db.data.plugins[plugin] ||= {});
+  const now = Date.now();
+  for (const [key, entry] of Object.entries(namespace)) {
+    if (entry.expires_at !== undefined && entry.expires_at <= now) {
+      delete namespace[key];
+    }
+  }
+  return { db, namespace };
+}
+
+function notExpired() {
+  return {
+    $or: [
+      { expires_at: { $exists: false } },
+      { expires_at: { $gt: new Date() } },
+    ],
+  };
+}
+
+/**
+ * 读取插件存储中的值
+ * @param plugin 插件名称
+ * @param key 键
+ * @returns 值，不存在或已过期时返回 undefined
+ */
+export async function getStorageValue(
+  plugin: string,
+  key: string
+): Promise<unknown> {
+  const collection = await getBackend();
+  if (collection) {
+    const doc = await collection.findOne({ plugin, key, ...notExpired() });
+    return doc ? doc.value : undefined;
+  }
+
+  const { namespace } = await getFallbackNamespace(plugin);
+  return namespace[key]?.value;
+}
+
+/**
+ * 写入插件存储
+ * @param plugin 插件名称
+ * @param key 键
+ * @param value 值（需可 JSON 序列化）
+ * @param ttlMs 可选：过期时间（毫秒）
+ */
+export async function setStorageValue(
+  plugin: string,
+  key: string,
+  value: unknown,
+  ttlMs?: number
+): Promise<void> {
+  const expiresAt = ttlMs && ttlMs > 0 ? Date.now() + ttlMs : undefined;
+
+  const collection = await getBackend();
+  if (collection) {
+    await collection.updateOne(
+      { plugin, key },
+      expiresAt !== undefined
+        ? { $set: { value, expires_at: new Date(expiresAt) } }
+        : { $set: { value }, $unset: { expires_at: "" } },
+      { upsert: true }
+    );
+    return;
+  }
+
+  const { db, namespace } = await getFallbackNamespace(plugin);
+  namespace[key] = {
+    value,
+    ...(expiresAt !== undefined && { expires_at: expiresAt }),
+  };
+  await fallbackWrite(db);
+}
+
+/**
+ * 删除插件存储中的键
+ * @returns 是否存在并删除
+ */
+export async function deleteStorageValue(
+  plugin: string,
+  key: string
+): Promise<boolean> {
+  const collection = await getBackend();
+  if (collection) {
+    const result = await collection.deleteOne({ plugin, key });
+    return result.deletedCount > 0;
+  }
+
+  const { db, namespace } = await getFallbackNamespace(plugin);
+  // MongoDB 中可能还有之前写入的值，迁移时一并删除
+  fallbackDeletedKeys.add(`${plugin}\u0000${key}`);
+  if (!(key in namespace)) return false;
+  delete namespace[key];
+  await fallbackWrite(db);
+  return true;
+}
+
+/**
+ * 列出插件存储中的键值
+ * @param plugin 插件名称
+ * @param prefix 可选：只列出以此前缀开头的键
+ */
+export async function listStorageValues(
+  plugin: string,
+  prefix = ""
+): Promise<Array<{ key: string; value: unknown }>> {
+  const collection = await getBackend();
+  if (collection) {
+    const escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const docs = await collection
+      .find({
+        plugin,
+        ...(prefix && { key: { $regex: `^${escaped}` } }),
+        ...notExpired(),
+      })
+      .sort({ key: 1 })
+      .toArray();
+    return docs.map((doc) => ({ key: doc.key, value: doc.value }));
+  }
+
+  const { namespace } = await getFallbackNamespace(plugin);
+  return Object.entries(namespace)
+    .filter(([key]) => key.startsWith(prefix))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, entry]) => ({ key, value: entry.value }));
+}
+
+/**
+ * 原子地增加数值（键不存在或已过期时从 0 开始）
+ * @param plugin 插件名称
+ * @param key 键
+ * @param by 增量（默认 1）
+ * @param ttlMs 可选：过期时间（毫秒），仅在键新建时生效
+ * @returns 增加后的值
+ */
+export async function incrementStorageValue(
+  plugin: string,
+  key: string,
+  by = 1,
+  ttlMs?: number
+): Promise<number> {
+  const expiresAt = ttlMs && ttlMs > 0 ? Date.now() + ttlMs : undefined;
+
+  const collection = await getBackend();
+  if (collection) {
+    // 已过期但尚未被 TTL 索引清理的文档视为不存在
+    await collection.deleteOne({
+      plugin,
+      key,
+      expires_at: { $lte: new Date() },
+    });
+    // value 声明为 unknown，$inc 需要以普通文档形式传入
+    const update: Document = {
+      $inc: { value: by },
+      ...(expiresAt !== undefined && {
+        $setOnInsert: { expires_at: new Date(expiresAt) },
+      }),
+    };
+    const doc = await collection.findOneAndUpdate({ plugin, key }, update, {
+      upsert: true,
+      returnDocument: "after",
+    });
+    return Number(doc?.value ?? by);
+  }
+
+  const { db, namespace } = await getFallbackNamespace(plugin);
+  const current = namespace[key];
+  const value = (typeof current?.value === "number" ? current.value : 0) + by;
+  namespace[key] = {
+    value,
+    ...(current
+      ? current.expires_at !== undefined && { expires_at: current.expires_at }
+      : expiresAt !== undefined && { expires_at: expiresAt }),
+  };
+  await fallbackWrite(db);
+  return value;
+}
+
+/**
+ * 清空某个插件的全部存储（删除插件时调用）
+ * @returns 删除的键数量
+ */
+export async function clearPluginStorage(plugin: string): Promise<number> {
+  const collection = await getBackend();
+  if (collection) {
+    const result = await collection.deleteMany({ plugin });
+    return result.deletedCount;
+  }
+
+  const db = await getFallbackDb();
+  fallbackClearedPlugins.add(plugin);
+  const count = Object.keys(db.data.plugins[plugin] ?? {}).length;
+  delete db.data.plugins[plugin];
+  await fallbackWrite(db);
+  return count;
+}
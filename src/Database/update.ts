@@ -1,4 +1,9 @@
 import { getDatabase } from "./index.ts";
+import type {
+  ChatSettingsRecord,
+  ConversationRecord,
+  UserSettingsRecord,
+} from "../types/Database.d.ts";
 
 /**
  * 更新或创建图片缓存记录
@@ -16,3 +21,71 @@ export async function updateImgCache(hash: string, file_id: string) {
   );
   return result;
 }
+
+/**
+ * 更新或创建会话状态
+ * @param record 会话状态
+ * @returns 返回 MongoDB 更新操作的结果
+ */
+export async function upsertConversation(record: ConversationRecord) {
+  const db = await getDatabase();
+  const collection = db.collection<ConversationRecord>("conversations");
+  const result = await collection.updateOne(
+    { key: record.key },
+    { $set: record },
+    { upsert: true }
+  );
+  return result;
+}
+
+/**
+ * 更新或创建对话设置
+ * @param chat_id 对话 ID
+ * @param set 要设置的项
+ * @param unset 要清除（恢复为全局配置）的项
+ * @returns 更新后的对话设置
+ */
+export async function updateChatSettings(
+  chat_id: number,
+  set: Partial<Omit<ChatSettingsRecord, "chat_id" | "updated_at">>,
+  unset: (keyof Omit<ChatSettingsRecord, "chat_id" | "updated_at">)[] = []
+) {
+  const db = await getDatabase();
+  const collection = db.collection<ChatSettingsRecord>("chat_settings");
+  return collection.findOneAndUpdate(
+    { chat_id },
+    {
+      $set: { ...set, updated_at: new Date() },
+      ...(unset.length > 0 && {
+        $unset: Object.fromEntries(unset.map((key) => [key, ""])),
+      }),
+    },
+    { upsert: true, returnDocument: "after", projection: { _id: 0 } }
+  );
+}
+
+/**
+ * 更新或创建用户设置
+ * @param user_id 用户 ID
+ * @param set 要设置的项
+ * @param unset 要清除（恢复默认）的项
+ * @returns 更新后的用户设置
+ */
+export async function updateUserSettings(
+  user_id: number,
+  set: Partial<Omit<UserSettingsRecord, "user_id" | "updated_at">>,
+  unset: (keyof Omit<UserSettingsRecord, "user_id" | "updated_at">)[] = []
+) {
+  const db = await getDatabase();
+  const collection = db.collection<UserSettingsRecord>("user_settings");
+  return collection.findOneAndUpdate(
+    { user_id },
+    {
+      $set: { ...set, updated_at: new Date() },
+      ...(unset.length > 0 && {
+        $unset: Object.fromEntries(unset.map((key) => [key, ""])),
+      }),
+    },
+    { upsert: true, returnDocument: "after", projection: { _id: 0 } }
+  );
+}
@@ -0,0 +1,77 @@
+import type { Client } from "tdl";
+import type { user } from "tdlib-types";
+
+/** 未配置多账号时使用的账号名 */
+export const DEFAULT_ACCOUNT = "default";
+
+/** 账号名格式 */
+export const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * 已登录的账号
+ */
+export type Account = {
+  /** 账号名 */
+  name: string;
+  /** 账号的 TDLib 客户端 */
+  client: Client;
+  /** 登录的账号信息 */
+  me: user;
+  /** 是否为用户账号（false 为 Bot 账号） */
+  isUserAccount: boolean;
+};
+
+const accounts = new Map<string, Account>();
+const accountsByClient = new Map<Client, Account>();
+
+/**
+ * 登记已登录的账号（登录完成后由 ClientManager 调用）
+ */
+export function registerAccount(name: string, client: Client, me: user) {
+  const account: Account = {
+    name,
+    client,
+    me,
+    isUserAccount: me.type._ !== "userTypeBot",
+  };
+  accounts.set(name, account);
+  accountsByClient.set(client, account);
+}
+
+/**
+ * 移除账号登记（客户端关闭时调用）
+ */
+export function unregisterAccount(name: string) {
+  const account = accounts.get(name);
+  if (!account) return;
+  accounts.delete(name);
+  accountsByClient.delete(account.client);
+}
+
+/**
+ * 按账号名获取已登录的账号
+ */
+export function getAccount(name: string): Account | undefined {
+  return accounts.get(name);
+}
+
+/**
+ * 获取客户端对应的账号
+ */
+export function getAccountByClient(client?: Client | null): Account | undefined {
+  return client ? accountsByClient.get(client) : undefined;
+}
+
+/**
+ * 获取客户端对应的账号名（未登记时为 `default`）
+ */
+export function getAccountName(client?: Client | null): string {
+  return getAccountByClient(client)?.name ?? DEFAULT_ACCOUNT;
+}
+
+/**
+ * 获取全部已登录的账号（按登录顺序）
+ */
+export function getAccounts(): Account[] {
+  return [...accounts.values()];
+}
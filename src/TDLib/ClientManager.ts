@@ -1,15 +1,56 @@
 import tdl from "tdl";
 import { getTdjson } from "prebuilt-tdlib";
-import { select, input, password } from "@inquirer/prompts";
 import os from "os";
 import si from "systeminformation";
 import type { Client } from "tdl";
 import type { AuthorizationState, user, Update } from "tdlib-types";
-import qrcode from "qrcode-terminal";
 import logger from "@log/index.ts";
+import type { AccountDefinition } from "@type/Database.d.ts";
+import { DEFAULT_ACCOUNT, registerAccount } from "@TDLib/Accounts.ts";
+import {
+  LOGIN_EXIT_CODES,
+  LoginError,
+  createInteractivePrompter,
+  isHeadlessLogin,
+} from "@TDLib/LoginPrompter.ts";
+import { createHeadlessPrompter } from "@TDLib/HeadlessLogin.ts";
+import { watchPendingMessages } from "@TDLib/PendingMessages.ts";
+import { getErrorMessage } from "@utils/error.ts";
+
+/** tdl 只能在创建第一个客户端前配置一次 */
+let tdlConfigured = false;
 
 export class ClientManager {
   private client: Client | null = null;
+  private account: AccountDefinition;
+  private primary: boolean;
+  /** 插件就绪前收到的 update（回放完成后为 null，切换为直通） */
+  private updateBuffer: Update[] | null = [];
+  /** 直通模式下的 update 处理函数 */
+  private updateHandler: ((update: Update) => Promise<void>) | null = null;
+
+  /**
+   * @param account 账号定义（默认为 `default` 账号）
+   * @param primary 是否为主账号（登录信息同时写入 `me` / `bot` 配置）
+   */
+  constructor(account: AccountDefinition = { name: DEFAULT_ACCOUNT }, primary = true) {
+    this.account = account;
+    this.primary = primary;
+  }
+
+  /** 账号名 */
+  get name(): string {
+    return this.account.name;
+  }
+
+  /**
+   * 为登录提示加上账号名（`default` 账号不加）
+   */
+  private label(message: string): string {
+    return this.account.name === DEFAULT_ACCOUNT
+      ? message
+      : `[${this.account.name}] ${message}`;
+  }
 
   async init(): Promise<Client> {
     if (this.client) return this.client;
@@ -17,14 +58,23 @@ export class ClientManager {
     const system = await si.system();
 
     // 配置 tdl
-    tdl.configure({ tdjson: getTdjson(), verbosityLevel: 1 });
+    if (!tdlConfigured) {
+      tdl.configure({ tdjson: getTdjson(), verbosityLevel: 1 });
+      tdlConfigured = true;
+    }
+
+    // 每个账号使用独立的数据目录
+    const baseDir =
+      this.account.name === DEFAULT_ACCOUNT
+        ? "./TDLib"
+        : `./TDLib/${this.account.name}`;
 
     // 创建客户端
     this.client = tdl.createClient({
       apiId: Number(process.env.TG_API_ID),
       apiHash: process.env.TG_API_HASH as string,
-      databaseDirectory: "./TDLib/_td_database",
-      filesDirectory: "./TDLib/_td_files",
+      databaseDirectory: this.account.database_directory ?? `${baseDir}/_td_database`,
+      filesDirectory: this.account.files_directory ?? `${baseDir}/_td_files`,
       useTestDc: false,
       tdlibParameters: {
         use_message_database: true,
@@ -40,31 +90,45 @@ export class ClientManager {
     });
 
     this.client.on("error", (err) => {
-      logger.error(err, "TDLib 客户端错误:");
+      logger.error(err, this.label("TDLib 客户端错误:"));
     });
 
+    // 发送回执不经过 update 缓存，插件就绪前发送的消息也能收到结果
+    watchPendingMessages(this.client);
+
     this.client.on("update", (update) => {
       if (this.updateBuffer) {
         this.updateBuffer.push(update);
+        return;
       }
+      this.updateHandler?.(update).catch((err) => {
+        logger.error(err, this.label("[Update缓存] 处理 update 时出错:"));
+      });
     });
 
     return this.client;    
   }
 
   /**
-   * 回放缓存的 update 并切换为直通模式
+   * 按接收顺序逐个回放缓存的 update，然后切换为直通模式
+   *
+   * 回放期间收到的 update 继续进入缓存，保证顺序不变
    * @param handler 插件就绪后的 update 处理函数
    */
-  flushUpdateBuffer(handler: (update: Update) => Promise<void>): void {
+  async flushUpdateBuffer(handler: (update: Update) => Promise<void>): Promise<void> {
     const buffer = this.updateBuffer ?? [];
-    this.updateBuffer = null; // 切换直通，后续 update 不再进入缓存
 
-    for (const update of buffer) {
-      handler(update).catch((err) => {
-        logger.error(err, "[Update缓存] 回放 update 时出错:");
-      });
+    while (buffer.length > 0) {
+      const update = buffer.shift() as Update;
+      try {
+        await handler(update);
+      } catch (err) {
+        logger.error(err, this.label("[Update缓存] 回放 update 时出错:"));
+      }
     }
+
+    this.updateHandler = handler;
+    this.updateBuffer = null; // 切换直通，后续 update 不再进入缓存
   }
 
   getClient(): Client {
@@ -84,67 +148,63 @@ export class ClientManager {
       return;
     }
 
+    const label = (message: string) => this.label(message);
+    const prompter = isHeadlessLogin()
+      ? createHeadlessPrompter(this.account, label)
+      : createInteractivePrompter(label);
+
+    // 无人值守登录时认证失败直接终止，交互登录时保持原有行为
+    const authFailed = (err: unknown, message: string) =>
+      new LoginError(
+        this.label(`${message}: ${getErrorMessage(err)}`),
+        LOGIN_EXIT_CODES.AUTH_FAILED,
+        { cause: err }
+      );
+
     const loginState = async (authorization_state: AuthorizationState) => {
       if (authorization_state._ === "authorizationStateWaitPhoneNumber") {
         // 1. 选择类型
-        const type = await select({
-          message: "请选择登录的账户类型",
-          choices: [
-            { name: "Bot", value: "bot" },
-            { name: "User", value: "user" },
-            { name: "QR Code(扫码登录)", value: "qr" },
-          ],
-        });
+        const type = await prompter.loginType();
 
         if (type === "bot") {
           // 2. 如果是 BOT → 输入 token
-          const token = await input({
-            message: "请输入 Bot Token",
-            validate: (val) => (val.trim() === "" ? "Token 不能为空" : true),
-          });
+          const token = await prompter.botToken();
 
-          await this.client?.loginAsBot(token);
+          try {
+            await this.client?.loginAsBot(token);
+          } catch (err) {
+            throw prompter.headless ? authFailed(err, "Bot 登录失败") : err;
+          }
           return;
         } else if (type === "qr") {
           await client.invoke({ _: "requestQrCodeAuthentication" });
         } else {
           // 2. 如果是 User → 输入手机号
-          const phone = await input({
-            message: "请输入手机号（包含区号，例如 1xxxxxxxxxxx）",
-            default: "+",
-            validate: (val) =>
-              val.trim() === "" || val.trim() === "+" ? "手机号不能为空" : true,
-          });
-          await this.client?.invoke({
-            _: "setAuthenticationPhoneNumber",
-            phone_number: phone,
-          });
+          const phone = await prompter.phoneNumber();
+          try {
+            await this.client?.invoke({
+              _: "setAuthenticationPhoneNumber",
+              phone_number: phone,
+            });
+          } catch (err) {
+            throw prompter.headless ? authFailed(err, "设置手机号失败") : err;
+          }
         }
       }
       if (authorization_state._ === "authorizationStateWaitCode") {
         const timeoutSec = Number(authorization_state.code_info?.timeout) || 60;
         try {
-          const codePromise = input({
-            message: "请输入验证码",
-            validate: (val) => (val.trim() === "" ? "验证码不能为空" : true),
-          });
-
-          const timer = new Promise<string>((_, reject) =>
-            setTimeout(
-              () => reject(new Error("INPUT_TIMEOUT")),
-              timeoutSec * 1000
-            )
-          );
-
-          const code = await Promise.race([codePromise, timer]);
+          const code = await prompter.code(timeoutSec);
 
           await this.client?.invoke({
             _: "checkAuthenticationCode",
             code,
           });
         } catch (err) {
+          if (err instanceof LoginError) throw err;
+          if (prompter.headless) throw authFailed(err, "验证码校验失败");
           if (typeof err === "object" && err !== null && "message" in err && err.message === "INPUT_TIMEOUT") {
-            logger.warn(`验证码输入已超时 (${timeoutSec}s)，请重试`);
+            logger.warn(this.label(`验证码输入已超时 (${timeoutSec}s)，请重试`));
           } else {
             logger.error(err, "输入验证码时出错：");
           }
@@ -152,20 +212,14 @@ export class ClientManager {
       }
       if (authorization_state._ === "authorizationStateWaitPassword") {
         try {
-          const hint = authorization_state.password_hint || "";
-          const promptMessage = hint
-            ? `请输入密码（提示: ${hint},密码模式，默认不显示输入正确的回车即可）`
-            : "请输入密码（密码模式，默认不显示输入正确的回车即可）";
-
-          const passwordStr = await password({
-            message: promptMessage,
-            validate: (val) => (val.trim() === "" ? "密码不能为空" : true),
-          });
+          const passwordStr = await prompter.password(authorization_state.password_hint || "");
           await this.client?.invoke({
             _: "checkAuthenticationPassword",
             password: passwordStr,
           });
         } catch (err) {
+          if (err instanceof LoginError) throw err;
+          if (prompter.headless) throw authFailed(err, "密码校验失败");
           logger.error(err, "输入密码时出错：");
         }
       }
@@ -173,11 +227,14 @@ export class ClientManager {
         authorization_state._ ===
         "authorizationStateWaitOtherDeviceConfirmation"
       ) {
-        logger.info(
-          "请使用已登录的其他设备确认扫码登录（二维码有效期为 30 秒）"
-        );
-        const qrlink = authorization_state.link;
-        qrcode.generate(qrlink, { small: true });
+        await prompter.showQrCode(authorization_state.link);
+      }
+      if (
+        prompter.headless &&
+        (authorization_state._ === "authorizationStateClosing" ||
+          authorization_state._ === "authorizationStateClosed")
+      ) {
+        throw new LoginError(this.label("登录过程中客户端已关闭"), LOGIN_EXIT_CODES.AUTH_FAILED);
       }
       if (authorization_state._ === "authorizationStateReady") {
         const me = await this.client?.invoke({ _: "getMe" });
@@ -187,22 +244,30 @@ export class ClientManager {
         return false;
       }
     };
-    await loginState(state);
-    for await (const update of client.iterUpdates()) {
-      if (update._ === "updateAuthorizationState") {
-        const done = await loginState(update.authorization_state);
-        if (done) break;
+    try {
+      await loginState(state);
+      for await (const update of client.iterUpdates()) {
+        if (update._ === "updateAuthorizationState") {
+          const done = await loginState(update.authorization_state);
+          if (done) break;
+        }
       }
+    } finally {
+      await prompter.close();
     }
     return;
   }
 
   /**
-   * 保存当前登录用户信息到数据库并输出登录日志
+   * 登记账号，主账号同时保存登录信息到数据库，并输出登录日志
    */
   private async saveMeInfo(me: user): Promise<void> {
+    registerAccount(this.account.name, this.getClient(), me);
+
     const { upsertConfig } = await import("@db/config.ts");
-    await upsertConfig("me", { info: me });
+    if (this.primary) {
+      await upsertConfig("me", { info: me });
+    }
 
     if (me.usernames) {
       const isBot = me.type._ === "userTypeBot";
@@ -211,17 +276,19 @@ export class ClientManager {
 
       if (isBot) {
         logger.info(
-          `Bot 已登录: ${displayName} (@${username} - ID:${me.id})`
+          this.label(`Bot 已登录: ${displayName} (@${username} - ID:${me.id})`)
         );
       } else {
         logger.info(
-          `用户 ${displayName} 已登录: (@${username} - ID:${me.id})`
+          this.label(`用户 ${displayName} 已登录: (@${username} - ID:${me.id})`)
         );
       }
 
-      await upsertConfig("bot", {
-        account_type: !isBot,
-      });
+      if (this.primary) {
+        await upsertConfig("bot", {
+          account_type: !isBot,
+        });
+      }
     }
   }
 }
@@ -0,0 +1,392 @@
+import fs from "fs";
+import path from "path";
+import http from "http";
+import { createRequire } from "module";
+import { Resvg } from "@resvg/resvg-js";
+import logger from "@log/index.ts";
+import { DEFAULT_ACCOUNT } from "@TDLib/Accounts.ts";
+import {
+  LOGIN_EXIT_CODES,
+  LOGIN_TYPES,
+  LoginError,
+  type LoginPrompter,
+  type LoginType,
+} from "@TDLib/LoginPrompter.ts";
+import type { AccountDefinition } from "@type/Database.d.ts";
+
+/** 等待验证码或密码的默认超时时间（秒） */
+const DEFAULT_WAIT_TIMEOUT_SEC = 300;
+
+/** 轮询验证码 / 密码文件的间隔 */
+const FILE_POLL_INTERVAL_MS = 1000;
+
+/** 提示服务允许监听的本机地址 */
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1", "[::1]"];
+
+type SecretField = "code" | "password";
+
+type HeadlessOptions = {
+  type: LoginType | undefined;
+  botToken: string | undefined;
+  phone: string | undefined;
+  code: string | undefined;
+  codeFile: string | undefined;
+  password: string | undefined;
+  passwordFile: string | undefined;
+  prompt: string | undefined;
+  qrFile: string | undefined;
+  timeoutSec: number;
+};
+
+/** qrcode-terminal 内置的二维码编码器 */
+type QRCodeModel = {
+  addData(data: string): void;
+  make(): void;
+  getModuleCount(): number;
+  isDark(row: number, col: number): boolean;
+};
+
+const require = createRequire(import.meta.url);
+
+/**
+ * 读取账号的登录环境变量（`default` 账号为 `TG_<KEY>`，其他账号为 `TG_<账号名>_<KEY>`）
+ */
+function readEnv(account: string, key: string): string | undefined {
+  const name =
+    account === DEFAULT_ACCOUNT
+      ? `TG_${key}`
+      : `TG_${account.toUpperCase().replace(/-/g, "_")}_${key}`;
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * 合并环境变量和账号配置中的登录设置（环境变量优先）
+ * @throws {LoginError} 设置无效时抛出
+ */
+function resolveOptions(account: AccountDefinition): HeadlessOptions {
+  const name = account.name;
+  const config = account.login ?? {};
+
+  const type = readEnv(name, "LOGIN_TYPE") ?? config.type;
+  if (type !== undefined && !LOGIN_TYPES.includes(type as LoginType)) {
+    throw new LoginError(
+      `无效的登录方式 ${type}（可选 ${LOGIN_TYPES.join(" / ")}）`,
+      LOGIN_EXIT_CODES.CONFIG
+    );
+  }
+
+  const timeout = readEnv(name, "LOGIN_TIMEOUT") ?? config.timeout;
+  const timeoutSec = timeout === undefined ? DEFAULT_WAIT_TIMEOUT_SEC : Number(timeout);
+  if (!Number.isFinite(timeoutSec) || timeoutSec <= 0) {
+    throw new LoginError(`无效的登录超时时间 ${timeout}`, LOGIN_EXIT_CODES.CONFIG);
+  }
+
+  return {
+    type: type as LoginType | undefined,
+    botToken: readEnv(name, "BOT_TOKEN") ?? config.bot_token,
+    phone: readEnv(name, "PHONE") ?? config.phone,
+    code: readEnv(name, "LOGIN_CODE"),
+    codeFile: readEnv(name, "LOGIN_CODE_FILE") ?? config.code_file,
+    password: readEnv(name, "PASSWORD"),
+    passwordFile: readEnv(name, "PASSWORD_FILE") ?? config.password_file,
+    prompt: readEnv(name, "LOGIN_PROMPT") ?? config.prompt,
+    qrFile: readEnv(name, "LOGIN_QR_FILE") ?? config.qr_file,
+    timeoutSec,
+  };
+}
+
+/**
+ * 等待文件写入内容，读取后删除文件
+ */
+function waitForFile(file: string, signal: AbortSignal): Promise<string> {
+  return new Promise((resolve) => {
+    const poll = async () => {
+      if (signal.aborted) return;
+      try {
+        const content = (await fs.promises.readFile(file, "utf-8")).trim();
+        if (content) {
+          await fs.promises.rm(file, { force: true });
+          resolve(content);
+          return;
+        }
+      } catch {
+        // 文件尚未写入
+      }
+      setTimeout(() => void poll(), FILE_POLL_INTERVAL_MS).unref();
+    };
+    void poll();
+  });
+}
+
+/**
+ * 解析提示服务地址
+ * @throws {LoginError} 地址无效或不是本机地址时抛出
+ */
+function parsePromptAddress(address: string): { path: string } | { host: string; port: number } {
+  if (address.startsWith("unix:")) {
+    return { path: address.slice("unix:".length) };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(address);
+  } catch {
+    throw new LoginError(`无效的提示服务地址 ${address}`, LOGIN_EXIT_CODES.CONFIG);
+  }
+  if (url.protocol !== "http:" || !url.port || !LOOPBACK_HOSTS.includes(url.hostname)) {
+    throw new LoginError(
+      `提示服务地址必须为 http://127.0.0.1:<端口> 或 unix:<套接字路径>，当前为 ${address}`,
+      LOGIN_EXIT_CODES.CONFIG
+    );
+  }
+  return { host: url.hostname.replace(/^\[|\]$/g, ""), port: Number(url.port) };
+}
+
+/**
+ * 启动本地提示服务，等待提交验证码或密码
+ *
+ * - `GET /` 返回正在等待的字段
+ * - `POST /` 或 `POST /<字段>` 提交内容（请求体为纯文本）
+ */
+function waitForPrompt(
+  address: string,
+  field: SecretField,
+  info: { account: string; hint?: string },
+  signal: AbortSignal
+): Promise<string> {
+  const target = parsePromptAddress(address);
+
+  return new Promise((resolve, reject) => {
+    const server = http.createServer((req, res) => {
+      const requested = (req.url ?? "/").split("?")[0]?.replace(/^\/+|\/+$/g, "") ?? "";
+
+      if (req.method === "GET") {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ...info, waiting: field }));
+        return;
+      }
+      if (req.method !== "POST") {
+        res.writeHead(405).end();
+        return;
+      }
+      if (requested && requested !== field) {
+        res.writeHead(409).end(`waiting for ${field}\n`);
+        return;
+      }
+
+      let body = "";
+      req.setEncoding("utf-8");
+      req.on("data", (chunk: string) => {
+        body += chunk;
+        if (body.length > 1024) req.destroy();
+      });
+      req.on("end", () => {
+        const value = body.trim();
+        if (!value) {
+          res.writeHead(400).end("empty value\n");
+          return;
+        }
+        res.end("ok\n");
+        close();
+        resolve(value);
+      });
+    });
+
+    const close = () => {
+      server.close();
+      if ("path" in target) fs.rmSync(target.path, { force: true });
+    };
+    signal.addEventListener("abort", close, { once: true });
+
+    server.on("error", (err) => {
+      reject(
+        new LoginError(`启动提示服务 ${address} 失败`, LOGIN_EXIT_CODES.CONFIG, {
+          cause: err,
+        })
+      );
+    });
+
+    if ("path" in target) {
+      // 清理上次异常退出遗留的套接字
+      fs.rmSync(target.path, { force: true });
+      server.listen(target.path, () => fs.chmodSync(target.path, 0o600));
+    } else {
+      server.listen(target.port, target.host);
+    }
+  });
+}
+
+/**
+ * 将扫码登录的二维码渲染为 PNG
+ */
+function renderQrCodePng(link: string): Buffer {
+  const QRCode = require("qrcode-terminal/vendor/QRCode") as new (
+    typeNumber: number,
+    errorCorrectLevel: number
+  ) => QRCodeModel;
+  const { M } = require("qrcode-terminal/vendor/QRCode/QRErrorCorrectLevel") as {
+    M: number;
+  };
+
+  const qr = new QRCode(-1, M);
+  qr.addData(link);
+  qr.make();
+
+  const margin = 4;
+  const count = qr.getModuleCount();
+  const size = count + margin * 2;
+  let modules = "";
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.isDark(row, col)) {
+        modules += `<rect x="${col + margin}" y="${row + margin}" width="1" height="1"/>`;
+      }
+    }
+  }
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/><g fill="#000">${modules}</g></svg>`;
+
+  return new Resvg(svg, { fitTo: { mode: "width", value: size * 8 } }).render().asPng();
+}
+
+/**
+ * 无人值守登录：登录信息来自环境变量、账号配置、文件或本地提示服务
+ *
+ * 环境变量（非 `default` 账号使用 `TG_<账号名>_` 前缀，如 `TG_HELPER_BOT_TOKEN`）：
+ * - `TG_LOGIN_TYPE`: 登录方式 `bot` / `user` / `qr`
+ * - `TG_BOT_TOKEN` / `TG_PHONE`: Bot Token / 手机号
+ * - `TG_LOGIN_CODE` / `TG_LOGIN_CODE_FILE`: 验证码 / 验证码文件
+ * - `TG_PASSWORD` / `TG_PASSWORD_FILE`: 两步验证密码 / 密码文件
+ * - `TG_LOGIN_PROMPT`: 本地提示服务地址
+ * - `TG_LOGIN_QR_FILE`: 扫码登录的二维码文件
+ * - `TG_LOGIN_TIMEOUT`: 等待验证码或密码的超时时间（秒）
+ * @param label 为日志加上账号名
+ * @throws {LoginError} 登录设置无效时抛出
+ */
+export function createHeadlessPrompter(
+  account: AccountDefinition,
+  label: (message: string) => string
+): LoginPrompter {
+  const options = resolveOptions(account);
+
+  /**
+   * 从已配置的来源等待验证码或密码（先到先用）
+   */
+  const waitForSecret = async (
+    field: SecretField,
+    value: string | undefined,
+    file: string | undefined,
+    hint?: string
+  ): Promise<string> => {
+    if (value) return value;
+
+    const name = field === "code" ? "验证码" : "密码";
+    if (!file && !options.prompt) {
+      throw new LoginError(
+        label(`需要${name}，但未配置${name}来源（环境变量、文件或提示服务）`),
+        LOGIN_EXIT_CODES.CONFIG
+      );
+    }
+
+    const controller = new AbortController();
+    const sources: Promise<string>[] = [];
+    if (file) {
+      logger.info(label(`等待${name}：请将${name}写入文件 ${file}`));
+      sources.push(waitForFile(file, controller.signal));
+    }
+    if (options.prompt) {
+      const example = options.prompt.startsWith("unix:")
+        ? `curl --unix-socket ${options.prompt.slice("unix:".length)} -d <${name}> http://localhost/${field}`
+        : `curl -d <${name}> ${options.prompt.replace(/\/+$/, "")}/${field}`;
+      logger.info(label(`等待${name}：请提交到提示服务，如 ${example}`));
+      sources.push(
+        waitForPrompt(
+          options.prompt,
+          field,
+          { account: account.name, ...(hint && { hint }) },
+          controller.signal
+        )
+      );
+    }
+    if (hint) logger.info(label(`密码提示: ${hint}`));
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new LoginError(
+              label(`等待${name}超时 (${options.timeoutSec}s)`),
+              LOGIN_EXIT_CODES.TIMEOUT
+            )
+          ),
+        options.timeoutSec * 1000
+      );
+    });
+
+    try {
+      return await Promise.race([...sources, timeout]);
+    } finally {
+      clearTimeout(timer);
+      controller.abort();
+    }
+  };
+
+  return {
+    headless: true,
+
+    loginType: () => {
+      const type =
+        options.type ??
+        (options.botToken ? "bot" : options.phone ? "user" : options.qrFile ? "qr" : undefined);
+      if (!type) {
+        return Promise.reject(
+          new LoginError(
+            label("未配置登录方式（TG_LOGIN_TYPE、TG_BOT_TOKEN、TG_PHONE 或 TG_LOGIN_QR_FILE）"),
+            LOGIN_EXIT_CODES.CONFIG
+          )
+        );
+      }
+      logger.info(label(`使用无人值守登录（${type}）`));
+      return Promise.resolve(type);
+    },
+
+    botToken: () =>
+      options.botToken
+        ? Promise.resolve(options.botToken)
+        : Promise.reject(
+            new LoginError(label("未配置 Bot Token（TG_BOT_TOKEN）"), LOGIN_EXIT_CODES.CONFIG)
+          ),
+
+    phoneNumber: () =>
+      options.phone
+        ? Promise.resolve(options.phone)
+        : Promise.reject(
+            new LoginError(label("未配置手机号（TG_PHONE）"), LOGIN_EXIT_CODES.CONFIG)
+          ),
+
+    code: () => waitForSecret("code", options.code, options.codeFile),
+
+    password: (hint) =>
+      waitForSecret("password", options.password, options.passwordFile, hint),
+
+    showQrCode: async (link) => {
+      logger.info(label(`请使用已登录的其他设备扫码确认登录（二维码有效期为 30 秒）: ${link}`));
+      if (!options.qrFile) return;
+
+      await fs.promises.mkdir(path.dirname(options.qrFile), { recursive: true });
+      if (path.extname(options.qrFile).toLowerCase() === ".png") {
+        await fs.promises.writeFile(options.qrFile, renderQrCodePng(link));
+      } else {
+        await fs.promises.writeFile(options.qrFile, `${link}\n`);
+      }
+      logger.info(label(`二维码已写入 ${options.qrFile}`));
+    },
+
+    close: async () => {
+      if (options.qrFile) await fs.promises.rm(options.qrFile, { force: true });
+    },
+  };
+}
@@ -0,0 +1,144 @@
+import { select, input, password } from "@inquirer/prompts";
+import qrcode from "qrcode-terminal";
+import logger from "@log/index.ts";
+
+/** 登录方式 */
+export type LoginType = "bot" | "user" | "qr";
+
+export const LOGIN_TYPES: readonly LoginType[] = ["bot", "user", "qr"];
+
+/**
+ * 登录失败时进程的退出码（参考 sysexits）
+ *
+ * 使用 pm2 等进程管理器时可将其设为不自动重启的退出码
+ */
+export const LOGIN_EXIT_CODES = {
+  /** 等待验证码或密码超时 */
+  TIMEOUT: 75,
+  /** 认证失败（Token、手机号、验证码或密码错误等） */
+  AUTH_FAILED: 77,
+  /** 登录配置缺失或无效 */
+  CONFIG: 78,
+} as const;
+
+/**
+ * 登录失败（进程应以 `exitCode` 退出）
+ */
+export class LoginError extends Error {
+  readonly exitCode: number;
+
+  constructor(message: string, exitCode: number, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "LoginError";
+    this.exitCode = exitCode;
+  }
+}
+
+/**
+ * 登录过程中获取账号信息的方式
+ */
+export interface LoginPrompter {
+  /** 是否为无人值守登录（认证失败时直接终止登录） */
+  readonly headless: boolean;
+  /** 选择登录方式 */
+  loginType(): Promise<LoginType>;
+  /** 获取 Bot Token */
+  botToken(): Promise<string>;
+  /** 获取手机号 */
+  phoneNumber(): Promise<string>;
+  /**
+   * 获取验证码
+   * @param timeoutSec 验证码的有效等待时间（秒）
+   */
+  code(timeoutSec: number): Promise<string>;
+  /**
+   * 获取两步验证密码
+   * @param hint 密码提示
+   */
+  password(hint: string): Promise<string>;
+  /** 展示扫码登录的链接 */
+  showQrCode(link: string): Promise<void>;
+  /** 登录结束后清理 */
+  close(): Promise<void>;
+}
+
+/**
+ * 是否使用无人值守登录
+ *
+ * - 环境变量 `TG_LOGIN_MODE=headless` / `interactive` 优先
+ * - 否则在启动参数包含 `--headless` 或标准输入不是终端时使用
+ */
+export function isHeadlessLogin(): boolean {
+  const mode = process.env.TG_LOGIN_MODE?.trim().toLowerCase();
+  if (mode === "headless") return true;
+  if (mode === "interactive") return false;
+  return process.argv.includes("--headless") || !process.stdin.isTTY;
+}
+
+/**
+ * 在终端中交互输入登录信息
+ * @param label 为提示加上账号名
+ */
+export function createInteractivePrompter(
+  label: (message: string) => string
+): LoginPrompter {
+  return {
+    headless: false,
+
+    loginType: () =>
+      select<LoginType>({
+        message: label("请选择登录的账户类型"),
+        choices: [
+          { name: "Bot", value: "bot" },
+          { name: "User", value: "user" },
+          { name: "QR Code(扫码登录)", value: "qr" },
+        ],
+      }),
+
+    botToken: () =>
+      input({
+        message: label("请输入 Bot Token"),
+        validate: (val) => (val.trim() === "" ? "Token 不能为空" : true),
+      }),
+
+    phoneNumber: () =>
+      input({
+        message: label("请输入手机号（包含区号，例如 1xxxxxxxxxxx）"),
+        default: "+",
+        validate: (val) =>
+          val.trim() === "" || val.trim() === "+" ? "手机号不能为空" : true,
+      }),
+
+    code: (timeoutSec) => {
+      const codePromise = input({
+        message: label("请输入验证码"),
+        validate: (val) => (val.trim() === "" ? "验证码不能为空" : true),
+      });
+
+      const timer = new Promise<string>((_, reject) =>
+        setTimeout(() => reject(new Error("INPUT_TIMEOUT")), timeoutSec * 1000)
+      );
+
+      return Promise.race([codePromise, timer]);
+    },
+
+    password: (hint) => {
+      const promptMessage = hint
+        ? `请输入密码（提示: ${hint},密码模式，默认不显示输入正确的回车即可）`
+        : "请输入密码（密码模式，默认不显示输入正确的回车即可）";
+
+      return password({
+        message: label(promptMessage),
+        validate: (val) => (val.trim() === "" ? "密码不能为空" : true),
+      });
+    },
+
+    showQrCode: (link) => {
+      logger.info(label("请使用已登录的其他设备确认扫码登录（二维码有效期为 30 秒）"));
+      qrcode.generate(link, { small: true });
+      return Promise.resolve();
+    },
+
+    close: () => Promise.resolve(),
+  };
+}
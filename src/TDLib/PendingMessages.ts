@@ -0,0 +1,193 @@
+import type { Client } from "tdl";
+import type { message, Update } from "tdlib-types";
+
+/**
+ * 等待发送结果的消息
+ */
+type PendingMessage = {
+  resolve: (message: message) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * 发送回执的统计
+ */
+export type PendingMessageStats = {
+  /** 正在等待发送结果的消息数 */
+  pending: number;
+  /** 发送成功的消息数 */
+  succeeded: number;
+  /** 发送失败的消息数 */
+  failed: number;
+  /** 等待超时的消息数 */
+  timedOut: number;
+  /** 因客户端关闭或同批消息失败而取消等待的消息数 */
+  cancelled: number;
+  /** 没有对应等待者的发送结果数 */
+  unmatched: number;
+};
+
+/** 各客户端等待发送结果的消息（`${chat_id}:${old_message_id}` → 等待者） */
+const registries = new WeakMap<Client, Map<string, PendingMessage>>();
+
+const stats: PendingMessageStats = {
+  pending: 0,
+  succeeded: 0,
+  failed: 0,
+  timedOut: 0,
+  cancelled: 0,
+  unmatched: 0,
+};
+
+function pendingKey(chat_id: number, old_message_id: number): string {
+  return `${chat_id}:${old_message_id}`;
+}
+
+/**
+ * 取出并移除等待者（不存在时返回 undefined）
+ */
+function take(client: Client, key: string): PendingMessage | undefined {
+  const registry = registries.get(client);
+  const pending = registry?.get(key);
+  if (!registry || !pending) return undefined;
+  registry.delete(key);
+  clearTimeout(pending.timer);
+  stats.pending--;
+  return pending;
+}
+
+/**
+ * 开始监听客户端的发送结果（同一客户端只注册一个监听器，重复调用无影响）
+ */
+export function watchPendingMessages(client: Client) {
+  if (registries.has(client)) return;
+  registries.set(client, new Map());
+  client.on("update", (update) => handlePendingMessageUpdate(client, update));
+}
+
+/**
+ * 根据发送结果的 update 完成对应的等待
+ * @returns 是否为发送结果的 update
+ */
+export function handlePendingMessageUpdate(client: Client, update: Update): boolean {
+  switch (update._) {
+    case "updateMessageSendSucceeded": {
+      const pending = take(client, pendingKey(update.message.chat_id, update.old_message_id));
+      if (!pending) {
+        stats.unmatched++;
+        return true;
+      }
+      stats.succeeded++;
+      pending.resolve(update.message);
+      return true;
+    }
+    case "updateMessageSendFailed": {
+      const pending = take(client, pendingKey(update.message.chat_id, update.old_message_id));
+      if (!pending) {
+        stats.unmatched++;
+        return true;
+      }
+      stats.failed++;
+      pending.reject(
+        new Error(`发送消息失败: ${update.error.message} (${update.error.code})`)
+      );
+      return true;
+    }
+    case "updateAuthorizationState":
+      if (
+        update.authorization_state._ === "authorizationStateClosing" ||
+        update.authorization_state._ === "authorizationStateClosed"
+      ) {
+        cancelPendingMessages(client, "客户端已关闭");
+      }
+      return false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * 等待消息发送完成
+ * @param client - TDLib 客户端实例
+ * @param chat_id - 对话 ID
+ * @param old_message_id - 发送时返回的临时消息 ID
+ * @param timeout - 等待时间（秒）
+ * @returns 发送成功后的消息
+ */
+export function waitForMessageSent(
+  client: Client,
+  chat_id: number,
+  old_message_id: number,
+  timeout: number
+): Promise<message> {
+  watchPendingMessages(client);
+  const registry = registries.get(client) as Map<string, PendingMessage>;
+  const key = pendingKey(chat_id, old_message_id);
+
+  // 同一条消息只保留最新的等待者
+  const previous = take(client, key);
+  if (previous) {
+    stats.cancelled++;
+    previous.reject(new Error("已有新的等待者"));
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      if (!take(client, key)) return;
+      stats.timedOut++;
+      reject(new Error(`发送消息超时 (${timeout}s)`));
+    }, timeout * 1000);
+
+    registry.set(key, { resolve, reject, timer });
+    stats.pending++;
+  });
+}
+
+/**
+ * 等待多条消息（如相册）全部发送完成，任一失败时取消其余等待
+ * @returns 按 `old_message_ids` 顺序排列的发送成功后的消息
+ */
+export async function waitForMessagesSent(
+  client: Client,
+  chat_id: number,
+  old_message_ids: number[],
+  timeout: number
+): Promise<message[]> {
+  const waits = old_message_ids.map((id) => waitForMessageSent(client, chat_id, id, timeout));
+  try {
+    return await Promise.all(waits);
+  } catch (error) {
+    // 已经失败，其余消息的结果不再需要
+    for (const wait of waits) wait.catch(() => undefined);
+    for (const id of old_message_ids) {
+      const pending = take(client, pendingKey(chat_id, id));
+      if (!pending) continue;
+      stats.cancelled++;
+      pending.reject(new Error("发送消息已取消 (同批消息发送失败)"));
+    }
+    throw error;
+  }
+}
+
+/**
+ * 取消客户端全部等待中的消息
+ * @param reason 取消原因
+ */
+export function cancelPendingMessages(client: Client, reason: string) {
+  const registry = registries.get(client);
+  if (!registry) return;
+  for (const key of [...registry.keys()]) {
+    const pending = take(client, key);
+    if (!pending) continue;
+    stats.cancelled++;
+    pending.reject(new Error(`发送消息已取消 (${reason})`));
+  }
+}
+
+/**
+ * 获取发送回执的统计
+ */
+export function getPendingMessageStats(): PendingMessageStats {
+  return { ...stats };
+}
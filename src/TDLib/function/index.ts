@@ -427,7 +427,7 @@ export async function isUserAdmin(
   client: Client,
   chat_id: number,
   member_id: MessageSender$Input,
-  rights?: chatAdministratorRights
+  rights?: Partial<chatAdministratorRights>
 ) {
   // 如果 member_id 是聊天本身，直接返回 true
   if (member_id._ === "messageSenderChat" && member_id.chat_id === chat_id)
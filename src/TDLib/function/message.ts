@@ -33,6 +33,7 @@ import type {
 } from "../types/message.ts";
 import { parseTextEntities } from "./index.ts";
 import { getErrorMessage } from "../../utils/error.ts";
+import { waitForMessageSent, waitForMessagesSent } from "../PendingMessages.ts";
 
 
 
@@ -92,31 +93,8 @@ export async function sendMessage(
 
     const oldMessage = await client.invoke({ ...payload, ...invoke });
 
-    let timer: ReturnType<typeof setTimeout> | undefined;
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      timer = setTimeout(() => {
-        reject(new Error(`发送消息超时 (${timeout}s)`));
-      }, timeout * 1000);
-    });
-
     // 等待发送成功的更新
-    const sendPromise = (async () => {
-      for await (const update of client.iterUpdates()) {
-        if (
-          update._ === "updateMessageSendSucceeded" &&
-          update.old_message_id === oldMessage.id &&
-          update.message.chat_id === oldMessage.chat_id
-        )
-          return update.message;
-      }
-    })();
-
-    // 等待发送超时
-    try {
-      return await Promise.race([sendPromise, timeoutPromise]);
-    } finally {
-      if (timer !== undefined) clearTimeout(timer);
-    }
+    return await waitForMessageSent(client, oldMessage.chat_id, oldMessage.id, timeout);
   } catch (error) {
     const errMsg = getErrorMessage(error);
     if (errMsg.includes("发送消息超时")) {
@@ -201,44 +179,16 @@ export async function sendMessageAlbum(
     if (messages.length === 0) return result;
 
     // 等待发送成功回执
-    const oldIds = new Set<number>(
-      messages.reduce<number[]>((ids, m) => {
-        if (m !== null && typeof m.id === "number") ids.push(m.id);
-        return ids;
-      }, [])
-    );
-    const collected: messages = {
+    const oldIds = messages.reduce<number[]>((ids, m) => {
+      if (m !== null && typeof m.id === "number") ids.push(m.id);
+      return ids;
+    }, []);
+
+    return {
       _: "messages",
       total_count: messages.length,
-      messages: [],
+      messages: await waitForMessagesSent(client, chat_id, oldIds, timeout),
     };
-
-    let timer: ReturnType<typeof setTimeout> | undefined;
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      timer = setTimeout(() => {
-        reject(new Error(`发送消息超时 (${timeout}s)`));
-      }, timeout * 1000);
-    });
-
-    const sendPromise = (async () => {
-      for await (const update of client.iterUpdates()) {
-        if (
-          update._ === "updateMessageSendSucceeded" &&
-          oldIds.has(update.old_message_id) &&
-          update.message.chat_id === chat_id
-        ) {
-          collected.messages.push(update.message);
-          oldIds.delete(update.old_message_id);
-          if (oldIds.size === 0) return collected;
-        }
-      }
-    })();
-
-    try {
-      return await Promise.race([sendPromise, timeoutPromise]);
-    } finally {
-      if (timer !== undefined) clearTimeout(timer);
-    }
   } catch (error) {
     const errMsg = getErrorMessage(error);
     if (errMsg.includes("发送消息超时"))
@@ -813,6 +763,16 @@ export function buildReplyMarkup(replyMarkup?: ReplyMarkupInput): replyMarkupInl
   };
 }
 
+/**
+ * 将回调数据编码为 TDLib 需要的 base64 字节串
+ *
+ * @param data 回调数据（UTF-8 字符串）
+ * @returns base64 编码后的数据
+ */
+function encodeCallbackData(data: string): string {
+  return Buffer.from(data, "utf8").toString("base64");
+}
+
 /**
  * 将用户按钮转换为 TDLib 按钮
  *
@@ -828,7 +788,7 @@ export function buildButton(btn: ReplyButton): inlineKeyboardButton {
       icon_custom_emoji_id: btn.emoji_id ?? "0",
       type: {
         _: "inlineKeyboardButtonTypeCallbackWithPassword",
-        data: btn.data,
+        data: encodeCallbackData(btn.data),
       },
       style: buildButtonStyle(btn.style),
     };
@@ -842,7 +802,7 @@ export function buildButton(btn: ReplyButton): inlineKeyboardButton {
       icon_custom_emoji_id: btn.emoji_id ?? "0",
       type: {
         _: "inlineKeyboardButtonTypeCallback",
-        data: btn.data,
+        data: encodeCallbackData(btn.data),
       },
       style: buildButtonStyle(btn.style),
     };
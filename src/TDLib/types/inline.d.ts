@@ -85,6 +85,9 @@ export interface InlineContext {
 
     /** 用户权限级别*/
     role: "owner" | "admin" | "user";
+
+    /** 收到内联查询的账号名 */
+    account: string;
 }
 
 /**
@@ -238,8 +241,8 @@ export interface InlineDef {
     /** 使用范围限制 */
     scope?: InlineScope;
 
-    /** 权限控制 - 最低权限要求 */
-    permission?: "owner" | "admin" | "all";
+    /** 权限控制 - 最低权限要求，或权限节点（如 `search.nsfw`） */
+    permission?: "owner" | "admin" | "all" | (string & {});
 
     /**
      * 匹配函数（决定是否处理此查询）
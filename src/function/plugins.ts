@@ -1,28 +1,38 @@
 import { PluginManager } from "@plugin/PluginManager.ts";
+import { getAccountName } from "@TDLib/Accounts.ts";
 import type { Client } from "tdl";
 import type { Update } from "tdlib-types";
 
-// 全局插件管理器实例
-let globalPluginManager: PluginManager | null = null;
+// 各账号的插件管理器实例（账号名 → 插件管理器），第一个为主账号
+const pluginManagers = new Map<string, PluginManager>();
 
 /**
- * 加载插件并返回插件管理器实例
+ * 为账号加载插件并返回插件管理器实例
  * @param client TDLib 客户端实例
  * @param flushUpdateBuffer 可选：回放缓存的 update 的回调（由 ClientManager 提供）
  */
 export async function loadPlugins(
   client: Client,
-  flushUpdateBuffer?: (handler: (update: Update) => Promise<void>) => void
+  flushUpdateBuffer?: (handler: (update: Update) => Promise<void>) => Promise<void>
 ) {
   const pluginManager = new PluginManager();
   await pluginManager.loadPlugins(client, flushUpdateBuffer);
-  globalPluginManager = pluginManager;
+  pluginManagers.set(getAccountName(client), pluginManager);
   return pluginManager;
 }
 
 /**
- * 获取全局插件管理器实例
+ * 获取插件管理器实例
+ * @param account 可选：账号名，省略时返回主账号的插件管理器
  */
-export function getPluginManager(): PluginManager | null {
-  return globalPluginManager;
+export function getPluginManager(account?: string): PluginManager | null {
+  if (account !== undefined) return pluginManagers.get(account) ?? null;
+  return pluginManagers.values().next().value ?? null;
+}
+
+/**
+ * 获取全部账号的插件管理器实例
+ */
+export function getPluginManagers(): Map<string, PluginManager> {
+  return pluginManagers;
 }
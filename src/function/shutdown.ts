@@ -0,0 +1,120 @@
+import logger from "@log/index.ts";
+
+/**
+ * 关闭步骤的顺序（数值小的先执行）
+ */
+export const SHUTDOWN_ORDER = {
+  /** 停止接收更新、等待处理中的请求、执行插件的关闭回调并卸载插件 */
+  PLUGINS: 100,
+  /** 关闭 TDLib 客户端 */
+  CLIENTS: 200,
+  /** 关闭数据库连接 */
+  DATABASE: 300,
+} as const;
+
+/** 关闭超时后强制退出的时间 */
+const FORCE_EXIT_MS = 30 * 1000;
+
+/** 等待日志输出的最长时间 */
+const LOG_FLUSH_TIMEOUT_MS = 1000;
+
+type ShutdownHook = {
+  name: string;
+  order: number;
+  handler: () => Promise<void> | void;
+};
+
+const hooks: ShutdownHook[] = [];
+let shutdownPromise: Promise<void> | null = null;
+
+/**
+ * 注册关闭步骤
+ * @param name 步骤名称（用于日志）
+ * @param handler 关闭时执行的函数，出错不会中断后续步骤
+ * @param order 可选：执行顺序，默认在插件之后、客户端之前
+ * @returns 取消注册的函数
+ */
+export function onShutdown(
+  name: string,
+  handler: () => Promise<void> | void,
+  order: number = SHUTDOWN_ORDER.PLUGINS + 50
+): () => void {
+  const hook: ShutdownHook = { name, order, handler };
+  hooks.push(hook);
+  return () => {
+    const index = hooks.indexOf(hook);
+    if (index !== -1) hooks.splice(index, 1);
+  };
+}
+
+/**
+ * 是否正在关闭
+ */
+export function isShuttingDown(): boolean {
+  return shutdownPromise !== null;
+}
+
+/**
+ * 输出缓冲中的日志（日志线程不会保持进程运行，需要定时器等待回调）
+ */
+function flushLogger(): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, LOG_FLUSH_TIMEOUT_MS);
+    logger.flush(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+/**
+ * 按顺序执行关闭步骤并退出进程（重复调用返回同一个 Promise）
+ * @param reason 关闭原因（用于日志）
+ * @param exitCode 可选：退出码，默认 0
+ */
+export function shutdown(reason: string, exitCode = 0): Promise<void> {
+  if (shutdownPromise) return shutdownPromise;
+
+  shutdownPromise = (async () => {
+    logger.info(`Bot正在关闭 (${reason})...`);
+    process.exitCode = exitCode;
+
+    // 关闭步骤卡住时强制退出
+    const forceTimer = setTimeout(() => {
+      logger.error(`关闭超时 (${FORCE_EXIT_MS / 1000}s)，强制退出`);
+      void flushLogger().finally(() => process.exit(exitCode || 1));
+    }, FORCE_EXIT_MS);
+    forceTimer.unref();
+
+    const ordered = [...hooks].sort((a, b) => a.order - b.order);
+    for (const hook of ordered) {
+      try {
+        logger.debug(`执行关闭步骤: ${hook.name}`);
+        await hook.handler();
+      } catch (e) {
+        logger.error(e, `关闭步骤 ${hook.name} 出错:`);
+      }
+    }
+
+    logger.info("清理完成，Bot已关闭");
+    await flushLogger();
+    process.exit(exitCode);
+  })();
+
+  return shutdownPromise;
+}
+
+/**
+ * 监听 SIGINT / SIGTERM 信号执行关闭（关闭过程中再次收到信号时立即退出）
+ */
+export function setupShutdownSignals() {
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      if (isShuttingDown()) {
+        logger.warn(`再次收到 ${signal}，立即退出`);
+        process.exit(1);
+      }
+      void shutdown(signal);
+    });
+  }
+}
@@ -1,26 +1,78 @@
 import InitEnv from "@TDLib/InitEnv.ts";
 import { ClientManager } from "@TDLib/ClientManager.ts";
+import { ACCOUNT_NAME_PATTERN, DEFAULT_ACCOUNT } from "@TDLib/Accounts.ts";
+import { getConfig } from "@db/config.ts";
 import logger from "@log/index.ts";
 import type { Client } from "tdl";
 import type { Update } from "tdlib-types";
+import type { AccountDefinition } from "@type/Database.d.ts";
 
 interface InitTdlibResult {
+  /** 账号名 */
+  account: string;
   client: Client;
-  flushUpdateBuffer: (handler: (update: Update) => Promise<void>) => void;
+  flushUpdateBuffer: (handler: (update: Update) => Promise<void>) => Promise<void>;
 }
 
-export async function initTdlib(): Promise<InitTdlibResult> {
+/** 已创建的客户端（包括尚未登录完成的账号），关闭时需要全部关闭 */
+const clients: Client[] = [];
+
+/**
+ * 获取已创建的全部客户端
+ */
+export function getTdlibClients(): Client[] {
+  return clients;
+}
+
+/**
+ * 读取账号配置（未配置时只有 `default` 账号）
+ * @throws 账号名无效或重复时抛出
+ */
+async function getAccountDefinitions(): Promise<AccountDefinition[]> {
+  const config = await getConfig("accounts");
+  const accounts = config?.accounts ?? [];
+  if (accounts.length === 0) return [{ name: DEFAULT_ACCOUNT }];
+
+  const seen = new Set<string>();
+  for (const account of accounts) {
+    if (!ACCOUNT_NAME_PATTERN.test(account.name)) {
+      throw new Error(`无效的账号名 ${account.name}（只能包含字母、数字、_ 和 -）`);
+    }
+    if (seen.has(account.name)) {
+      throw new Error(`账号名 ${account.name} 重复`);
+    }
+    seen.add(account.name);
+  }
+  return accounts;
+}
+
+/**
+ * 初始化 TDLib 并依次登录配置的全部账号（第一个为主账号）
+ * @param onAccountReady 可选：每个账号登录完成后立即调用（如加载插件、回放缓存的 update），
+ * 不必等待后续账号登录，避免已登录账号的 update 在缓存中长时间堆积
+ */
+export async function initTdlib(
+  onAccountReady?: (account: InitTdlibResult) => Promise<void>
+): Promise<InitTdlibResult[]> {
   logger.info("初始化 TDLib 环境...");
 
   await InitEnv();
 
-  const clientManager = new ClientManager();
-  const client = await clientManager.init();
-  await clientManager.login();
+  const results: InitTdlibResult[] = [];
+  for (const [index, account] of (await getAccountDefinitions()).entries()) {
+    const clientManager = new ClientManager(account, index === 0);
+    const client = await clientManager.init();
+    clients.push(client);
+    await clientManager.login();
+    const result: InitTdlibResult = {
+      account: account.name,
+      client,
+      flushUpdateBuffer: (handler) => clientManager.flushUpdateBuffer(handler),
+    };
+    results.push(result);
+    await onAccountReady?.(result);
+  }
 
-  logger.info("TDLib 初始化完成");
-  return {
-    client,
-    flushUpdateBuffer: (handler) => clientManager.flushUpdateBuffer(handler),
-  };
+  logger.info(`TDLib 初始化完成（${results.length} 个账号）`);
+  return results;
 }
@@ -1,5 +1,13 @@
-import { initTdlib } from "@function/tdlib.ts";
-import { loadPlugins } from "@function/plugins.ts";
+import { getTdlibClients, initTdlib } from "@function/tdlib.ts";
+import { getPluginManagers, loadPlugins } from "@function/plugins.ts";
+import {
+  SHUTDOWN_ORDER,
+  onShutdown,
+  setupShutdownSignals,
+  shutdown,
+} from "@function/shutdown.ts";
+import { closeDatabase } from "@db/index.ts";
+import { LoginError } from "@TDLib/LoginPrompter.ts";
 import logger from "@log/index.ts";
 import dotenv from "dotenv";
 
@@ -13,27 +21,39 @@ async function main() {
   try {
     logger.info("Bot启动中...");
 
-    // 初始化 TDLib 并登录
-    const { client, flushUpdateBuffer } = await initTdlib();
+    // 收到 SIGINT / SIGTERM 时按顺序清理
+    setupShutdownSignals();
+    onShutdown("database", closeDatabase, SHUTDOWN_ORDER.DATABASE);
 
-    await loadPlugins(client, flushUpdateBuffer);
+    // 登录中途失败时，也要关闭之前已创建的客户端
+    onShutdown(
+      "tdlib",
+      async () => {
+        await Promise.all(getTdlibClients().map((client) => client.close()));
+      },
+      SHUTDOWN_ORDER.CLIENTS
+    );
 
-    logger.info("Bot启动完成");
-
-    // 在程序退出时清理插件
-    process.on("SIGINT", () => {
-      void (async () => {
-        logger.info("Bot正在关闭...");
-
-        await client.close();
+    onShutdown(
+      "plugins",
+      async () => {
+        await Promise.all(
+          [...getPluginManagers().values()].map((manager) => manager.shutdown())
+        );
+      },
+      SHUTDOWN_ORDER.PLUGINS
+    );
 
-        logger.info("清理完成，Bot已关闭");
-        process.exit(0);
-      })();
+    // 初始化 TDLib 并登录全部账号，每个账号登录完成后立即加载插件
+    await initTdlib(async ({ client, flushUpdateBuffer }) => {
+      await loadPlugins(client, flushUpdateBuffer);
     });
+
+    logger.info("Bot启动完成");
   } catch (error) {
     logger.error(error, "Bot启动失败:");
-    process.exit(1);
+    // 登录失败使用专门的退出码，便于进程管理器区分
+    await shutdown("启动失败", error instanceof LoginError ? error.exitCode : 1);
   }
 }
 
@@ -1,7 +1,23 @@
 import type { Client } from "tdl";
-import type { updateNewMessage, Update } from "tdlib-types";
+import type {
+  updateNewMessage,
+  updateNewCallbackQuery,
+  Update,
+  message,
+  MessageSender,
+  chatAdministratorRights,
+} from "tdlib-types";
 import type { InlineDef } from "@TDLib/types/inline.ts";
+import type {
+  sendMessage as SendMessageParams,
+  editMessageText as EditMessageTextParams,
+  photoMessage,
+} from "@TDLib/types/message.ts";
 import type { Plugin as BasePlugin } from "@plugin/BasePlugin.ts";
+import type { RateLimitRule } from "../types/Database.d.ts";
+import type { DispatchQueueStats } from "./PluginDispatchQueue.ts";
+
+export type { RateLimitRule, DispatchQueueStats };
 
 /**
  * 命令使用场景
@@ -24,8 +40,96 @@ export type CommandScope = CommandScopeType | CommandScopeType[];
  * - `all`: 所有用户都可使用（默认）
  * - `admin`: 管理员和超级管理员都可使用
  * - `owner`: 只有超级管理员可使用
+ * - `chat_admin`: 当前群组/频道的管理员可使用（可用 `chatAdminRights` 要求具体权限），
+ *   Bot 的管理员和超级管理员也可使用
+ * - 其他字符串: 权限节点（如 `plugin.reload`），拥有该节点的角色的用户可使用，
+ *   管理员和超级管理员拥有全部节点（角色通过 `/admin role` 管理）
+ */
+export type CommandPermission =
+  | "all"
+  | "admin"
+  | "owner"
+  | "chat_admin"
+  | (string & {});
+
+/**
+ * 群组管理员权限要求（只需列出要求为 true 的权限）
+ * @example
+ * { can_restrict_members: true, can_delete_messages: true }
+ */
+export type ChatAdminRights = Partial<Omit<chatAdministratorRights, "_">>;
+
+/**
+ * 命令参数类型
+ * - `string`: 字符串（默认）
+ * - `int`: 整数
+ * - `number`: 数字
+ * - `boolean`: 布尔值（true/false、yes/no、on/off、1/0）
+ * - `user`: 用户（用户 ID 或 @用户名，解析为用户 ID）
+ * - `chat`: 对话（对话 ID 或 @用户名，解析为对话 ID）
+ * - `duration`: 时长（如 `90`、`30s`、`10m`、`1h30m`、`2d`、`1w`，解析为秒数）
+ * - `enum`: 枚举（取值见 `values`）
+ */
+export type CommandArgType =
+  | "string"
+  | "int"
+  | "number"
+  | "boolean"
+  | "user"
+  | "chat"
+  | "duration"
+  | "enum";
+
+/** 解析后的参数值 */
+export type CommandArgValue = string | number | boolean | (string | number | boolean)[];
+
+/**
+ * 命令位置参数定义
+ */
+export interface CommandArgDef {
+  /** 参数名，解析结果以此为键 */
+  name: string;
+  /**
+   * 可选：参数类型
+   * @default "string"
+   */
+  type?: CommandArgType;
+  /** 可选：参数说明，用于用法提示和帮助 */
+  description?: string;
+  /** 可选：是否可省略（可省略参数之后不能再有必填参数） */
+  optional?: boolean;
+  /**
+   * 可选：收集剩余的全部参数（只能是最后一个参数）
+   * - `string` 类型：保留原始文本（含空白和换行）
+   * - 其他类型：逐个转换后组成数组
+   */
+  rest?: boolean;
+  /** 可选：省略时的默认值 */
+  default?: CommandArgValue;
+  /** `enum` 类型的可选值 */
+  values?: string[];
+}
+
+/**
+ * 命令选项定义（`--name` / `-n`）
  */
-export type CommandPermission = "all" | "admin" | "owner";
+export interface CommandFlagDef {
+  /** 选项长名称（`--name`），解析结果以此为键 */
+  name: string;
+  /** 可选：单字母短名称（`-n`） */
+  short?: string;
+  /**
+   * 可选：选项值类型，`boolean` 类型的选项不需要值
+   * @default "boolean"
+   */
+  type?: CommandArgType;
+  /** 可选：选项说明 */
+  description?: string;
+  /** 可选：未指定时的默认值（`boolean` 类型默认为 false） */
+  default?: CommandArgValue;
+  /** `enum` 类型的可选值 */
+  values?: string[];
+}
 
 /**
  * 命令定义。
@@ -39,10 +143,50 @@ export type CommandPermission = "all" | "admin" | "owner";
  *   permission: 'all',  // 可选：指定权限要求
  *   handler: async (message, args) => { // ... }
  * };
+ * // 使用命令上下文
+ * cmdHandlers['echo'] = {
+ *   description: '复读',
+ *   handler: async (_message, _args, ctx) => {
+ *     await ctx.reply(ctx.rawArgs || '请输入内容');
+ *   }
+ * };
  */
 export interface CommandDef {
   /** 命令的简短说明，会用于 help 或列表展示 */
   description: string;
+  /**
+   * 可选：其他语言的命令说明（语言代码 → 说明），
+   * 用于帮助信息和 Bot 账号同步到 Telegram 的命令菜单；
+   * 也可以在插件语言文件中以 `commands.<命令名>` 提供
+   * @example
+   * descriptions: { en: 'Show help', ja: 'ヘルプを表示' }
+   */
+  descriptions?: Record<string, string>;
+  /**
+   * 可选：命令别名，使用别名调用与使用命令名等价
+   * @example
+   * aliases: ['h', '帮助']
+   */
+  aliases?: string[];
+  /**
+   * 可选：子命令。
+   *
+   * 框架按参数逐级匹配子命令（不区分大小写，支持子命令别名），
+   * 匹配到的子命令的 handler 收到的 `args` 不含子命令名；
+   * 未匹配到子命令时调用本命令的 handler。
+   * 子命令声明了 `scope` / `permission` 时，需同时满足上级命令和子命令的要求。
+   * @example
+   * subcommands: {
+   *   list: { description: '列出全部', handler: async (_m, _a, ctx) => { ... } },
+   *   add: {
+   *     description: '添加',
+   *     permission: 'admin',
+   *     args: [{ name: 'name' }],
+   *     handler: async (_m, _a, ctx) => { ... }
+   *   },
+   * }
+   */
+  subcommands?: Record<string, SubcommandDef>;
   /**
    * 可选：命令是否在帮助/命令列表中显示。
    * - true（默认）：在帮助列表中显示
@@ -53,8 +197,13 @@ export interface CommandDef {
    * 命令处理器。
    * @param message 收到的消息（通常是 `updateNewMessage`）
    * @param args 可选的命令参数数组（如果命令解析为参数）
+   * @param ctx 命令上下文（由框架创建，旧的两参数写法可忽略）
    */
-  handler: (message: updateNewMessage, args?: string[]) => Promise<void> | void;
+  handler: (
+    message: updateNewMessage,
+    args: string[] | undefined,
+    ctx: CommandContext
+  ) => Promise<void> | void;
   /**
    * 可选：面向大模型/API的服务接口
    * 返回纯数据，供大模型调用。
@@ -62,9 +211,27 @@ export interface CommandDef {
    * @param args 大模型传入的参数对象
    */
   service?: (args: Record<string, unknown>) => Promise<unknown>;
+  /**
+   * 可选：位置参数声明。
+   *
+   * 声明后框架会按声明解析并校验参数（支持引号），结果放在 `ctx.parsed` 中；
+   * 参数无效时自动回复错误和用法，不会调用 handler。
+   * 未声明 `args` 与 `flags` 时不做解析。
+   * @example
+   * args: [
+   *   { name: 'user', type: 'user', description: '目标用户' },
+   *   { name: 'duration', type: 'duration', optional: true },
+   *   { name: 'reason', rest: true, optional: true },
+   * ]
+   */
+  args?: CommandArgDef[];
+  /**
+   * 可选：选项声明（`--silent`、`-s`、`--count 3`、`--count=3`）
+   */
+  flags?: CommandFlagDef[];
   /**
    * 可选：参数定义，用于生成 Tool Schema
-   * 描述 service 方法需要的参数
+   * 描述 service 方法需要的参数（未定义时由 `args` 和 `flags` 生成）
    */
   params?: Record<
     string,
@@ -90,9 +257,479 @@ export interface CommandDef {
    * - `owner`: 只有超级管理员能使用
    * - `admin`: 管理员和超级管理员都能使用
    * - `all`: 所有人都能使用
+   * - `chat_admin`: 当前群组/频道的管理员能使用
+   * - 权限节点（如 `"plugin.reload"`）: 拥有该节点的用户能使用
    * @default "all"
    */
   permission?: CommandPermission;
+  /**
+   * 可选：`permission` 为 `chat_admin` 时，要求调用者拥有的管理员权限
+   * @example
+   * permission: 'chat_admin',
+   * chatAdminRights: { can_restrict_members: true }
+   */
+  chatAdminRights?: ChatAdminRights;
+  /**
+   * 可选：要求 Bot（自己）在当前群组/频道中是管理员，可指定需要的权限；
+   * 不满足时回复提示而不调用 handler（私聊中不检查）
+   * @example
+   * botAdminRights: true // 只要求是管理员
+   * botAdminRights: { can_delete_messages: true }
+   */
+  botAdminRights?: ChatAdminRights | true;
+  /**
+   * 可选：命令频率限制（令牌桶），与全局限制同时生效；
+   * false 表示该命令不受任何频率限制（包括全局限制）。
+   * 可在配置 `cmd.rateLimit.commands` 中按命令名覆盖
+   * @example
+   * rateLimit: { limit: 2, window: 60 } // 每个用户 60 秒内最多 2 次
+   * rateLimit: { limit: 10, window: 60, per: 'chat', mode: 'silent' }
+   */
+  rateLimit?: RateLimitRule | false;
+  /**
+   * 可选：是否与同一对话的其他更新并行处理。
+   *
+   * 默认情况下同一对话的更新按顺序逐个处理（见配置 `plugins.dispatch`），
+   * 耗时较长且与顺序无关的命令可设为 true，避免阻塞该对话的后续更新；
+   * 子命令未声明时沿用上级命令的设置
+   * @default false
+   */
+  parallel?: boolean;
+}
+
+/**
+ * 子命令定义。
+ *
+ * 与 `CommandDef` 相同，但 `handler` 可省略（仅作为下级子命令的分组，
+ * 调用时自动回复该分组的用法）。
+ */
+export interface SubcommandDef
+  extends Omit<
+    CommandDef,
+    "handler" | "service" | "params" | "showInHelp" | "rateLimit"
+  > {
+  /** 可选：子命令处理器 */
+  handler?: CommandDef["handler"];
+}
+
+/**
+ * 文案（语言文件扁平化后的键 → 文本，如 `help.title`）
+ */
+export type LocaleMessages = Record<string, string>;
+
+/**
+ * 翻译函数，绑定了解析出的语言和所属插件。
+ *
+ * 依次查找 所选语言 → 基础语言（`zh-TW` → `zh`）→ 默认语言 `zh`，
+ * 每种语言先查插件的语言文件，再查框架的语言文件；都没有时返回键本身。
+ * 文本中的 `{name}` 会替换为 `params.name`。
+ * @example
+ * ctx.t("greeting", { name: "Fuyu" })
+ */
+export interface Translator {
+  (key: string, params?: Record<string, string | number>): string;
+  /** 解析出的语言代码 */
+  locale: string;
+  /** 与调用相同，但没有对应文案时返回 undefined */
+  find: (key: string, params?: Record<string, string | number>) => string | undefined;
+}
+
+/**
+ * 命令上下文。
+ *
+ * 由框架在命令通过场景与权限校验后创建，作为第三个参数传递给 `CommandDef.handler`。
+ */
+export interface CommandContext {
+  /** 原始的消息更新 */
+  update: updateNewMessage;
+  /** 命令名称（不含前缀和 @bot 后缀，使用别名调用时为原命令名） */
+  command: string;
+  /** 匹配到的子命令路径（如 `/plugin info` 为 `["info"]`），未匹配子命令时为空数组 */
+  path: string[];
+  /** 触发命令使用的前缀 */
+  prefix: string;
+  /** 按空白拆分后的参数（不含子命令名） */
+  args: string[];
+  /** 命令名（及子命令名）之后的原始参数文本（保留换行和空白） */
+  rawArgs: string;
+  /** 消息所在的对话 ID */
+  chatId: number;
+  /** 命令消息 ID */
+  messageId: number;
+  /** 消息发送者（用户或以频道/群组身份发送） */
+  sender: MessageSender;
+  /** 发送者用户 ID（以频道/群组身份发送时为 null） */
+  userId: number | null;
+  /** 对话类型 */
+  chatType: "private" | "group" | "channel";
+  /** 用户权限 */
+  role: "owner" | "admin" | "user";
+  /** 收到命令的账号名（未配置多账号时为 `default`） */
+  account: string;
+  /**
+   * 解析出的语言代码，依次取 用户设置 → 对话设置 → Telegram 客户端语言 → 配置的默认语言
+   */
+  locale: string;
+  /** 按 `locale` 翻译插件和框架的文案 */
+  t: Translator;
+  /**
+   * 按 `CommandDef.args` / `flags` 解析后的参数（键为参数名或选项名），
+   * 命令未声明参数时为空对象
+   */
+  parsed: Record<string, CommandArgValue | undefined>;
+  /** 命令消息所回复的消息，未回复时为 null */
+  replyTo: { chatId: number; messageId: number } | null;
+  /**
+   * 获取命令消息所回复的消息。
+   * @returns 未回复或消息已不可用时返回 null
+   */
+  getReplyMessage: () => Promise<message | null>;
+  /**
+   * 回复命令消息。
+   * @param text 消息文本（MarkdownV2）
+   * @param options 其他发送参数
+   * @returns 发送成功的消息
+   */
+  reply: (
+    text: string,
+    options?: Omit<SendMessageParams, "text">
+  ) => Promise<message | undefined>;
+  /**
+   * 以图片回复命令消息。
+   * @param photo 图片文件路径、远程文件 ID 或 url，也可传入完整的 `photoMessage`
+   * @param caption 可选：图片标题（MarkdownV2）
+   * @param options 其他发送参数
+   */
+  replyPhoto: (
+    photo: string | photoMessage,
+    caption?: string,
+    options?: Omit<SendMessageParams, "text" | "media">
+  ) => Promise<message | undefined>;
+  /**
+   * 编辑消息文本。
+   *
+   * 优先编辑本上下文最近一次 `reply()` 发送的消息；
+   * 尚未回复时，若命令消息由自己发出（用户账号）则直接编辑命令消息，否则改为回复。
+   * @param text 新的消息文本（MarkdownV2）
+   * @param options 其他编辑参数
+   */
+  edit: (
+    text: string,
+    options?: Omit<EditMessageTextParams, "text">
+  ) => Promise<message | undefined>;
+  /**
+   * 删除命令消息。
+   * @param revoke 是否为所有人删除（默认 true）
+   */
+  delete: (revoke?: boolean) => Promise<void>;
+  /**
+   * 向命令发送者提问并等待其在同一对话中的下一条消息（同 `PluginAPI.ask`）。
+   * @returns 用户回复的消息，取消或超时返回 `null`
+   */
+  ask: (
+    prompt?: string,
+    options?: { timeoutMs?: number }
+  ) => Promise<updateNewMessage | null>;
+}
+
+/**
+ * 回调查询上下文。
+ *
+ * 由框架在匹配到 `callbackHandlers` 后创建并传递给 handler。
+ * @template TArgs 参数类型（默认为字符串数组，可通过 `parseArgs` 转换）
+ */
+export interface CallbackContext<TArgs = string[]> {
+  /** 原始的回调查询更新 */
+  update: updateNewCallbackQuery;
+  /** 解码后的回调数据（UTF-8 字符串） */
+  data: string;
+  /**
+   * 解析后的参数
+   * - 前缀匹配：去掉前缀后按 `separator` 拆分的结果
+   * - 正则匹配：正则的捕获组
+   */
+  args: TArgs;
+  /** 正则匹配结果（仅当 `pattern` 为 RegExp 时存在） */
+  match?: RegExpMatchArray;
+  /** 按钮所在的对话 ID */
+  chatId: number;
+  /** 按钮所在的消息 ID */
+  messageId: number;
+  /** 点击按钮的用户 ID */
+  userId: number;
+  /** 用户权限 */
+  role: "owner" | "admin" | "user";
+  /** 收到回调查询的账号名 */
+  account: string;
+  /**
+   * 回复回调查询。
+   *
+   * 每个回调查询只能回复一次，重复调用会被忽略；
+   * 若 handler 执行结束时仍未回复，框架会自动以空文本回复。
+   * @param text 提示文本（默认空）
+   * @param options 其他回复选项
+   */
+  answer: (
+    text?: string,
+    options?: { show_alert?: boolean; url?: string; cache_time?: number }
+  ) => Promise<void>;
+}
+
+/**
+ * 回调查询（内联键盘按钮）处理器定义。
+ *
+ * 插件可以通过在 `callbackHandlers` 中注册处理器来响应 `buildReplyMarkup` 生成的回调按钮。
+ * @template TArgs 参数类型（默认为字符串数组）
+ * @example
+ * // 按钮: { text: "赞", data: "vote:up:42" }
+ * callbackHandlers['vote'] = {
+ *   pattern: 'vote:',
+ *   parseArgs: ([dir, id]) => ({ up: dir === 'up', id: Number(id) }),
+ *   handler: async (ctx) => {
+ *     await ctx.answer(ctx.args.up ? '已点赞' : '已点踩');
+ *   }
+ * };
+ */
+export interface CallbackDef<TArgs = string[]> {
+  /** 可选：处理器说明 */
+  description?: string;
+  /**
+   * 匹配规则（作用于解码后的回调数据）
+   * - 字符串：前缀匹配
+   * - RegExp：正则匹配
+   */
+  pattern: string | RegExp;
+  /**
+   * 可选：前缀匹配时拆分剩余数据的分隔符
+   * @default ":"
+   */
+  separator?: string;
+  /**
+   * 可选：将原始字符串参数转换为类型化参数，抛出异常视为参数无效
+   * @param raw 前缀匹配拆分结果或正则捕获组
+   */
+  parseArgs?: (raw: string[]) => TArgs;
+  /**
+   * 可选：使用场景（按按钮所在对话判断）
+   * @default "all"
+   */
+  scope?: CommandScope;
+  /**
+   * 可选：权限要求
+   * @default "all"
+   */
+  permission?: CommandPermission;
+  /**
+   * 回调处理器。
+   * @param ctx 回调查询上下文
+   */
+  handler: (ctx: CallbackContext<TArgs>) => Promise<void> | void;
+  /**
+   * 可选：是否与同一对话的其他更新并行处理。
+   *
+   * 默认情况下同一对话的更新按顺序逐个处理（见配置 `plugins.dispatch`），
+   * 耗时较长且与顺序无关的处理器可设为 true，避免阻塞该对话的后续更新。
+   * @default false
+   */
+  parallel?: boolean;
+}
+
+/**
+ * 会话步骤处理结果
+ * - `"next"` 或无返回值：进入下一步（最后一步之后结束会话）
+ * - `"retry"`：停留在当前步骤，等待用户重新输入
+ * - `"end"`：立即结束会话
+ * - `{ goto: n }`：跳转到第 n 步（从 0 开始）
+ */
+export type ConversationStepResult = "next" | "retry" | "end" | { goto: number };
+
+/**
+ * 会话（多步对话）中的单个步骤。
+ */
+export interface ConversationStep {
+  /**
+   * 可选：进入该步骤时发送给用户的提示文本。
+   * 传入函数时可根据已收集的数据动态生成。
+   */
+  prompt?: string | ((data: Record<string, unknown>) => string);
+  /**
+   * 步骤处理器，收到同一用户在同一对话中的下一条消息时调用。
+   * @param message 用户回复的消息
+   * @param data 会话数据，可直接修改，框架会在每步之后持久化（需可 JSON 序列化）
+   */
+  handler: (
+    message: updateNewMessage,
+    data: Record<string, unknown>
+  ) =>
+    | Promise<ConversationStepResult | void>
+    | ConversationStepResult
+    | void;
+}
+
+/**
+ * 会话（多步对话 / 向导）定义。
+ *
+ * 通过 `api.startConversation(name, message)` 启动后，
+ * 同一用户在同一对话中的后续消息会优先交给会话处理，而不是命令路由。
+ * 用户可随时发送 `/cancel` 取消。会话状态会持久化，重启后可继续。
+ * @example
+ * conversationHandlers['feedback'] = {
+ *   steps: [
+ *     { prompt: '请输入标题', handler: (msg, data) => { data.title = getText(msg); } },
+ *     { prompt: '请输入内容', handler: async (msg, data) => { await save(data.title, getText(msg)); } },
+ *   ],
+ * };
+ */
+export interface ConversationDef {
+  /** 可选：会话说明 */
+  description?: string;
+  /**
+   * 可选：每一步等待用户回复的超时时间（毫秒）
+   * @default 300000
+   */
+  timeoutMs?: number;
+  /** 会话步骤，按顺序执行 */
+  steps: ConversationStep[];
+}
+
+/**
+ * 插件配置项的值类型
+ * - `string`: 字符串
+ * - `number`: 数字
+ * - `integer`: 整数
+ * - `boolean`: 布尔值（`/config` 中可输入 true/false、on/off、yes/no、1/0）
+ * - `string[]`: 字符串数组（`/config` 中以逗号分隔输入）
+ */
+export type PluginConfigType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "string[]";
+
+/**
+ * 插件配置项定义。
+ */
+export interface PluginConfigField {
+  /** 值类型 */
+  type: PluginConfigType;
+  /** 可选：配置项说明，会在 `/config plugin` 中展示 */
+  description?: string;
+  /** 可选：默认值（必须符合 `type`、`enum`、`min`/`max` 的约束） */
+  default?: unknown;
+  /** 可选：允许的取值（仅适用于 `string`、`number`、`integer`） */
+  enum?: Array<string | number>;
+  /**
+   * 可选：是否为敏感信息（如 API Key）。
+   * 为 true 时 `/config plugin` 不会显示其值。
+   */
+  secret?: boolean;
+  /** 可选：最小值（数字类型）或最小长度（字符串 / 数组） */
+  min?: number;
+  /** 可选：最大值（数字类型）或最大长度（字符串 / 数组） */
+  max?: number;
+}
+
+/**
+ * 插件配置 Schema：key 为配置项名称，value 为 `PluginConfigField`。
+ * @example
+ * configSchema = {
+ *   apiKey: { type: 'string', secret: true, description: 'API 密钥' },
+ *   model: { type: 'string', enum: ['small', 'large'], default: 'small' },
+ *   maxTokens: { type: 'integer', min: 1, max: 4096, default: 1024 },
+ * };
+ */
+export type PluginConfigSchema = Record<string, PluginConfigField>;
+
+/**
+ * 中间件作用的分发类型
+ * - `command`: 命令
+ * - `update`: 更新处理器（`updateHandlers`）
+ * - `inline`: 内联查询
+ * - `callback`: 回调查询
+ */
+export type MiddlewareType = "command" | "update" | "inline" | "callback";
+
+/**
+ * 中间件上下文。
+ *
+ * 同一次分发中所有中间件共享同一个上下文对象，
+ * 可通过 `state` 向后续中间件和处理器传递数据。
+ */
+export interface MiddlewareContext {
+  /** 分发类型 */
+  type: MiddlewareType;
+  /** 原始更新 */
+  update: Update;
+  /** TDLib 客户端实例 */
+  client: Client;
+  /** 收到更新的账号名 */
+  account: string;
+  /** 对话 ID（如果有） */
+  chatId?: number;
+  /** 发送者用户 ID（如果有） */
+  userId?: number;
+  /**
+   * 命令信息（仅 `command` 类型）。
+   * 中间件可修改 `name` / `args`，分发时使用修改后的值。
+   */
+  command?: {
+    name: string;
+    args: string[];
+    prefix: string;
+  };
+  /** 中间件之间共享的自定义数据 */
+  state: Record<string, unknown>;
+}
+
+/**
+ * 中间件函数（Koa 风格）。
+ *
+ * 调用 `await next()` 执行后续中间件和处理器，不调用则中断分发。
+ */
+export type Middleware = (
+  ctx: MiddlewareContext,
+  next: () => Promise<void>
+) => Promise<void> | void;
+
+/**
+ * 中间件定义。
+ * @example
+ * // 统计命令耗时
+ * middlewareHandlers['timing'] = {
+ *   types: ['command'],
+ *   priority: 100,
+ *   handler: async (ctx, next) => {
+ *     const start = Date.now();
+ *     await next();
+ *     logger.info(`${ctx.command?.name} 耗时 ${Date.now() - start}ms`);
+ *   }
+ * };
+ */
+export interface MiddlewareDef {
+  /** 可选：中间件说明 */
+  description?: string;
+  /**
+   * 可选：作用的分发类型，默认作用于全部类型
+   */
+  types?: MiddlewareType | MiddlewareType[];
+  /**
+   * 可选：优先级，数值越大越先执行（越靠外层）
+   * @default 0
+   */
+  priority?: number;
+  /** 中间件函数 */
+  handler: Middleware;
+}
+
+/**
+ * 更新处理器的上下文
+ */
+export interface UpdateContext {
+  /** 收到更新的账号名 */
+  account: string;
+  /** 收到更新的账号的 TDLib 客户端 */
+  client: Client;
 }
 
 /**
@@ -105,8 +742,17 @@ export interface UpdateDef<T extends Update = Update> {
   /**
    * 更新处理回调。
    * @param update 收到的更新对象，类型由泛型参数 `T` 指定。
+   * @param ctx 收到更新的账号
    */
-  handler: (update: T) => Promise<void> | void;
+  handler: (update: T, ctx: UpdateContext) => Promise<void> | void;
+  /**
+   * 可选：是否与同一对话的其他更新并行处理。
+   *
+   * 默认情况下同一对话的更新按顺序逐个处理（见配置 `plugins.dispatch`），
+   * 耗时较长且与顺序无关的处理器可设为 true，避免阻塞该对话的后续更新。
+   * @default false
+   */
+  parallel?: boolean;
 }
 
 /**
@@ -154,7 +800,7 @@ type UpdateHandlers = {
  * 插件基础抽象类。
  *
  * 所有插件应继承此类并实现必须的元数据（`name`、`version`、`description`），
- * 并可以通过 `cmdHandlers`、`updateHandlers`、`runHandlers` 注册各类回调。
+ * 并可以通过 `cmdHandlers`、`updateHandlers`、`runHandlers`、`inlineHandlers`、`callbackHandlers` 注册各类回调。
  */
 export abstract class Plugin {
   /** 插件名称（必须） */
@@ -172,6 +818,32 @@ export abstract class Plugin {
   abstract version: string;
   /** 插件描述（必须） */
   abstract description: string;
+  /**
+   * 可选：硬依赖，key 为插件名称，value 为 semver 版本范围。
+   * 框架保证依赖先于本插件加载；依赖缺失或版本不满足时本插件不会加载，
+   * 依赖被卸载或重载时本插件也会随之卸载或重载。
+   * @example
+   * dependencies = { 'Fuyu-plugins': '^1.0.0' };
+   */
+  dependencies?: Record<string, string>;
+  /**
+   * 可选：软依赖，格式同 `dependencies`。
+   * 存在时会先于本插件加载，缺失时本插件仍正常加载。
+   */
+  softDependencies?: Record<string, string>;
+  /**
+   * 可选：命令优先级。多个插件注册了同名命令且冲突策略为 `priority` 时，
+   * 数值大的插件处理该命令。
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * 可选：插件加载到哪些账号（账号名列表），省略时加载到全部账号。
+   * 配置 `plugins.accounts` 中的设置优先。
+   * @example
+   * accounts = ['main', 'helper'];
+   */
+  accounts?: string[];
   /** 插件可使用的 TDLib 客户端实例（由框架注入） */
   protected client: Client;
 
@@ -217,6 +889,96 @@ export abstract class Plugin {
    * 框架在收到内联查询时会遍历所有处理器并调用匹配的 handler。
    */
   inlineHandlers: Record<string, InlineDef> = {};
+
+  /**
+   * 回调查询处理器集合：key 为处理器名称，value 为 `CallbackDef`。
+   * 框架在收到回调查询时按 `pattern` 匹配解码后的数据，调用第一个匹配的 handler。
+   */
+  callbackHandlers: Record<string, CallbackDef<any>> = {};
+
+  /**
+   * 会话处理器集合：key 为会话名称，value 为 `ConversationDef`。
+   * 通过 `PluginAPI.startConversation` 启动。
+   */
+  conversationHandlers: Record<string, ConversationDef> = {};
+
+  /**
+   * 中间件集合：key 为中间件名称，value 为 `MiddlewareDef`。
+   * 框架在分发命令、更新、内联查询和回调查询时按优先级依次执行。
+   */
+  middlewareHandlers: Record<string, MiddlewareDef> = {};
+
+  /**
+   * 注册中间件（`middlewareHandlers` 的简写）。
+   * @param handler 中间件函数
+   * @param options 可选：名称、作用类型、优先级
+   * @example
+   * this.use(async (ctx, next) => {
+   *   if (blocked.has(ctx.userId)) return;
+   *   await next();
+   * }, { priority: 1000 });
+   */
+  protected use(
+    handler: Middleware,
+    options: Omit<MiddlewareDef, "handler"> & { name?: string } = {}
+  ) {
+    const { name, ...def } = options;
+    const key = name ?? `middleware${Object.keys(this.middlewareHandlers).length}`;
+    this.middlewareHandlers[key] = { ...def, handler };
+  }
+
+  /**
+   * 插件配置 Schema：声明插件可由管理员通过 `/config plugin` 修改的配置项。
+   * 框架在加载时校验 Schema，并通过 `PluginAPI.config` 提供读写。
+   */
+  configSchema: PluginConfigSchema = {};
+}
+
+/**
+ * 插件清单（`plugin.json`，或 `package.json` 的 `fuyu` 字段）。
+ *
+ * 清单在导入插件模块之前读取，用于提前检查插件能否在当前环境加载。
+ * 所有字段均为可选；`name`、`version` 与插件实例不一致时以实例为准。
+ * @example
+ * {
+ *   "name": "example",
+ *   "version": "1.0.0",
+ *   "author": "someone",
+ *   "homepage": "https://github.com/someone/example",
+ *   "minFrameworkVersion": "0.8.0",
+ *   "accountType": "bot",
+ *   "permissions": ["storage", "network"],
+ *   "dependencies": { "Fuyu-plugins": "*" }
+ * }
+ */
+export interface PluginManifest {
+  /** 插件名称 */
+  name?: string;
+  /** 插件版本（semver） */
+  version?: string;
+  /** 插件描述 */
+  description?: string;
+  /** 作者 */
+  author?: string;
+  /** 主页 / 仓库地址 */
+  homepage?: string;
+  /** 需要的最低框架版本（semver） */
+  minFrameworkVersion?: string;
+  /**
+   * 需要的账号类型，与插件 `type` 含义相同
+   * - `user`: 仅用户账号
+   * - `bot`: 仅 Bot 账号
+   * - `general`: 均可
+   */
+  accountType?: "user" | "bot" | "general";
+  /** 插件需要的权限 / 能力声明（如 `storage`、`network`），用于展示 */
+  permissions?: string[];
+  /** 硬依赖，插件实例未声明 `dependencies` 时使用 */
+  dependencies?: Record<string, string>;
+  /** 软依赖，插件实例未声明 `softDependencies` 时使用 */
+  softDependencies?: Record<string, string>;
+  /** 加载到哪些账号，插件实例未声明 `accounts` 时使用 */
+  accounts?: string[];
 }
 
 /**
@@ -231,6 +993,12 @@ export interface PluginInfo {
   description: string;
   /** 插件实例 */
   instance: BasePlugin;
+  /** 插件入口文件路径 */
+  modulePath?: string;
+  /** 插件清单（如果有） */
+  manifest?: PluginManifest;
+  /** 插件的语言文件（插件目录下的 `locales/<语言代码>.json`） */
+  locales?: Record<string, LocaleMessages>;
   /**
    * 插件命令汇总（用于帮助、展示等）。
    * 每一项为命令名和简要描述，以及可选的场景和权限信息。
@@ -251,6 +1019,89 @@ export interface PluginInfo {
 
 export type ImportedModule = Record<string, unknown> & { default?: unknown };
 
+/**
+ * 插件专属的持久化键值存储。
+ *
+ * 每个插件拥有独立的命名空间（按插件名隔离），
+ * 默认存储于 MongoDB，MongoDB 不可用时回退到本地 JSON 文件。
+ * 插件被删除时其存储会被一并清理。
+ */
+export interface PluginStorage {
+  /**
+   * 读取值。
+   * @param key 键
+   * @returns 值，不存在或已过期时返回 `undefined`
+   */
+  get: <T = unknown>(key: string) => Promise<T | undefined>;
+  /**
+   * 写入值。
+   * @param key 键
+   * @param value 值（需可 JSON 序列化）
+   * @param options 可选：`ttlMs` 过期时间（毫秒）
+   */
+  set: (key: string, value: unknown, options?: { ttlMs?: number }) => Promise<void>;
+  /**
+   * 删除键。
+   * @returns 是否存在并删除
+   */
+  delete: (key: string) => Promise<boolean>;
+  /**
+   * 列出键值。
+   * @param prefix 可选：只列出以此前缀开头的键
+   */
+  list: <T = unknown>(prefix?: string) => Promise<Array<{ key: string; value: T }>>;
+  /**
+   * 原子地增加数值（键不存在或已过期时从 0 开始）。
+   * @param key 键
+   * @param by 增量（默认 1）
+   * @param options 可选：`ttlMs` 过期时间（毫秒），仅在键新建时生效
+   * @returns 增加后的值
+   */
+  increment: (key: string, by?: number, options?: { ttlMs?: number }) => Promise<number>;
+}
+
+/**
+ * 插件配置读写接口（按 `configSchema` 校验）。
+ */
+export interface PluginConfig {
+  /**
+   * 读取配置项，未设置时返回默认值。
+   * @param key 配置项名称（必须在 `configSchema` 中声明）
+   */
+  get: <T = unknown>(key: string) => Promise<T | undefined>;
+  /**
+   * 读取全部配置项（已合并默认值）。
+   */
+  getAll: () => Promise<Record<string, unknown>>;
+  /**
+   * 设置配置项，值不符合 Schema 时抛出异常。
+   * @param key 配置项名称
+   * @param value 新值
+   */
+  set: (key: string, value: unknown) => Promise<void>;
+  /**
+   * 将配置项恢复为默认值。
+   * @param key 配置项名称
+   */
+  reset: (key: string) => Promise<void>;
+}
+
+/**
+ * 插件安装 / 更新结果
+ */
+export interface PluginInstallResult {
+  /** 是否成功 */
+  success: boolean;
+  /** 插件名称（成功时存在） */
+  name?: string;
+  /** 结果说明或错误信息（框架默认语言） */
+  message: string;
+  /** 结果说明的语言键（框架语言文件中的 `installer.*`），回复用户时用 `t(messageKey, messageParams)` 翻译 */
+  messageKey: string;
+  /** 语言键的插值参数 */
+  messageParams?: Record<string, string | number>;
+}
+
 /**
  * 插件可使用的管理 API。
  *
@@ -328,4 +1179,80 @@ export interface PluginAPI {
    * @returns 是否成功删除
    */
   deletePlugin: (name: string) => Promise<boolean>;
+
+  /**
+   * 从 git 地址或本地压缩包安装插件，失败时自动回滚。
+   * @param source git 仓库地址（含本地裸仓库路径）或 `.tgz` / `.tar.gz` / `.tar` 文件路径
+   */
+  installPlugin: (source: string) => Promise<PluginInstallResult>;
+
+  /**
+   * 从安装来源更新插件，失败时恢复旧版本。
+   * @param name 插件名称
+   */
+  updatePlugin: (name: string) => Promise<PluginInstallResult>;
+
+  /**
+   * 向消息发送者提问并等待其在同一对话中的下一条消息。
+   *
+   * 等待期间该用户的消息不会进入命令路由；用户发送 `/cancel` 或超时返回 `null`。
+   * 与 `startConversation` 不同，`ask` 的等待状态不会持久化。
+   * @param message 触发提问的消息（用于确定对话和用户）
+   * @param prompt 可选：提示文本
+   * @param options 可选：`timeoutMs` 超时时间（毫秒，默认 300000）
+   * @returns 用户回复的消息，取消或超时返回 `null`
+   */
+  ask: (
+    message: updateNewMessage,
+    prompt?: string,
+    options?: { timeoutMs?: number }
+  ) => Promise<updateNewMessage | null>;
+
+  /**
+   * 为消息发送者启动当前插件 `conversationHandlers` 中的会话。
+   * @param name 会话名称
+   * @param message 触发会话的消息（用于确定对话和用户）
+   * @param data 可选：初始会话数据
+   * @returns 是否成功启动
+   */
+  startConversation: (
+    name: string,
+    message: updateNewMessage,
+    data?: Record<string, unknown>
+  ) => Promise<boolean>;
+
+  /**
+   * 取消指定对话中某个用户正在进行的会话或提问。
+   * @param chatId 对话 ID
+   * @param userId 用户 ID
+   * @returns 是否存在并取消了会话
+   */
+  cancelConversation: (chatId: number, userId: number) => Promise<boolean>;
+
+  /**
+   * 注册进程关闭时执行的回调，可用于持久化状态。
+   *
+   * 回调在处理中的更新完成后、插件 `destroy` 和数据库关闭之前执行；
+   * 插件被卸载或重载后，之前注册的回调不再执行。
+   * @returns 取消注册的函数
+   */
+  onShutdown: (handler: () => Promise<void> | void) => () => void;
+
+  /**
+   * 获取当前账号更新分发队列的状态（处理中、排队中的更新数等）。
+   * 插件尚未全部加载完成时返回 `null`。
+   */
+  getDispatchStats: () => DispatchQueueStats | null;
+
+  /**
+   * 当前插件的持久化键值存储。
+   * 需在插件注册完成后（`onLoad` 及之后）使用。
+   */
+  storage: PluginStorage;
+
+  /**
+   * 当前插件的配置（由 `configSchema` 声明）。
+   * 需在插件注册完成后（`onLoad` 及之后）使用。
+   */
+  config: PluginConfig;
 }
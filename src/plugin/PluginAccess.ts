@@ -0,0 +1,121 @@
+import logger from "@log/index.ts";
+import { getConfig, upsertConfig } from "@db/config.ts";
+import type { AccessConfig, AccessEntry } from "../types/Database.d.ts";
+import { getUserPermission } from "./PluginValidator.ts";
+
+/** 访问名单类型 */
+export type AccessListName = "blocked_users" | "blocked_chats" | "allowed_chats";
+
+/** 访问检查结果 */
+export type AccessResult =
+    | { allowed: true }
+    | {
+        allowed: false;
+        /** 命中的名单 */
+        list: AccessListName | "allowlist_mode";
+        /** 命中的名单项（白名单模式下未列出时为 undefined） */
+        entry?: AccessEntry;
+    };
+
+function isActive(entry: AccessEntry, now: number): boolean {
+    return entry.expires_at === undefined || entry.expires_at > now;
+}
+
+/**
+ * 读取访问名单（过滤掉已过期的项）
+ */
+export async function getAccessConfig(): Promise<Omit<AccessConfig, "type">> {
+    const now = Date.now();
+    let config: AccessConfig | null = null;
+    try {
+        config = await getConfig("access");
+    } catch (e) {
+        logger.debug(e, `[插件管理] 读取访问名单失败:`);
+    }
+    return {
+        blocked_users: (config?.blocked_users ?? []).filter((e) => isActive(e, now)),
+        blocked_chats: (config?.blocked_chats ?? []).filter((e) => isActive(e, now)),
+        allowed_chats: (config?.allowed_chats ?? []).filter((e) => isActive(e, now)),
+        allowlist_mode: config?.allowlist_mode ?? false,
+    };
+}
+
+/**
+ * 检查用户和对话是否可以使用 Bot
+ *
+ * owner 与 admin 始终允许；白名单模式只限制群组和频道（对话 ID 为负数），私聊不受影响。
+ * @param target 用户 ID（以频道/群组身份发送时为 null）与对话 ID（内联查询没有对话）
+ */
+export async function checkAccess(target: {
+    userId: number | null;
+    chatId?: number;
+}): Promise<AccessResult> {
+    const { userId, chatId } = target;
+    if (userId !== null && (await getUserPermission(userId)) !== "user") {
+        return { allowed: true };
+    }
+
+    const config = await getAccessConfig();
+
+    if (userId !== null) {
+        const entry = config.blocked_users.find((e) => e.id === userId);
+        if (entry) return { allowed: false, list: "blocked_users", entry };
+    }
+
+    if (chatId !== undefined) {
+        const entry = config.blocked_chats.find((e) => e.id === chatId);
+        if (entry) return { allowed: false, list: "blocked_chats", entry };
+
+        if (
+            config.allowlist_mode &&
+            chatId < 0 &&
+            !config.allowed_chats.some((e) => e.id === chatId)
+        ) {
+            return { allowed: false, list: "allowlist_mode" };
+        }
+    }
+
+    return { allowed: true };
+}
+
+/**
+ * 添加或更新访问名单中的一项（同时清理已过期的项）
+ */
+export async function addAccessEntry(
+    list: AccessListName,
+    entry: Omit<AccessEntry, "added_at">
+): Promise<AccessEntry> {
+    const config = await getAccessConfig();
+    const added: AccessEntry = { ...entry, added_at: Date.now() };
+    await upsertConfig("access", {
+        ...config,
+        [list]: [...config[list].filter((e) => e.id !== entry.id), added],
+    });
+    logger.info(`[插件管理] 访问名单 ${list} 已添加 ${entry.id}`);
+    return added;
+}
+
+/**
+ * 从访问名单中移除一项（同时清理已过期的项）
+ * @returns 是否存在并移除
+ */
+export async function removeAccessEntry(
+    list: AccessListName,
+    id: number
+): Promise<boolean> {
+    const config = await getAccessConfig();
+    const remaining = config[list].filter((e) => e.id !== id);
+    const removed = remaining.length !== config[list].length;
+    await upsertConfig("access", { ...config, [list]: remaining });
+    if (removed) logger.info(`[插件管理] 访问名单 ${list} 已移除 ${id}`);
+    return removed;
+}
+
+/**
+ * 开启或关闭白名单模式
+ */
+export async function setAllowlistMode(enabled: boolean) {
+    const config = await getAccessConfig();
+    await upsertConfig("access", { ...config, allowlist_mode: enabled });
+    logger.info(`[插件管理] 白名单模式已${enabled ? "开启" : "关闭"}`);
+}
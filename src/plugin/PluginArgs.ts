@@ -0,0 +1,489 @@
+import type { Client } from "tdl";
+import type {
+    CommandDef,
+    CommandArgDef,
+    CommandFlagDef,
+    CommandArgType,
+    CommandArgValue,
+    Translator,
+} from "./BasePlugin.ts";
+import { getChatByUsername } from "@TDLib/function/get.ts";
+import { DEFAULT_LOCALE, createTranslator } from "./PluginI18n.ts";
+
+type Token = {
+    /** 去掉引号和转义后的值 */
+    value: string;
+    /** 在原始文本中的起始位置 */
+    start: number;
+    /** 是否带引号（带引号的 token 不会被识别为选项） */
+    quoted: boolean;
+};
+
+/** 参数声明（命令或子命令中的 `args` 与 `flags`） */
+type ArgSpec = Pick<CommandDef, "args" | "flags">;
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1,
+    m: 60,
+    h: 3600,
+    d: 86400,
+    w: 604800,
+};
+
+const TRUE_VALUES = ["true", "yes", "on", "1", "是"];
+const FALSE_VALUES = ["false", "no", "off", "0", "否"];
+
+/**
+ * 命令是否声明了参数
+ */
+export function hasArgSpec(def: ArgSpec): boolean {
+    return Boolean(def.args?.length || def.flags?.length);
+}
+
+/**
+ * 校验命令的参数声明
+ * @returns 错误信息列表，为空表示校验通过
+ */
+export function validateArgSpec(def: ArgSpec): string[] {
+    const errors: string[] = [];
+    const names = new Set<string>();
+    const args = def.args || [];
+
+    args.forEach((arg, index) => {
+        if (!arg.name) {
+            errors.push(`第 ${index + 1} 个参数缺少 name`);
+            return;
+        }
+        if (names.has(arg.name)) errors.push(`参数名重复: ${arg.name}`);
+        names.add(arg.name);
+
+        if (arg.rest && index !== args.length - 1) {
+            errors.push(`rest 参数 ${arg.name} 必须是最后一个参数`);
+        }
+        const prev = args[index - 1];
+        if (prev && isOptional(prev) && !isOptional(arg)) {
+            errors.push(`必填参数 ${arg.name} 不能位于可省略参数 ${prev.name} 之后`);
+        }
+        if (arg.type === "enum" && !arg.values?.length) {
+            errors.push(`enum 参数 ${arg.name} 缺少 values`);
+        }
+    });
+
+    const shorts = new Set<string>();
+    for (const flag of def.flags || []) {
+        if (!flag.name) {
+            errors.push(`选项缺少 name`);
+            continue;
+        }
+        if (names.has(flag.name)) errors.push(`参数/选项名重复: ${flag.name}`);
+        names.add(flag.name);
+
+        if (flag.short !== undefined) {
+            if (!/^[A-Za-z]$/.test(flag.short)) {
+                errors.push(`选项 ${flag.name} 的短名称必须是单个字母`);
+            } else if (shorts.has(flag.short)) {
+                errors.push(`选项短名称重复: -${flag.short}`);
+            }
+            shorts.add(flag.short);
+        }
+        if (flag.type === "enum" && !flag.values?.length) {
+            errors.push(`enum 选项 ${flag.name} 缺少 values`);
+        }
+    }
+
+    return errors;
+}
+
+function isOptional(arg: CommandArgDef): boolean {
+    return Boolean(arg.optional || arg.default !== undefined);
+}
+
+/**
+ * 将参数文本拆分为 token，支持单/双引号和反斜杠转义
+ */
+function tokenize(raw: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < raw.length) {
+        while (i < raw.length && /\s/.test(raw[i]!)) i++;
+        if (i >= raw.length) break;
+
+        const start = i;
+        let value = "";
+        let quoted = false;
+
+        while (i < raw.length && !/\s/.test(raw[i]!)) {
+            const ch = raw[i]!;
+            if (ch === '"' || ch === "'") {
+                const end = findClosingQuote(raw, i + 1, ch);
+                if (end === -1) {
+                    // 未闭合的引号按普通字符处理
+                    value += ch;
+                    i++;
+                    continue;
+                }
+                value += unescape(raw.slice(i + 1, end), ch);
+                quoted = true;
+                i = end + 1;
+            } else if (ch === "\\" && i + 1 < raw.length) {
+                value += raw[i + 1];
+                i += 2;
+            } else {
+                value += ch;
+                i++;
+            }
+        }
+
+        tokens.push({ value, start, quoted });
+    }
+
+    return tokens;
+}
+
+function findClosingQuote(raw: string, from: number, quote: string): number {
+    for (let i = from; i < raw.length; i++) {
+        if (raw[i] === "\\") {
+            i++;
+        } else if (raw[i] === quote) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function unescape(text: string, quote: string): string {
+    return text.replace(/\\(.)/gs, (match: string, ch: string) =>
+        ch === quote || ch === "\\" ? ch : match
+    );
+}
+
+/**
+ * 解析时长文本
+ * @returns 秒数，格式无效时返回 null
+ */
+export function parseDuration(text: string): number | null {
+    const input = text.trim().toLowerCase();
+    if (/^\d+(\.\d+)?$/.test(input)) return Math.round(Number(input));
+    if (!/^(\d+(\.\d+)?[smhdw])+$/.test(input)) return null;
+
+    let seconds = 0;
+    for (const [, amount, unit] of input.matchAll(/(\d+(?:\.\d+)?)([smhdw])/g)) {
+        seconds += Number(amount) * DURATION_UNITS[unit!]!;
+    }
+    return Math.round(seconds);
+}
+
+/**
+ * 按类型转换单个参数值
+ * @throws 值无效时抛出，错误信息可直接展示给用户
+ */
+async function convertValue(
+    client: Client,
+    value: string,
+    type: CommandArgType,
+    values: string[] | undefined,
+    label: string,
+    t: Translator
+): Promise<string | number | boolean> {
+    switch (type) {
+        case "string":
+            return value;
+        case "int": {
+            const num = Number(value);
+            if (!/^[+-]?\d+$/.test(value) || !Number.isSafeInteger(num)) {
+                throw new Error(t("args.notInt", { label, value }));
+            }
+            return num;
+        }
+        case "number": {
+            const num = Number(value);
+            if (value.trim() === "" || !Number.isFinite(num)) {
+                throw new Error(t("args.notNumber", { label, value }));
+            }
+            return num;
+        }
+        case "boolean": {
+            const lower = value.toLowerCase();
+            if (TRUE_VALUES.includes(lower)) return true;
+            if (FALSE_VALUES.includes(lower)) return false;
+            throw new Error(t("args.notBoolean", { label, value }));
+        }
+        case "duration": {
+            const seconds = parseDuration(value);
+            if (seconds === null) {
+                throw new Error(t("args.notDuration", { label, value }));
+            }
+            return seconds;
+        }
+        case "enum": {
+            const matched = values?.find((v) => v.toLowerCase() === value.toLowerCase());
+            if (matched === undefined) {
+                throw new Error(
+                    t("args.notEnum", {
+                        label,
+                        values: (values || []).map((v) => `\`${v}\``).join(" / "),
+                    })
+                );
+            }
+            return matched;
+        }
+        case "user":
+        case "chat": {
+            if (/^-?\d+$/.test(value)) {
+                if (type === "user" && value.startsWith("-")) {
+                    throw new Error(t("args.notUserId", { label, value }));
+                }
+                return Number(value);
+            }
+            const username = value.replace(/^(@|https?:\/\/t\.me\/)/i, "");
+            if (!/^[A-Za-z]\w{3,31}$/.test(username)) {
+                throw new Error(t("args.notIdOrUsername", { label, value }));
+            }
+            let chat;
+            try {
+                chat = await getChatByUsername(client, username);
+            } catch {
+                throw new Error(t("args.usernameNotFound", { label, username }));
+            }
+            if (type === "chat") return chat.id;
+            if (chat.type._ !== "chatTypePrivate") {
+                throw new Error(t("args.notUser", { label, username }));
+            }
+            return chat.type.user_id;
+        }
+    }
+}
+
+/**
+ * 按命令的参数声明解析参数文本
+ * @param client TDLib 客户端（解析 `user` / `chat` 类型时使用）
+ * @param def 命令定义
+ * @param rawArgs 命令名之后的原始参数文本
+ * @param t 可选：错误信息使用的翻译函数，默认使用框架默认语言
+ * @returns 成功时返回解析结果，失败时返回可展示给用户的错误信息
+ */
+export async function parseCommandArgs(
+    client: Client,
+    def: ArgSpec,
+    rawArgs: string,
+    t: Translator = createTranslator(DEFAULT_LOCALE)
+): Promise<
+    | { values: Record<string, CommandArgValue | undefined>; error?: undefined }
+    | { error: string }
+> {
+    const args = def.args || [];
+    const flags = def.flags || [];
+    const values: Record<string, CommandArgValue | undefined> = {};
+    const tokens = tokenize(rawArgs);
+    const positional: Token[] = [];
+    let restRaw: string | null = null;
+    let flagsEnded = false;
+
+    const restArg = args.at(-1)?.rest ? args.at(-1) : undefined;
+    const restIsText = restArg !== undefined && (restArg.type ?? "string") === "string";
+
+    try {
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i]!;
+            const isOption = !flagsEnded && !token.quoted && /^-[A-Za-z-]/.test(token.value);
+
+            if (isOption && token.value === "--") {
+                flagsEnded = true;
+                continue;
+            }
+
+            if (isOption) {
+                const [flag, inlineValue] = matchFlag(flags, token.value, t);
+                const type = flag.type ?? "boolean";
+                const label = t("args.flagLabel", { name: flag.name });
+
+                if (type === "boolean" && inlineValue === undefined) {
+                    values[flag.name] = true;
+                    continue;
+                }
+
+                let text = inlineValue;
+                if (text === undefined) {
+                    const next = tokens[i + 1];
+                    if (!next) throw new Error(t("args.missingValue", { label }));
+                    text = next.value;
+                    i++;
+                }
+                values[flag.name] = await convertValue(client, text, type, flag.values, label, t);
+                continue;
+            }
+
+            // 文本类型的 rest 参数保留剩余的原始文本（此后的内容不再解析选项）
+            if (restIsText && positional.length === args.length - 1) {
+                const single = i === tokens.length - 1 && token.quoted;
+                restRaw = single ? token.value : rawArgs.slice(token.start).trim();
+                break;
+            }
+            positional.push(token);
+        }
+
+        for (const [index, arg] of args.entries()) {
+            const type = arg.type ?? "string";
+            const label = t("args.argLabel", { name: arg.name });
+
+            if (arg.rest) {
+                if (restIsText) {
+                    values[arg.name] = restRaw ?? undefined;
+                } else {
+                    const items = positional.slice(index);
+                    values[arg.name] = items.length
+                        ? await Promise.all(
+                            items.map((item) =>
+                                convertValue(client, item.value, type, arg.values, label, t)
+                            )
+                        )
+                        : undefined;
+                }
+            } else {
+                const token = positional[index];
+                values[arg.name] = token
+                    ? await convertValue(client, token.value, type, arg.values, label, t)
+                    : undefined;
+            }
+
+            if (values[arg.name] === undefined) {
+                if (!isOptional(arg)) throw new Error(t("args.missing", { label }));
+                values[arg.name] = arg.default;
+            }
+        }
+
+        if (!restArg && positional.length > args.length) {
+            const extra = positional.slice(args.length).map((item) => item.value).join(" ");
+            throw new Error(t("args.extra", { extra }));
+        }
+
+        for (const flag of flags) {
+            if (values[flag.name] !== undefined) continue;
+            values[flag.name] =
+                flag.default ?? ((flag.type ?? "boolean") === "boolean" ? false : undefined);
+        }
+    } catch (e) {
+        return { error: e instanceof Error ? e.message : String(e) };
+    }
+
+    return { values };
+}
+
+/**
+ * 根据 token 找到对应的选项定义
+ * @returns 选项定义和 `--name=value` 形式的值
+ * @throws 未知选项时抛出
+ */
+function matchFlag(
+    flags: CommandFlagDef[],
+    text: string,
+    t: Translator
+): [CommandFlagDef, string | undefined] {
+    if (text.startsWith("--")) {
+        const eq = text.indexOf("=");
+        const name = eq === -1 ? text.slice(2) : text.slice(2, eq);
+        const flag = flags.find((f) => f.name === name);
+        if (!flag) throw new Error(t("args.unknownFlag", { flag: `--${name}` }));
+        return [flag, eq === -1 ? undefined : text.slice(eq + 1)];
+    }
+
+    const short = text.slice(1, 2);
+    const flag = flags.find((f) => f.short === short);
+    if (!flag) throw new Error(t("args.unknownFlag", { flag: `-${short}` }));
+    // -n5 形式的值
+    return [flag, text.length > 2 ? text.slice(2) : undefined];
+}
+
+function formatArg(arg: CommandArgDef): string {
+    const label = arg.type === "enum" && arg.values?.length
+        ? arg.values.join("|")
+        : arg.name;
+    const name = arg.rest ? `${label}...` : label;
+    return isOptional(arg) ? `[${name}]` : `<${name}>`;
+}
+
+function formatFlag(flag: CommandFlagDef): string {
+    const names = flag.short ? `-${flag.short}|--${flag.name}` : `--${flag.name}`;
+    const type = flag.type ?? "boolean";
+    if (type === "boolean") return `[${names}]`;
+    const value = type === "enum" && flag.values?.length ? flag.values.join("|") : flag.name;
+    return `[${names} <${value}>]`;
+}
+
+/**
+ * 生成命令用法（单行），如 `/ban <user> [duration] [reason...] [-s|--silent]`
+ * @param prefix 命令前缀
+ * @param name 命令名称
+ */
+export function formatCommandUsage(prefix: string, name: string, def: ArgSpec): string {
+    return [
+        `${prefix}${name}`,
+        ...(def.args || []).map(formatArg),
+        ...(def.flags || []).map(formatFlag),
+    ].join(" ");
+}
+
+/**
+ * 生成参数说明（每个参数/选项一行），没有声明参数时返回空字符串
+ */
+export function formatArgDescriptions(
+    def: ArgSpec,
+    t: Translator = createTranslator(DEFAULT_LOCALE)
+): string {
+    const lines: string[] = [];
+    for (const arg of def.args || []) {
+        const extra = arg.default !== undefined
+            ? t("args.default", { value: JSON.stringify(arg.default) })
+            : "";
+        lines.push(`• \`${arg.name}\` (${arg.type ?? "string"}) ${arg.description ?? ""}${extra}`.trimEnd());
+    }
+    for (const flag of def.flags || []) {
+        const names = flag.short ? `-${flag.short}, --${flag.name}` : `--${flag.name}`;
+        lines.push(`• \`${names}\` ${flag.description ?? ""}`.trimEnd());
+    }
+    return lines.join("\n");
+}
+
+const SCHEMA_TYPES: Record<CommandArgType, string> = {
+    string: "string",
+    int: "integer",
+    number: "number",
+    boolean: "boolean",
+    user: "integer",
+    chat: "integer",
+    duration: "integer",
+    enum: "string",
+};
+
+/**
+ * 根据参数声明生成 `CommandDef.params`（Tool Schema 参数）
+ */
+export function buildParamsFromArgSpec(def: ArgSpec): NonNullable<CommandDef["params"]> {
+    const params: NonNullable<CommandDef["params"]> = {};
+
+    const describe = (item: CommandArgDef | CommandFlagDef, fallback: string) => {
+        let text = item.description || fallback;
+        if (item.type === "enum" && item.values?.length) text += `（可选值: ${item.values.join(", ")}）`;
+        if (item.type === "duration") text += "（秒）";
+        return text;
+    };
+
+    for (const arg of def.args || []) {
+        const type = SCHEMA_TYPES[arg.type ?? "string"];
+        params[arg.name] = {
+            type: arg.rest && arg.type && arg.type !== "string" ? "array" : type,
+            description: describe(arg, arg.name),
+            required: !isOptional(arg),
+        };
+    }
+    for (const flag of def.flags || []) {
+        params[flag.name] = {
+            type: SCHEMA_TYPES[flag.type ?? "boolean"],
+            description: describe(flag, flag.name),
+            required: false,
+        };
+    }
+
+    return params;
+}
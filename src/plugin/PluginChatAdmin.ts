@@ -0,0 +1,122 @@
+import logger from "@log/index.ts";
+import type { Client } from "tdl";
+import type { MessageSender$Input } from "tdlib-types";
+import { isMeAdmin, isUserAdmin } from "@TDLib/function/index.ts";
+import { getAccountName } from "@TDLib/Accounts.ts";
+import type { ChatAdminRights, Translator } from "./BasePlugin.ts";
+import { DEFAULT_LOCALE, createTranslator } from "./PluginI18n.ts";
+
+/** 管理员状态缓存时间 */
+const CACHE_TTL_MS = 60 * 1000;
+
+/** 缓存条目上限，超过后淘汰最早写入的条目 */
+const MAX_CACHE_SIZE = 10000;
+
+/** 清理过期缓存的间隔 */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** `${chatId}|${成员}|${权限}` → 是否满足（自己为 `me:${账号名}`） */
+const cache = new Map<string, { value: boolean; expiresAt: number }>();
+let lastSweep = Date.now();
+
+function rightsKey(rights?: ChatAdminRights): string {
+    if (!rights) return "";
+    return Object.entries(rights)
+        .filter(([, value]) => value)
+        .map(([key]) => key)
+        .sort()
+        .join(",");
+}
+
+/**
+ * 写入缓存（顺带清理过期条目，并保证条目数不超过上限）
+ */
+function store(key: string, value: boolean, now: number) {
+    if (now - lastSweep >= SWEEP_INTERVAL_MS) {
+        lastSweep = now;
+        for (const [k, entry] of cache) {
+            if (entry.expiresAt <= now) cache.delete(k);
+        }
+    }
+
+    // 重新插入以更新写入顺序
+    cache.delete(key);
+    cache.set(key, { value, expiresAt: now + CACHE_TTL_MS });
+    while (cache.size > MAX_CACHE_SIZE) {
+        const oldest = cache.keys().next().value as string;
+        cache.delete(oldest);
+    }
+}
+
+/**
+ * 读取缓存，未命中时执行检查并缓存结果（检查失败视为不满足且不缓存）
+ */
+async function cached(key: string, check: () => Promise<boolean>): Promise<boolean> {
+    const now = Date.now();
+    const hit = cache.get(key);
+    if (hit && hit.expiresAt > now) return hit.value;
+
+    try {
+        const value = await check();
+        store(key, value, now);
+        return value;
+    } catch (e) {
+        logger.debug(e, `[插件管理] 检查群组管理员状态失败 (${key}):`);
+        return false;
+    }
+}
+
+/**
+ * 检查消息发送者是否为群组/频道管理员（带缓存）
+ * @param rights 可选：要求拥有的管理员权限
+ */
+export function isChatAdmin(
+    client: Client,
+    chatId: number,
+    sender: MessageSender$Input,
+    rights?: ChatAdminRights
+): Promise<boolean> {
+    const member =
+        sender._ === "messageSenderUser" ? `u${sender.user_id}` : `c${sender.chat_id}`;
+    return cached(`${chatId}|${member}|${rightsKey(rights)}`, () =>
+        isUserAdmin(client, chatId, sender, rights)
+    );
+}
+
+/**
+ * 检查 Bot（自己）是否为群组/频道管理员（带缓存）
+ * @param rights 可选：要求拥有的管理员权限
+ */
+export function isBotChatAdmin(
+    client: Client,
+    chatId: number,
+    rights?: ChatAdminRights
+): Promise<boolean> {
+    return cached(`${chatId}|me:${getAccountName(client)}|${rightsKey(rights)}`, () =>
+        isMeAdmin(client, chatId, rights)
+    );
+}
+
+/**
+ * 清除某个对话的管理员状态缓存（成员状态变化时调用）
+ */
+export function invalidateChatAdminCache(chatId: number) {
+    const prefix = `${chatId}|`;
+    for (const key of cache.keys()) {
+        if (key.startsWith(prefix)) cache.delete(key);
+    }
+}
+
+/**
+ * 格式化权限要求（用于提示，权限名称取自语言文件的 `chatAdmin.rights.<权限>`）
+ * @param t 可选：翻译函数（默认使用框架语言）
+ */
+export function formatChatAdminRights(
+    rights?: ChatAdminRights | true,
+    t: Translator = createTranslator(DEFAULT_LOCALE)
+): string {
+    const names = rights === true ? [] : rightsKey(rights).split(",").filter(Boolean);
+    return names
+        .map((name) => t.find(`chatAdmin.rights.${name}`) ?? name)
+        .join(t("common.separator"));
+}
@@ -0,0 +1,154 @@
+import logger from "@log/index.ts";
+import { getChatSettings as queryChatSettings } from "@db/query.ts";
+import { updateChatSettings } from "@db/update.ts";
+import { deleteChatSettings } from "@db/delete.ts";
+import type { ChatSettingsRecord } from "../types/Database.d.ts";
+
+/** 对话设置（未设置的项为 undefined） */
+export type ChatSettings = Omit<ChatSettingsRecord, "chat_id" | "updated_at">;
+
+/** 对话设置缓存时间 */
+const CACHE_TTL_MS = 30 * 1000;
+
+/** 读取失败的缓存时间（期间视为未设置，避免数据库故障时每条消息都重试） */
+const FAILURE_TTL_MS = 5 * 1000;
+
+/** 对话 ID → 对话设置（未设置过的对话缓存为空对象） */
+const cache = new Map<number, { value: ChatSettings; expiresAt: number }>();
+
+function toSettings(record: ChatSettingsRecord | null): ChatSettings {
+    if (!record) return {};
+    const { chat_id: _chatId, updated_at: _updatedAt, ...settings } = record;
+    return settings;
+}
+
+/**
+ * 读取对话设置（带缓存，读取失败时短暂视为未设置）
+ */
+export async function getChatSettings(chatId: number): Promise<ChatSettings> {
+    const now = Date.now();
+    const hit = cache.get(chatId);
+    if (hit && hit.expiresAt > now) return hit.value;
+
+    try {
+        const value = toSettings(await queryChatSettings(chatId));
+        cache.set(chatId, { value, expiresAt: now + CACHE_TTL_MS });
+        return value;
+    } catch (e) {
+        logger.debug(e, `[插件管理] 读取对话 ${chatId} 的设置失败，使用全局配置:`);
+        const value: ChatSettings = {};
+        cache.set(chatId, { value, expiresAt: now + FAILURE_TTL_MS });
+        return value;
+    }
+}
+
+/**
+ * 写入对话设置并刷新缓存
+ */
+async function saveChatSettings(
+    chatId: number,
+    set: ChatSettings,
+    unset: (keyof ChatSettings)[] = []
+): Promise<ChatSettings> {
+    const record = await updateChatSettings(chatId, set, unset);
+    const value = toSettings(record);
+    cache.set(chatId, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+    return value;
+}
+
+/**
+ * 判断插件是否在对话中被禁用
+ */
+export function isPluginDisabledInChat(settings: ChatSettings, pluginName: string): boolean {
+    return settings.disabled_plugins?.includes(pluginName) ?? false;
+}
+
+/**
+ * 判断命令是否在对话中被禁用
+ * @param commandName 命令定义名（不含别名）
+ */
+export function isCommandDisabledInChat(settings: ChatSettings, commandName: string): boolean {
+    return settings.disabled_commands?.includes(commandName) ?? false;
+}
+
+/**
+ * 设置对话的命令前缀
+ * @param prefixes 前缀列表，为 null 时恢复为全局配置
+ */
+export async function setChatPrefixes(chatId: number, prefixes: string[] | null) {
+    const settings = prefixes
+        ? await saveChatSettings(chatId, { prefixes: [...new Set(prefixes)] })
+        : await saveChatSettings(chatId, {}, ["prefixes"]);
+    logger.info(
+        `[插件管理] 对话 ${chatId} 的命令前缀已${prefixes ? `设置为 ${prefixes.join(" ")}` : "恢复默认"}`
+    );
+    return settings;
+}
+
+/**
+ * 设置对话语言
+ * @param language 语言代码，为 null 时恢复为全局配置
+ */
+export async function setChatLanguage(chatId: number, language: string | null) {
+    const settings = language
+        ? await saveChatSettings(chatId, { language })
+        : await saveChatSettings(chatId, {}, ["language"]);
+    logger.info(
+        `[插件管理] 对话 ${chatId} 的语言已${language ? `设置为 ${language}` : "恢复默认"}`
+    );
+    return settings;
+}
+
+/**
+ * 在对话中启用或禁用插件
+ * @returns 状态是否发生变化
+ */
+export async function setChatPluginEnabled(
+    chatId: number,
+    pluginName: string,
+    enabled: boolean
+): Promise<boolean> {
+    const current = (await getChatSettings(chatId)).disabled_plugins ?? [];
+    if (current.includes(pluginName) !== enabled) return false;
+
+    await saveChatSettings(chatId, {
+        disabled_plugins: enabled
+            ? current.filter((name) => name !== pluginName)
+            : [...current, pluginName],
+    });
+    logger.info(`[插件管理] 插件 ${pluginName} 已在对话 ${chatId} 中${enabled ? "启用" : "禁用"}`);
+    return true;
+}
+
+/**
+ * 在对话中启用或禁用命令
+ * @param commandName 命令定义名（不含别名）
+ * @returns 状态是否发生变化
+ */
+export async function setChatCommandEnabled(
+    chatId: number,
+    commandName: string,
+    enabled: boolean
+): Promise<boolean> {
+    const current = (await getChatSettings(chatId)).disabled_commands ?? [];
+    if (current.includes(commandName) !== enabled) return false;
+
+    await saveChatSettings(chatId, {
+        disabled_commands: enabled
+            ? current.filter((name) => name !== commandName)
+            : [...current, commandName],
+    });
+    logger.info(`[插件管理] 命令 ${commandName} 已在对话 ${chatId} 中${enabled ? "启用" : "禁用"}`);
+    return true;
+}
+
+/**
+ * 清除对话的全部设置
+ * @returns 是否存在并清除
+ */
+export async function resetChatSettings(chatId: number): Promise<boolean> {
+    const result = await deleteChatSettings(chatId);
+    cache.delete(chatId);
+    if (result.deletedCount > 0) logger.info(`[插件管理] 对话 ${chatId} 的设置已清除`);
+    return result.deletedCount > 0;
+}
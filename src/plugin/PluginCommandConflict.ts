@@ -0,0 +1,181 @@
+import { getConfig } from "@db/config.ts";
+import logger from "@log/index.ts";
+import type { PluginsConfig } from "../types/Database.d.ts";
+import type { CommandDef, PluginInfo } from "./BasePlugin.ts";
+import { findCommand } from "./PluginCommandRouter.ts";
+
+/** 同名命令处理策略 */
+export type CommandPolicy = NonNullable<PluginsConfig["commandPolicy"]>;
+
+export type CommandPolicyConfig = {
+    policy: CommandPolicy;
+    overrides: Record<string, string>;
+};
+
+/** 提供某个命令的插件 */
+export type CommandProvider = {
+    plugin: PluginInfo;
+    /** 命令定义名（调用时使用别名也返回原命令名） */
+    name: string;
+    def: CommandDef;
+};
+
+/**
+ * 读取同名命令处理策略
+ */
+export async function getCommandPolicy(): Promise<CommandPolicyConfig> {
+    try {
+        const config = await getConfig("plugins");
+        return {
+            policy: config?.commandPolicy ?? "first-wins",
+            overrides: config?.commandOverrides ?? {},
+        };
+    } catch (e) {
+        logger.debug(e, `[插件管理] 读取命令冲突策略失败:`);
+        return { policy: "first-wins", overrides: {} };
+    }
+}
+
+/**
+ * 解析 `插件名:命令` 形式的命令名
+ * @returns 不含 `:` 时返回 null
+ */
+export function parseNamespacedCommand(
+    commandName: string
+): { pluginName: string; command: string } | null {
+    const index = commandName.lastIndexOf(":");
+    if (index <= 0 || index === commandName.length - 1) return null;
+    return {
+        pluginName: commandName.slice(0, index),
+        command: commandName.slice(index + 1),
+    };
+}
+
+/**
+ * 获取注册了指定命令（含别名）的全部插件，按加载顺序排列
+ */
+export function getCommandProviders(
+    plugins: Iterable<PluginInfo>,
+    commandName: string
+): CommandProvider[] {
+    const providers: CommandProvider[] = [];
+    for (const plugin of plugins) {
+        const found = findCommand(plugin.instance?.cmdHandlers || {}, commandName);
+        if (found) providers.push({ plugin, ...found });
+    }
+    return providers;
+}
+
+/**
+ * 按策略从多个提供者中选出处理命令的插件
+ * @param commandName 调用时使用的命令名或别名
+ */
+export function pickCommandProvider(
+    providers: CommandProvider[],
+    commandName: string,
+    { policy, overrides }: CommandPolicyConfig
+): CommandProvider | undefined {
+    if (providers.length <= 1) return providers[0];
+
+    const preferred = overrides[commandName];
+    if (preferred) {
+        const matched = providers.find((p) => p.plugin.name === preferred);
+        if (matched) return matched;
+    }
+
+    if (policy === "priority") {
+        // 优先级相同时保持加载顺序
+        return providers.reduce((best, p) =>
+            (p.plugin.instance.priority ?? 0) > (best.plugin.instance.priority ?? 0) ? p : best
+        );
+    }
+
+    return providers[0];
+}
+
+/**
+ * 确定处理命令的插件
+ *
+ * `插件名:命令` 只交给指定插件（插件名不区分大小写）；
+ * 否则多个插件注册了同名命令时按策略只选出一个。
+ * @returns 处理命令的插件，未找到时返回空数组
+ */
+export async function resolveCommandProviders(
+    plugins: Iterable<PluginInfo>,
+    commandName: string
+): Promise<CommandProvider[]> {
+    const namespaced = parseNamespacedCommand(commandName);
+    if (namespaced) {
+        const target = namespaced.pluginName.toLowerCase();
+        for (const plugin of plugins) {
+            if (plugin.name.toLowerCase() !== target) continue;
+            const found = findCommand(plugin.instance?.cmdHandlers || {}, namespaced.command);
+            return found ? [{ plugin, ...found }] : [];
+        }
+        return [];
+    }
+
+    const providers = getCommandProviders(plugins, commandName);
+    const picked = pickCommandProvider(providers, commandName, await getCommandPolicy());
+    return picked ? [picked] : [];
+}
+
+/**
+ * 收集插件注册的命令名和别名
+ */
+function getCommandNames(plugin: PluginInfo): string[] {
+    const names: string[] = [];
+    for (const [name, def] of Object.entries(plugin.instance?.cmdHandlers || {})) {
+        names.push(name, ...(def.aliases || []));
+    }
+    return names;
+}
+
+/**
+ * 查找所有命令冲突
+ * @param pluginName 可选：只返回与该插件有关的冲突
+ * @returns 命令名或别名 → 注册了它的插件（按加载顺序）
+ */
+export function findCommandConflicts(
+    plugins: Iterable<PluginInfo>,
+    pluginName?: string
+): Map<string, CommandProvider[]> {
+    const list = [...plugins];
+    const conflicts = new Map<string, CommandProvider[]>();
+
+    let names: string[];
+    if (pluginName) {
+        const plugin = list.find((p) => p.name === pluginName);
+        if (!plugin) return conflicts;
+        names = getCommandNames(plugin);
+    } else {
+        names = list.flatMap(getCommandNames);
+    }
+
+    for (const name of new Set(names)) {
+        const providers = getCommandProviders(list, name);
+        if (providers.length > 1) conflicts.set(name, providers);
+    }
+    return conflicts;
+}
+
+/**
+ * 记录新插件引入的命令冲突
+ */
+export async function reportCommandConflicts(
+    plugins: Map<string, PluginInfo>,
+    pluginName: string
+) {
+    const conflicts = findCommandConflicts(plugins.values(), pluginName);
+    if (conflicts.size === 0) return;
+
+    const policy = await getCommandPolicy();
+    for (const [name, providers] of conflicts) {
+        const winner = pickCommandProvider(providers, name, policy);
+        logger.warn(
+            `[插件管理] 命令冲突: ${name} 同时由 ${providers
+                .map((p) => p.plugin.name)
+                .join("、")} 注册，当前由 ${winner?.plugin.name} 处理（可使用 插件名:${name} 调用指定插件）`
+        );
+    }
+}
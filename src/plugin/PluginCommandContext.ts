@@ -0,0 +1,104 @@
+import fs from "node:fs";
+import type { Client } from "tdl";
+import type { message, updateNewMessage } from "tdlib-types";
+import type { CommandContext } from "./BasePlugin.ts";
+import {
+    sendMessage,
+    editMessageText,
+    deleteMessage,
+} from "@TDLib/function/message.ts";
+import { getMessage } from "@TDLib/function/get.ts";
+import { getAccountName } from "@TDLib/Accounts.ts";
+import { askConversation, getSenderUserId } from "./PluginConversation.ts";
+
+/**
+ * 创建命令上下文
+ * @param client TDLib 客户端
+ * @param update 命令消息
+ * @param info 命令解析与校验阶段得到的信息
+ */
+export function createCommandContext(
+    client: Client,
+    update: updateNewMessage,
+    info: Pick<
+        CommandContext,
+        "command" | "path" | "prefix" | "args" | "rawArgs" | "parsed" | "chatType" | "role" | "locale" | "t"
+    >
+): CommandContext {
+    const msg = update.message;
+    const chatId = msg.chat_id;
+    const replyTo =
+        msg.reply_to?._ === "messageReplyToMessage"
+            ? { chatId: msg.reply_to.chat_id, messageId: msg.reply_to.message_id }
+            : null;
+
+    // 最近一次 reply() 发送的消息，供 edit() 使用
+    let lastReply: message | undefined;
+
+    const reply: CommandContext["reply"] = async (text, options = {}) => {
+        const sent = await sendMessage(client, chatId, {
+            reply_to_message_id: msg.id,
+            ...(msg.topic_id && { topic_id: msg.topic_id }),
+            ...options,
+            text,
+        });
+        if (sent) lastReply = sent;
+        return sent;
+    };
+
+    return {
+        update,
+        ...info,
+        account: getAccountName(client),
+        chatId,
+        messageId: msg.id,
+        sender: msg.sender_id,
+        userId: getSenderUserId(update),
+        replyTo,
+        getReplyMessage: async () => {
+            if (!replyTo) return null;
+            try {
+                return await getMessage(client, replyTo.chatId, replyTo.messageId);
+            } catch {
+                return null;
+            }
+        },
+        reply,
+        replyPhoto: (photo, caption, options = {}) => {
+            const media =
+                typeof photo === "string"
+                    ? {
+                        // 本地不存在的字符串视为 url 或远程文件 ID
+                        photo: fs.existsSync(photo) ? { path: photo } : { id: photo },
+                        ...(caption !== undefined && { caption }),
+                    }
+                    : { ...photo, ...(caption !== undefined && { caption }) };
+            return sendMessage(client, chatId, {
+                reply_to_message_id: msg.id,
+                ...(msg.topic_id && { topic_id: msg.topic_id }),
+                ...options,
+                media,
+            });
+        },
+        edit: async (text, options = {}) => {
+            const target = lastReply ?? (msg.is_outgoing ? msg : undefined);
+            if (!target) {
+                return reply(text, {
+                    ...(options.link_preview !== undefined && {
+                        link_preview: options.link_preview,
+                    }),
+                    ...(options.reply_markup && { reply_markup: options.reply_markup }),
+                });
+            }
+            const edited = await editMessageText(client, target.chat_id, target.id, {
+                ...options,
+                text,
+            });
+            if (edited && target === lastReply) lastReply = edited;
+            return edited;
+        },
+        delete: (revoke = true) => deleteMessage(client, chatId, msg.id, revoke),
+        ask: (prompt, options = {}) =>
+            askConversation(client, update, prompt, options.timeoutMs),
+    };
+}
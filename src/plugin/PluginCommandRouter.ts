@@ -0,0 +1,212 @@
+import type { CommandDef, SubcommandDef, Translator } from "./BasePlugin.ts";
+import {
+    hasArgSpec,
+    validateArgSpec,
+    formatCommandUsage,
+    formatArgDescriptions,
+} from "./PluginArgs.ts";
+import { DEFAULT_LOCALE, createTranslator, getCommandDescription } from "./PluginI18n.ts";
+
+/** 命令解析结果 */
+export type CommandRoute = {
+    /** 匹配到的子命令（从上到下），未匹配子命令时为空数组 */
+    chain: SubcommandDef[];
+    /** 子命令路径（子命令的定义名，不含别名） */
+    path: string[];
+    /** 最终匹配到的命令或子命令 */
+    node: CommandDef | SubcommandDef;
+    /** 去掉子命令名后的参数 */
+    args: string[];
+    /** 去掉子命令名后的原始参数文本 */
+    rawArgs: string;
+};
+
+/**
+ * 按命令名或别名查找命令
+ * @returns 命令定义名和定义，未找到时返回 null
+ */
+export function findCommand(
+    handlers: Record<string, CommandDef>,
+    name: string
+): { name: string; def: CommandDef } | null {
+    const def = handlers[name];
+    if (def) return { name, def };
+
+    for (const [key, candidate] of Object.entries(handlers)) {
+        if (candidate.aliases?.includes(name)) return { name: key, def: candidate };
+    }
+    return null;
+}
+
+/**
+ * 按子命令名或别名查找子命令（不区分大小写）
+ */
+function findSubcommand(
+    subcommands: Record<string, SubcommandDef>,
+    name: string
+): [string, SubcommandDef] | null {
+    const lower = name.toLowerCase();
+    for (const [key, def] of Object.entries(subcommands)) {
+        if (
+            key.toLowerCase() === lower ||
+            def.aliases?.some((alias) => alias.toLowerCase() === lower)
+        ) {
+            return [key, def];
+        }
+    }
+    return null;
+}
+
+/**
+ * 按参数逐级匹配子命令
+ * @param def 命令定义
+ * @param args 命令参数
+ * @param rawArgs 命令名之后的原始参数文本
+ */
+export function resolveSubcommand(
+    def: CommandDef,
+    args: string[],
+    rawArgs: string
+): CommandRoute {
+    const route: CommandRoute = { chain: [], path: [], node: def, args, rawArgs };
+
+    let subcommands = def.subcommands;
+    while (subcommands && route.args.length > 0) {
+        const matched = findSubcommand(subcommands, route.args[0]!);
+        if (!matched) break;
+
+        const [name, sub] = matched;
+        route.chain.push(sub);
+        route.path.push(name);
+        route.node = sub;
+        route.args = route.args.slice(1);
+        route.rawArgs = route.rawArgs.replace(/^\S+\s*/, "");
+        subcommands = sub.subcommands;
+    }
+
+    return route;
+}
+
+/**
+ * 校验插件的命令声明（参数声明、别名、子命令）
+ * @returns 错误信息列表，为空表示校验通过
+ */
+export function validateCommandHandlers(handlers: Record<string, CommandDef>): string[] {
+    const errors: string[] = [];
+    const names = new Map<string, string>();
+
+    for (const [name, def] of Object.entries(handlers)) {
+        for (const alias of [name, ...(def.aliases || [])]) {
+            if (/\s/.test(alias) || alias === "") {
+                errors.push(`命令 ${name} 的别名无效: "${alias}"`);
+                continue;
+            }
+            const owner = names.get(alias);
+            if (owner !== undefined && owner !== name) {
+                errors.push(`命令名/别名 ${alias} 同时属于 ${owner} 和 ${name}`);
+            }
+            names.set(alias, name);
+        }
+        errors.push(...validateCommandNode(name, def));
+    }
+
+    return errors;
+}
+
+function validateCommandNode(path: string, def: CommandDef | SubcommandDef): string[] {
+    const errors = validateArgSpec(def).map((e) => `${path}: ${e}`);
+    if (!def.handler && !Object.keys(def.subcommands || {}).length) {
+        errors.push(`${path}: 没有 handler 的子命令必须包含下级子命令`);
+    }
+
+    const names = new Map<string, string>();
+    for (const [name, sub] of Object.entries(def.subcommands || {})) {
+        for (const alias of [name, ...(sub.aliases || [])]) {
+            const key = alias.toLowerCase();
+            if (/\s/.test(alias) || alias === "") {
+                errors.push(`${path} ${name}: 别名无效: "${alias}"`);
+                continue;
+            }
+            const owner = names.get(key);
+            if (owner !== undefined && owner !== name) {
+                errors.push(`${path}: 子命令名/别名 ${alias} 同时属于 ${owner} 和 ${name}`);
+            }
+            names.set(key, name);
+        }
+        errors.push(...validateCommandNode(`${path} ${name}`, sub));
+    }
+
+    return errors;
+}
+
+/**
+ * 生成命令（或子命令分组）的帮助文本，包含用法、别名、参数说明和子命令树
+ * @param prefix 命令前缀
+ * @param name 命令全名（子命令用空格分隔，如 `plugin info`）
+ * @param def 命令或子命令定义
+ * @param canUse 可选：过滤子命令（返回 false 的子命令及其下级不显示）
+ * @param t 可选：翻译函数（用于标题和命令说明，默认使用框架默认语言）
+ */
+export function formatCommandHelp(
+    prefix: string,
+    name: string,
+    def: CommandDef | SubcommandDef,
+    canUse: (sub: SubcommandDef) => boolean = () => true,
+    t: Translator = createTranslator(DEFAULT_LOCALE)
+): string {
+    let text = `📖 *${prefix}${name}*`;
+    const description = getCommandDescription(def, name, t);
+    if (description) text += ` - ${description}`;
+    text += "\n\n";
+
+    const hasSubcommands = Object.keys(def.subcommands || {}).length > 0;
+    text += `*${t("usage.title")}*\n`;
+    // 有子命令时，只有声明了参数的处理器才单独列出用法
+    if (def.handler && (!hasSubcommands || hasArgSpec(def))) {
+        text += `\`${formatCommandUsage(prefix, name, def)}\`\n`;
+    }
+    if (hasSubcommands) {
+        text += `\`${prefix}${name} ${t("usage.subcommand")}\`\n`;
+    }
+
+    if (def.aliases?.length) {
+        text += `\n*${t("usage.aliases")}* ${def.aliases.map((a) => `\`${a}\``).join(t("common.separator"))}\n`;
+    }
+
+    const argText = formatArgDescriptions(def, t);
+    if (argText) text += `\n*${t("usage.args")}*\n${argText}\n`;
+
+    if (hasSubcommands) {
+        text += `\n*${t("usage.subcommands")}*\n${formatSubcommandTree(prefix, name, def, canUse, t, 0)}`;
+    }
+
+    return text.trimEnd();
+}
+
+function formatSubcommandTree(
+    prefix: string,
+    name: string,
+    def: CommandDef | SubcommandDef,
+    canUse: (sub: SubcommandDef) => boolean,
+    t: Translator,
+    depth: number
+): string {
+    let text = "";
+    for (const [subName, sub] of Object.entries(def.subcommands || {})) {
+        if (!canUse(sub)) continue;
+
+        const fullName = `${name} ${subName}`;
+        const usage = sub.handler
+            ? formatCommandUsage(prefix, fullName, sub)
+            : `${prefix}${fullName} ${t("usage.subcommand")}`;
+        text += `${"  ".repeat(depth)}• \`${usage}\``;
+        const description = getCommandDescription(sub, fullName, t);
+        if (description) text += ` - ${description}`;
+        if (sub.aliases?.length) {
+            text += t("usage.subAliases", { aliases: sub.aliases.join(t("common.separator")) });
+        }
+        text += "\n";
+        text += formatSubcommandTree(prefix, fullName, sub, canUse, t, depth + 1);
+    }
+    return text;
+}
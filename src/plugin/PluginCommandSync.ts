@@ -0,0 +1,256 @@
+import logger from "@log/index.ts";
+import type { Client } from "tdl";
+import type { BotCommandScope$Input, botCommand$Input } from "tdlib-types";
+import { getConfig } from "@db/config.ts";
+import type { CmdConfig } from "../types/Database.d.ts";
+import type { CommandDef, CommandScopeType, PluginInfo } from "./BasePlugin.ts";
+import {
+    getCommandPolicy,
+    getCommandProviders,
+    pickCommandProvider,
+} from "./PluginCommandConflict.ts";
+import { createTranslator, getCommandDescription } from "./PluginI18n.ts";
+import { getAccountByClient } from "@TDLib/Accounts.ts";
+
+/** 插件变化后等待的时间，合并连续的加载 / 卸载 */
+const SYNC_DEBOUNCE_MS = 1000;
+
+/** Telegram 命令名格式 */
+const COMMAND_NAME_PATTERN = /^[a-z0-9_]{1,32}$/;
+
+/** Telegram 命令菜单支持的语言代码（ISO 639-1） */
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2}$/;
+
+type CommandEntry = {
+    name: string;
+    def: CommandDef;
+    plugin: PluginInfo;
+    scopes: string[];
+    permission: string;
+};
+
+type SyncTarget = {
+    /** 用于日志和去重的作用域标识 */
+    key: string;
+    scope: BotCommandScope$Input;
+    chatType: Exclude<CommandScopeType, "all">;
+    role: "owner" | "admin" | "chat_admin" | "user";
+};
+
+type SyncState = {
+    /** 上次同步时设置过的作用域与语言，下次同步时清理不再需要的部分 */
+    lastSynced: Map<string, { scope: BotCommandScope$Input; language: string }>;
+    timer: NodeJS.Timeout | null;
+    queue: Promise<void>;
+};
+
+/** 各账号客户端的同步状态 */
+const syncStates = new WeakMap<Client, SyncState>();
+
+function getSyncState(client: Client): SyncState {
+    let state = syncStates.get(client);
+    if (!state) {
+        state = { lastSynced: new Map(), timer: null, queue: Promise.resolve() };
+        syncStates.set(client, state);
+    }
+    return state;
+}
+
+/**
+ * 计算命令生效的场景与权限（考虑配置文件中的覆盖）
+ */
+function getEffectiveAccess(
+    name: string,
+    def: CommandDef,
+    overrides: NonNullable<CmdConfig["cmd"]>["permissions"]
+): { scopes: string[]; permission: string } {
+    const override = overrides?.[name];
+    const scope = override?.scope ?? def.scope ?? "all";
+    return {
+        scopes: Array.isArray(scope) ? scope : [scope],
+        permission: override?.permission ?? def.permission ?? "all",
+    };
+}
+
+/**
+ * 按权限要求判断命令是否出现在该作用域的菜单中
+ * （权限节点只显示给管理员，拥有节点的普通用户仍可直接调用）
+ */
+function hasRole(permission: string, role: SyncTarget["role"]): boolean {
+    if (permission === "all") return true;
+    if (permission === "chat_admin") return role === "chat_admin";
+    if (permission === "owner") return role === "owner";
+    return role === "admin" || role === "owner";
+}
+
+/**
+ * 构建某个作用域、某种语言下的命令列表
+ */
+function buildCommandList(
+    entries: CommandEntry[],
+    target: SyncTarget,
+    language: string
+): botCommand$Input[] {
+    const commands: botCommand$Input[] = [];
+    for (const { name, def, plugin, scopes, permission } of entries) {
+        if (!scopes.includes("all") && !scopes.includes(target.chatType)) continue;
+        if (!hasRole(permission, target.role)) continue;
+
+        const description = (
+            (language && getCommandDescription(def, name, createTranslator(language, plugin))) ||
+            def.description ||
+            name
+        ).slice(0, 256);
+        commands.push({ _: "botCommand", command: name, description });
+    }
+    return commands;
+}
+
+/**
+ * 将已加载插件的命令同步到 Telegram 命令菜单（仅 Bot 账号）
+ *
+ * - 私聊、群组分别设置命令列表（只包含所有人可用的命令）
+ * - 群组管理员额外看到 `chat_admin` 命令
+ * - 管理员和超级管理员在与 Bot 的私聊中额外看到有权限的命令
+ * - 命令提供了 `descriptions` 或插件语言文件中有命令说明时按语言分别设置
+ */
+export async function syncBotCommands(
+    plugins: Map<string, PluginInfo>,
+    client: Client
+) {
+    const account = getAccountByClient(client);
+    if (account) {
+        if (account.isUserAccount) return;
+    } else {
+        const botConfig = await getConfig("bot");
+        if (botConfig?.account_type !== false) return;
+    }
+    const state = getSyncState(client);
+
+    const configData = await getConfig("config").catch(() => null);
+    const policy = await getCommandPolicy();
+
+    // 收集可显示的命令（同名命令只取冲突策略选出的插件）
+    const entries: CommandEntry[] = [];
+    const languages = new Set<string>([""]);
+    const seen = new Set<string>();
+    for (const plugin of plugins.values()) {
+        for (const [name, def] of Object.entries(plugin.instance.cmdHandlers || {})) {
+            if (seen.has(name) || def.showInHelp === false) continue;
+            if (!COMMAND_NAME_PATTERN.test(name)) {
+                logger.debug(`[插件管理] 命令 ${name} 不符合 Telegram 命令名格式，不同步到命令菜单`);
+                continue;
+            }
+            const winner = pickCommandProvider(getCommandProviders(plugins.values(), name), name, policy);
+            if (winner?.plugin.name !== plugin.name) continue;
+
+            seen.add(name);
+            entries.push({
+                name,
+                def,
+                plugin,
+                ...getEffectiveAccess(name, def, configData?.cmd?.permissions),
+            });
+            for (const language of Object.keys(def.descriptions || {})) {
+                languages.add(language);
+            }
+            for (const [language, messages] of Object.entries(plugin.locales || {})) {
+                if (LANGUAGE_CODE_PATTERN.test(language) && `commands.${name}` in messages) {
+                    languages.add(language);
+                }
+            }
+        }
+    }
+
+    const targets: SyncTarget[] = [
+        {
+            key: "private",
+            scope: { _: "botCommandScopeAllPrivateChats" },
+            chatType: "private",
+            role: "user",
+        },
+        {
+            key: "group",
+            scope: { _: "botCommandScopeAllGroupChats" },
+            chatType: "group",
+            role: "user",
+        },
+        {
+            key: "group_admins",
+            scope: { _: "botCommandScopeAllChatAdministrators" },
+            chatType: "group",
+            role: "chat_admin",
+        },
+    ];
+
+    const adminConfig = await getConfig("admin");
+    const admins = new Map<number, SyncTarget["role"]>();
+    for (const id of adminConfig?.admin ?? []) admins.set(id, "admin");
+    if (adminConfig?.super_admin) admins.set(adminConfig.super_admin, "owner");
+    for (const [userId, role] of admins) {
+        targets.push({
+            key: `chat:${userId}`,
+            scope: { _: "botCommandScopeChat", chat_id: userId },
+            chatType: "private",
+            role,
+        });
+    }
+
+    const synced = new Map<string, { scope: BotCommandScope$Input; language: string }>();
+    for (const target of targets) {
+        for (const language of languages) {
+            const commands = buildCommandList(entries, target, language);
+            try {
+                await client.invoke({
+                    _: "setCommands",
+                    scope: target.scope,
+                    language_code: language,
+                    commands,
+                });
+                synced.set(`${target.key}|${language}`, { scope: target.scope, language });
+            } catch (e) {
+                logger.warn(
+                    e,
+                    `[插件管理] 同步命令菜单失败 (${target.key}${language ? `, ${language}` : ""}):`
+                );
+            }
+        }
+    }
+
+    // 清理不再需要的作用域（如被移除的管理员）和语言
+    for (const [key, { scope, language }] of state.lastSynced) {
+        if (synced.has(key)) continue;
+        try {
+            await client.invoke({ _: "deleteCommands", scope, language_code: language });
+        } catch (e) {
+            logger.debug(e, `[插件管理] 清理命令菜单失败 (${key}):`);
+        }
+    }
+    state.lastSynced = synced;
+
+    logger.info(
+        `[插件管理] 已同步 ${entries.length} 个命令到 Telegram 命令菜单（${targets.length} 个作用域，${languages.size} 种语言）`
+    );
+}
+
+/**
+ * 延迟同步命令菜单，合并短时间内的多次插件变化（同一时间只执行一次同步）
+ */
+export function scheduleBotCommandSync(
+    plugins: Map<string, PluginInfo>,
+    client: Client | null
+) {
+    if (!client) return;
+    const state = getSyncState(client);
+    if (state.timer) clearTimeout(state.timer);
+
+    state.timer = setTimeout(() => {
+        state.timer = null;
+        state.queue = state.queue
+            .then(() => syncBotCommands(plugins, client))
+            .catch((e) => {
+                logger.error(e, `[插件管理] 同步命令菜单出错:`);
+            });
+    }, SYNC_DEBOUNCE_MS);
+    state.timer.unref();
+}
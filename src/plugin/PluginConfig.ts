@@ -0,0 +1,277 @@
+import logger from "@log/index.ts";
+import { getConfig, upsertConfig } from "@db/config.ts";
+import type {
+    PluginConfigField,
+    PluginConfigSchema,
+    PluginConfigType,
+    Translator,
+} from "./BasePlugin.ts";
+import { DEFAULT_LOCALE, createTranslator } from "./PluginI18n.ts";
+
+const CONFIG_TYPES: PluginConfigType[] = [
+    "string",
+    "number",
+    "integer",
+    "boolean",
+    "string[]",
+];
+
+/**
+ * 检查值是否符合配置项定义
+ * @param t 可选：翻译函数（默认使用框架语言）
+ * @returns 错误信息，符合时返回 null
+ */
+export function checkConfigValue(
+    field: PluginConfigField,
+    value: unknown,
+    t: Translator = createTranslator(DEFAULT_LOCALE)
+): string | null {
+    switch (field.type) {
+        case "string":
+            if (typeof value !== "string") return t("pluginConfig.notString");
+            break;
+        case "number":
+            if (typeof value !== "number" || !Number.isFinite(value)) {
+                return t("pluginConfig.notNumber");
+            }
+            break;
+        case "integer":
+            if (typeof value !== "number" || !Number.isInteger(value)) {
+                return t("pluginConfig.notInteger");
+            }
+            break;
+        case "boolean":
+            if (typeof value !== "boolean") return t("pluginConfig.notBoolean");
+            break;
+        case "string[]":
+            if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+                return t("pluginConfig.notStringArray");
+            }
+            break;
+    }
+
+    if (field.enum && !field.enum.includes(value as string | number)) {
+        return t("pluginConfig.notEnum", { values: field.enum.join(", ") });
+    }
+
+    const size =
+        typeof value === "number"
+            ? value
+            : (value as string | string[]).length;
+    const length = typeof value !== "number";
+    if (field.min !== undefined && size < field.min) {
+        return t(length ? "pluginConfig.tooShort" : "pluginConfig.tooSmall", { min: field.min });
+    }
+    if (field.max !== undefined && size > field.max) {
+        return t(length ? "pluginConfig.tooLong" : "pluginConfig.tooLarge", { max: field.max });
+    }
+
+    return null;
+}
+
+/**
+ * 校验插件声明的配置 Schema
+ * @returns 错误信息列表，为空表示校验通过
+ */
+export function validateConfigSchema(schema: PluginConfigSchema): string[] {
+    const errors: string[] = [];
+
+    for (const [key, field] of Object.entries(schema || {})) {
+        if (!field || typeof field !== "object") {
+            errors.push(`${key}: 定义无效`);
+            continue;
+        }
+        if (!CONFIG_TYPES.includes(field.type)) {
+            errors.push(`${key}: 未知类型 ${String(field.type)}`);
+            continue;
+        }
+        if (
+            field.enum &&
+            (field.type === "boolean" || field.type === "string[]")
+        ) {
+            errors.push(`${key}: ${field.type} 类型不支持 enum`);
+        }
+        if (
+            field.min !== undefined &&
+            field.max !== undefined &&
+            field.min > field.max
+        ) {
+            errors.push(`${key}: min 不能大于 max`);
+        }
+        if (field.default !== undefined) {
+            const error = checkConfigValue(field, field.default);
+            if (error) errors.push(`${key}: 默认值${error}`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * 将用户输入的文本解析为配置项的值
+ * @param t 可选：翻译错误信息的函数（默认使用框架语言）
+ */
+export function parseConfigInput(
+    field: PluginConfigField,
+    raw: string,
+    t: Translator = createTranslator(DEFAULT_LOCALE)
+): { value: unknown } | { error: string } {
+    const text = raw.trim();
+    let value: unknown;
+
+    switch (field.type) {
+        case "string":
+            value = raw.replace(/\\n/g, "\n");
+            break;
+        case "number":
+        case "integer":
+            value = text === "" ? NaN : Number(text);
+            break;
+        case "boolean": {
+            const lower = text.toLowerCase();
+            if (["true", "on", "yes", "1"].includes(lower)) value = true;
+            else if (["false", "off", "no", "0"].includes(lower)) value = false;
+            else return { error: t("pluginConfig.notTrueFalse") };
+            break;
+        }
+        case "string[]":
+            value = text === ""
+                ? []
+                : text.split(",").map((s) => s.trim()).filter(Boolean);
+            break;
+    }
+
+    const error = checkConfigValue(field, value, t);
+    return error ? { error } : { value };
+}
+
+/**
+ * 格式化配置值用于展示（敏感项会被隐藏）
+ * @param t 可选：翻译函数（默认使用框架语言）
+ */
+export function formatConfigValue(
+    field: PluginConfigField,
+    value: unknown,
+    t: Translator = createTranslator(DEFAULT_LOCALE)
+): string {
+    if (value === undefined) return t("pluginConfig.unset");
+    if (field.secret) return "******";
+    if (Array.isArray(value)) return value.join(", ") || t("pluginConfig.empty");
+    return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+async function getStoredValues(
+    pluginName: string
+): Promise<Record<string, unknown>> {
+    const config = await getConfig("pluginConfig");
+    return config?.values?.[pluginName] ?? {};
+}
+
+async function saveStoredValues(
+    pluginName: string,
+    values: Record<string, unknown>
+) {
+    const config = await getConfig("pluginConfig");
+    const all = { ...config?.values };
+    if (Object.keys(values).length > 0) {
+        all[pluginName] = values;
+    } else {
+        delete all[pluginName];
+    }
+    await upsertConfig("pluginConfig", { values: all });
+}
+
+function getField(
+    pluginName: string,
+    schema: PluginConfigSchema,
+    key: string
+): PluginConfigField {
+    const field = schema[key];
+    if (!field) {
+        throw new Error(`插件 ${pluginName} 未声明配置项 ${key}`);
+    }
+    return field;
+}
+
+/**
+ * 获取插件的全部配置（已合并默认值，不符合 Schema 的已存储值会被忽略）
+ */
+export async function getPluginConfigValues(
+    pluginName: string,
+    schema: PluginConfigSchema
+): Promise<Record<string, unknown>> {
+    const stored = await getStoredValues(pluginName);
+    const result: Record<string, unknown> = {};
+
+    for (const [key, field] of Object.entries(schema)) {
+        if (key in stored) {
+            const error = checkConfigValue(field, stored[key]);
+            if (!error) {
+                result[key] = stored[key];
+                continue;
+            }
+            logger.warn(
+                `[插件管理] 插件 ${pluginName} 配置项 ${key} 的值无效（${error}），使用默认值`
+            );
+        }
+        result[key] = field.default;
+    }
+
+    return result;
+}
+
+/**
+ * 获取插件的单个配置项
+ */
+export async function getPluginConfigValue(
+    pluginName: string,
+    schema: PluginConfigSchema,
+    key: string
+): Promise<unknown> {
+    getField(pluginName, schema, key);
+    const values = await getPluginConfigValues(pluginName, schema);
+    return values[key];
+}
+
+/**
+ * 设置插件的单个配置项，值不符合 Schema 时抛出异常
+ */
+export async function setPluginConfigValue(
+    pluginName: string,
+    schema: PluginConfigSchema,
+    key: string,
+    value: unknown
+) {
+    const field = getField(pluginName, schema, key);
+    const error = checkConfigValue(field, value);
+    if (error) {
+        throw new Error(`插件 ${pluginName} 配置项 ${key} ${error}`);
+    }
+
+    const stored = await getStoredValues(pluginName);
+    await saveStoredValues(pluginName, { ...stored, [key]: value });
+}
+
+/**
+ * 将插件的单个配置项恢复为默认值
+ */
+export async function resetPluginConfigValue(
+    pluginName: string,
+    schema: PluginConfigSchema,
+    key: string
+) {
+    getField(pluginName, schema, key);
+    const stored = { ...(await getStoredValues(pluginName)) };
+    if (!(key in stored)) return;
+    delete stored[key];
+    await saveStoredValues(pluginName, stored);
+}
+
+/**
+ * 清空插件的全部配置（删除插件时调用）
+ */
+export async function clearPluginConfigValues(pluginName: string) {
+    const config = await getConfig("pluginConfig");
+    if (!config?.values?.[pluginName]) return;
+    await saveStoredValues(pluginName, {});
+}
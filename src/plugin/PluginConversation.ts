@@ -0,0 +1,388 @@
+import logger from "@log/index.ts";
+import type { Client } from "tdl";
+import type { Update, updateNewMessage } from "tdlib-types";
+import type { ConversationRecord } from "@type/Database.d.ts";
+import type { PluginInfo, ConversationDef } from "./BasePlugin.ts";
+import { sendMessage } from "@TDLib/function/message.ts";
+import { getUser } from "@TDLib/function/get.ts";
+import { getConversations } from "@db/query.ts";
+import { upsertConversation } from "@db/update.ts";
+import { deleteConversation } from "@db/delete.ts";
+import { DEFAULT_ACCOUNT, getAccountName } from "@TDLib/Accounts.ts";
+import { resolveLocale, createTranslator } from "./PluginI18n.ts";
+
+/** 默认等待用户回复的超时时间（5 分钟） */
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+type PendingAsk = {
+    kind: "ask";
+    resolve: (message: updateNewMessage | null) => void;
+    timer: NodeJS.Timeout;
+};
+
+type PendingConversation = {
+    kind: "conversation";
+    record: ConversationRecord;
+    timer: NodeJS.Timeout;
+};
+
+type Pending = PendingAsk | PendingConversation;
+
+/** 进行中的会话，key 为 `${chat_id}:${user_id}`（非 `default` 账号加上 `${account}:` 前缀） */
+const pending = new Map<string, Pending>();
+
+function conversationKey(account: string, chatId: number, userId: number): string {
+    return account === DEFAULT_ACCOUNT
+        ? `${chatId}:${userId}`
+        : `${account}:${chatId}:${userId}`;
+}
+
+/**
+ * 获取消息发送者的用户 ID（以频道/群组身份发送时返回 null）
+ */
+export function getSenderUserId(message: updateNewMessage): number | null {
+    const sender = message.message.sender_id;
+    return sender?._ === "messageSenderUser" ? sender.user_id : null;
+}
+
+/**
+ * 检查指定对话中的用户是否有进行中的会话
+ * @param account 可选：账号名，默认 `default`
+ */
+export function hasConversation(
+    chatId: number,
+    userId: number,
+    account: string = DEFAULT_ACCOUNT
+): boolean {
+    return pending.has(conversationKey(account, chatId, userId));
+}
+
+/**
+ * 检查更新是否为某个提问（`ask`）正在等待的回复
+ */
+export function isAwaitingReply(client: Client | null | undefined, update: Update): boolean {
+    if (update._ !== "updateNewMessage" || update.message.sending_state) return false;
+    const userId = getSenderUserId(update);
+    if (userId === null) return false;
+    const key = conversationKey(getAccountName(client), update.message.chat_id, userId);
+    return pending.get(key)?.kind === "ask";
+}
+
+/**
+ * 清理某个会话的内存状态（不会通知用户）
+ */
+function takePending(key: string): Pending | undefined {
+    const entry = pending.get(key);
+    if (!entry) return undefined;
+    clearTimeout(entry.timer);
+    pending.delete(key);
+    if (entry.kind === "ask") {
+        entry.resolve(null);
+    }
+    return entry;
+}
+
+async function persist(record: ConversationRecord) {
+    try {
+        await upsertConversation(record);
+    } catch (e) {
+        logger.debug(e, `[插件管理] 持久化会话 ${record.key} 失败:`);
+    }
+}
+
+async function unpersist(key: string) {
+    try {
+        await deleteConversation(key);
+    } catch (e) {
+        logger.debug(e, `[插件管理] 删除会话 ${key} 失败:`);
+    }
+}
+
+async function notify(client: Client, chatId: number, text: string) {
+    try {
+        await sendMessage(client, chatId, { text });
+    } catch (e) {
+        logger.debug(e, `[插件管理] 发送会话提示失败:`);
+    }
+}
+
+/**
+ * 按用户使用的语言发送框架的会话提示
+ * @param key 框架语言文件中的文案键
+ */
+async function notifyNotice(client: Client, chatId: number, userId: number, key: string) {
+    const locale = await resolveLocale({
+        userId,
+        chatId,
+        getLanguageCode: async () => (await getUser(client, userId)).language_code,
+    });
+    await notify(client, chatId, createTranslator(locale)(key));
+}
+
+function findConversationDef(
+    plugins: Map<string, PluginInfo>,
+    record: ConversationRecord
+): ConversationDef | undefined {
+    return plugins.get(record.plugin)?.instance.conversationHandlers?.[record.name];
+}
+
+/**
+ * 为会话设置（或重置）超时定时器并登记到内存
+ */
+function armConversation(
+    client: Client,
+    record: ConversationRecord
+) {
+    const previous = pending.get(record.key);
+    if (previous) clearTimeout(previous.timer);
+
+    const delay = Math.max(record.expires_at.getTime() - Date.now(), 0);
+    const timer = setTimeout(() => {
+        const entry = pending.get(record.key);
+        if (entry?.kind !== "conversation" || entry.timer !== timer) return;
+        pending.delete(record.key);
+        void unpersist(record.key);
+        logger.debug(`[插件管理] 会话 ${record.plugin}.${record.name} (${record.key}) 已超时`);
+        void notifyNotice(client, record.chat_id, record.user_id, "conversation.timeout");
+    }, delay);
+    timer.unref();
+
+    pending.set(record.key, { kind: "conversation", record, timer });
+}
+
+/**
+ * 发送当前步骤的提示并刷新超时时间
+ */
+async function enterStep(
+    client: Client,
+    def: ConversationDef,
+    record: ConversationRecord
+) {
+    const step = def.steps[record.step];
+    record.expires_at = new Date(Date.now() + (def.timeoutMs ?? DEFAULT_TIMEOUT_MS));
+    armConversation(client, record);
+    await persist(record);
+
+    if (step?.prompt) {
+        const text =
+            typeof step.prompt === "function" ? step.prompt(record.data) : step.prompt;
+        await notify(client, record.chat_id, text);
+    }
+}
+
+/**
+ * 向用户提问并等待回复
+ * @returns 用户回复的消息，取消或超时返回 null
+ */
+export async function askConversation(
+    client: Client,
+    message: updateNewMessage,
+    prompt?: string,
+    timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<updateNewMessage | null> {
+    const chatId = message.message.chat_id;
+    const userId = getSenderUserId(message);
+    if (userId === null) {
+        logger.warn(`[插件管理] 无法对非用户发送者发起提问`);
+        return null;
+    }
+
+    const key = conversationKey(getAccountName(client), chatId, userId);
+    if (takePending(key)?.kind === "conversation") {
+        await unpersist(key);
+    }
+
+    const reply = new Promise<updateNewMessage | null>((resolve) => {
+        const timer = setTimeout(() => {
+            const entry = pending.get(key);
+            if (entry?.kind === "ask" && entry.timer === timer) {
+                pending.delete(key);
+                resolve(null);
+            }
+        }, timeoutMs);
+        timer.unref();
+        pending.set(key, { kind: "ask", resolve, timer });
+    });
+
+    if (prompt) {
+        await notify(client, chatId, prompt);
+    }
+
+    return reply;
+}
+
+/**
+ * 启动插件定义的会话
+ * @returns 是否成功启动
+ */
+export async function startConversation(
+    plugins: Map<string, PluginInfo>,
+    client: Client,
+    pluginName: string,
+    name: string,
+    message: updateNewMessage,
+    data: Record<string, unknown> = {}
+): Promise<boolean> {
+    const userId = getSenderUserId(message);
+    if (userId === null) {
+        logger.warn(`[插件管理] 无法为非用户发送者启动会话 ${pluginName}.${name}`);
+        return false;
+    }
+
+    const def = plugins.get(pluginName)?.instance.conversationHandlers?.[name];
+    if (!def || def.steps.length === 0) {
+        logger.warn(`[插件管理] 插件 ${pluginName} 未定义会话 ${name}`);
+        return false;
+    }
+
+    const chatId = message.message.chat_id;
+    const account = getAccountName(client);
+    const key = conversationKey(account, chatId, userId);
+    takePending(key);
+
+    const record: ConversationRecord = {
+        key,
+        account,
+        chat_id: chatId,
+        user_id: userId,
+        plugin: pluginName,
+        name,
+        step: 0,
+        data,
+        expires_at: new Date(),
+    };
+
+    logger.debug(`[插件管理] 启动会话 ${pluginName}.${name} (${key})`);
+    await enterStep(client, def, record);
+    return true;
+}
+
+/**
+ * 取消会话
+ * @param notifyClient 可选：传入时向用户发送取消提示
+ * @param account 可选：会话所属账号名，默认为 `notifyClient` 的账号
+ * @returns 是否存在并取消了会话
+ */
+export async function cancelConversation(
+    chatId: number,
+    userId: number,
+    notifyClient?: Client | null,
+    account: string = getAccountName(notifyClient)
+): Promise<boolean> {
+    const key = conversationKey(account, chatId, userId);
+    const entry = takePending(key);
+    if (!entry) return false;
+
+    if (entry.kind === "conversation") {
+        await unpersist(key);
+    }
+    if (notifyClient) {
+        await notifyNotice(notifyClient, chatId, userId, "conversation.cancelled");
+    }
+    return true;
+}
+
+/**
+ * 将消息交给进行中的会话处理
+ * @param isCancel 该消息是否为 `/cancel` 命令
+ * @returns 消息是否已被会话消费（为 true 时不应再进入命令路由）
+ */
+export async function handleConversationMessage(
+    plugins: Map<string, PluginInfo>,
+    message: updateNewMessage,
+    client: Client,
+    isCancel: boolean
+): Promise<boolean> {
+    // 自己正在发送的消息（例如会话提示）不参与会话
+    if (message.message.sending_state) return false;
+
+    const userId = getSenderUserId(message);
+    if (userId === null) return false;
+
+    const chatId = message.message.chat_id;
+    const key = conversationKey(getAccountName(client), chatId, userId);
+    const entry = pending.get(key);
+    if (!entry) return false;
+
+    if (isCancel) {
+        await cancelConversation(chatId, userId, client);
+        return true;
+    }
+
+    if (entry.kind === "ask") {
+        clearTimeout(entry.timer);
+        pending.delete(key);
+        entry.resolve(message);
+        return true;
+    }
+
+    const record = entry.record;
+    const def = findConversationDef(plugins, record);
+    const step = def?.steps[record.step];
+    if (!def || !step) {
+        logger.warn(
+            `[插件管理] 会话 ${record.plugin}.${record.name} 已不可用，丢弃会话 ${key}`
+        );
+        takePending(key);
+        await unpersist(key);
+        return false;
+    }
+
+    let result;
+    try {
+        result = await step.handler(message, record.data);
+    } catch (e) {
+        logger.error(e, `[插件管理] 插件 ${record.plugin} 会话 ${record.name} 处理出错:`);
+        takePending(key);
+        await unpersist(key);
+        await notifyNotice(client, chatId, userId, "conversation.error");
+        return true;
+    }
+
+    // handler 执行期间会话可能已被取消或替换
+    if (pending.get(key) !== entry) return true;
+
+    if (result === "retry") {
+        await enterStep(client, def, record);
+        return true;
+    }
+
+    const nextStep =
+        result === "end"
+            ? def.steps.length
+            : typeof result === "object"
+                ? result.goto
+                : record.step + 1;
+
+    if (nextStep < 0 || nextStep >= def.steps.length) {
+        logger.debug(`[插件管理] 会话 ${record.plugin}.${record.name} (${key}) 已结束`);
+        takePending(key);
+        await unpersist(key);
+        return true;
+    }
+
+    record.step = nextStep;
+    await enterStep(client, def, record);
+    return true;
+}
+
+/**
+ * 从数据库恢复客户端账号未过期的会话（启动时调用）
+ */
+export async function restoreConversations(client: Client) {
+    try {
+        const account = getAccountName(client);
+        const records = (await getConversations()).filter(
+            (record) => (record.account ?? DEFAULT_ACCOUNT) === account
+        );
+        for (const record of records) {
+            if (pending.has(record.key)) continue;
+            armConversation(client, record);
+        }
+        if (records.length > 0) {
+            logger.info(`[插件管理] 已恢复 ${records.length} 个进行中的会话`);
+        }
+    } catch (e) {
+        logger.warn(e, `[插件管理] 恢复会话失败:`);
+    }
+}
@@ -0,0 +1,188 @@
+import semver from "semver";
+import type { PluginInfo } from "./BasePlugin.ts";
+import type { Plugin as BasePlugin } from "./BasePlugin.ts";
+
+/**
+ * 检查插件声明的依赖格式
+ * @returns 错误信息列表，为空表示校验通过
+ */
+export function validateDependencyDeclaration(instance: BasePlugin): string[] {
+    const errors: string[] = [];
+    const declared = {
+        ...(instance.softDependencies || {}),
+        ...(instance.dependencies || {}),
+    };
+
+    for (const [name, range] of Object.entries(declared)) {
+        if (name === instance.name) {
+            errors.push(`不能依赖自身`);
+        } else if (typeof range !== "string" || !semver.validRange(range)) {
+            errors.push(`依赖 ${name} 的版本范围无效: ${String(range)}`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * 检查版本是否满足范围
+ */
+export function satisfiesVersion(version: string, range: string): boolean {
+    const parsed = semver.valid(version) ?? semver.coerce(version)?.version;
+    if (!parsed) return false;
+    return semver.satisfies(parsed, range, { includePrerelease: true });
+}
+
+/**
+ * 检查插件的依赖是否均已加载且版本满足要求
+ * @param instance 待注册的插件实例
+ * @param plugins 已加载的插件
+ * @returns `errors` 为硬依赖问题（插件不能加载），`warnings` 为软依赖问题
+ */
+export function checkPluginDependencies(
+    instance: BasePlugin,
+    plugins: Map<string, PluginInfo>
+): { errors: string[]; warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const [name, range] of Object.entries(instance.dependencies || {})) {
+        const dep = plugins.get(name);
+        if (!dep) {
+            errors.push(`缺少依赖 ${name}@${range}`);
+        } else if (!satisfiesVersion(dep.version, range)) {
+            errors.push(`依赖 ${name} 版本不满足: 需要 ${range}，当前 ${dep.version}`);
+        }
+    }
+
+    for (const [name, range] of Object.entries(instance.softDependencies || {})) {
+        const dep = plugins.get(name);
+        if (dep && !satisfiesVersion(dep.version, range)) {
+            warnings.push(`可选依赖 ${name} 版本不满足: 需要 ${range}，当前 ${dep.version}`);
+        }
+    }
+
+    return { errors, warnings };
+}
+
+/**
+ * 按依赖关系对待加载的插件进行拓扑排序（被依赖的插件排在前面）
+ *
+ * 只有硬依赖会形成循环依赖；软依赖只在不形成循环时调整加载顺序，形成循环时忽略。
+ * 未出现在候选列表中的依赖会被忽略（由加载时的依赖检查报告）。
+ * 排序稳定：没有依赖关系的插件保持原有顺序。
+ * @returns `ordered` 为排序结果，`cycles` 为检测到的硬依赖循环（其中的插件不会出现在 `ordered` 中）
+ */
+export function sortByDependencies<T extends { instance: BasePlugin }>(
+    candidates: T[]
+): { ordered: T[]; cycles: string[][] } {
+    const byName = new Map<string, T>();
+    for (const candidate of candidates) {
+        byName.set(candidate.instance.name, candidate);
+    }
+
+    const hardEdges = new Map<string, string[]>();
+    const softEdges = new Map<string, string[]>();
+    for (const [name, candidate] of byName) {
+        const inCandidates = (dep: string) => byName.has(dep) && dep !== name;
+        const hard = Object.keys(candidate.instance.dependencies || {}).filter(inCandidates);
+        hardEdges.set(name, hard);
+        softEdges.set(
+            name,
+            Object.keys(candidate.instance.softDependencies || {}).filter(
+                (dep) => inCandidates(dep) && !hard.includes(dep)
+            )
+        );
+    }
+
+    // 只按硬依赖查找循环
+    const cycles: string[][] = [];
+    const cyclic = new Set<string>();
+    const hardState = new Map<string, "visiting" | "done">();
+    const hardStack: string[] = [];
+    const findCycles = (name: string): void => {
+        const current = hardState.get(name);
+        if (current === "done") return;
+        if (current === "visiting") {
+            const cycle = hardStack.slice(hardStack.indexOf(name));
+            cycles.push([...cycle, name]);
+            for (const member of cycle) cyclic.add(member);
+            return;
+        }
+
+        hardState.set(name, "visiting");
+        hardStack.push(name);
+        for (const dep of hardEdges.get(name) || []) {
+            findCycles(dep);
+        }
+        hardStack.pop();
+        hardState.set(name, "done");
+    };
+    for (const name of byName.keys()) {
+        findCycles(name);
+    }
+
+    // 插件通过硬依赖（直接或间接）依赖的全部插件
+    const closures = new Map<string, Set<string>>();
+    const hardClosure = (name: string): Set<string> => {
+        const cachedClosure = closures.get(name);
+        if (cachedClosure) return cachedClosure;
+        const closure = new Set<string>();
+        closures.set(name, closure);
+        for (const dep of hardEdges.get(name) || []) {
+            if (cyclic.has(dep)) continue;
+            closure.add(dep);
+            for (const indirect of hardClosure(dep)) closure.add(indirect);
+        }
+        return closure;
+    };
+
+    const ordered: T[] = [];
+    const state = new Map<string, "visiting" | "done">();
+    const stack: string[] = [];
+
+    const visit = (name: string): void => {
+        if (state.has(name) || cyclic.has(name)) return;
+
+        state.set(name, "visiting");
+        stack.push(name);
+        for (const dep of hardEdges.get(name) || []) {
+            visit(dep);
+        }
+        for (const dep of softEdges.get(name) || []) {
+            // 软依赖的插件（或其硬依赖）需要排在当前路径上的插件之后时，忽略这条软依赖
+            if (state.get(dep) === "visiting") continue;
+            const closure = hardClosure(dep);
+            if (stack.some((member) => closure.has(member))) continue;
+            visit(dep);
+        }
+        stack.pop();
+
+        // 依赖了循环中插件（但自身不在循环中）的插件仍参与排序，由加载时的依赖检查报告
+        state.set(name, "done");
+        ordered.push(byName.get(name)!);
+    };
+
+    for (const name of byName.keys()) {
+        visit(name);
+    }
+
+    return { ordered, cycles };
+}
+
+/**
+ * 获取直接（硬）依赖指定插件的已加载插件名称
+ */
+export function getDependentPlugins(
+    plugins: Map<string, PluginInfo>,
+    pluginName: string
+): string[] {
+    const dependents: string[] = [];
+    for (const [name, info] of plugins) {
+        if (name === pluginName) continue;
+        if (Object.hasOwn(info.instance.dependencies || {}, pluginName)) {
+            dependents.push(name);
+        }
+    }
+    return dependents;
+}
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "tdl";
+import type { Update, updateNewMessage } from "tdlib-types";
+import { DispatchQueue } from "./PluginDispatchQueue.ts";
+import { enqueueUpdate } from "./PluginEventHandler.ts";
+import { askConversation, handleConversationMessage } from "./PluginConversation.ts";
+
+const client = {} as Client;
+
+function textMessage(chatId: number, userId: number, text: string): updateNewMessage {
+    return {
+        _: "updateNewMessage",
+        message: {
+            _: "message",
+            chat_id: chatId,
+            sender_id: { _: "messageSenderUser", user_id: userId },
+            content: { _: "messageText", text: { _: "formattedText", text, entities: [] } },
+        },
+    } as unknown as updateNewMessage;
+}
+
+function getText(update: Update | null): string | null {
+    if (update?._ !== "updateNewMessage") return null;
+    const content = update.message.content;
+    return content._ === "messageText" ? content.text.text : null;
+}
+
+/**
+ * 模拟命令分发：`/ask` 向发送者提问并记录回复，其余消息交给会话处理
+ */
+function createDispatcher(log: string[]) {
+    return async (update: Update) => {
+        if (update._ !== "updateNewMessage") return;
+        const text = getText(update);
+        if (text === "/ask") {
+            const reply = await askConversation(client, update, undefined, 1000);
+            log.push(`reply:${getText(reply)}`);
+            return;
+        }
+        if (await handleConversationMessage(new Map(), update, client, false)) return;
+        log.push(`message:${text}`);
+    };
+}
+
+test("提问等待的回复不会被同一对话的队列阻塞", async () => {
+    const queue = new DispatchQueue({ perChatOrder: true, concurrency: 16, maxPending: 100 });
+    const log: string[] = [];
+    const dispatch = createDispatcher(log);
+
+    await enqueueUpdate(queue, textMessage(1, 10, "/ask"), client, dispatch);
+    await enqueueUpdate(queue, textMessage(1, 10, "hello"), client, dispatch);
+    await queue.onIdle();
+
+    assert.deepEqual(log, ["reply:hello"]);
+});
+
+test("其他用户的消息仍按对话顺序排在提问之后", async () => {
+    const queue = new DispatchQueue({ perChatOrder: true, concurrency: 16, maxPending: 100 });
+    const log: string[] = [];
+    const dispatch = createDispatcher(log);
+
+    await enqueueUpdate(queue, textMessage(2, 10, "/ask"), client, dispatch);
+    await enqueueUpdate(queue, textMessage(2, 20, "other"), client, dispatch);
+    await enqueueUpdate(queue, textMessage(2, 10, "answer"), client, dispatch);
+    await queue.onIdle();
+
+    assert.deepEqual(log, ["reply:answer", "message:other"]);
+});
+
+test("等待入队的更新达到上限后丢弃新的更新", async () => {
+    const queue = new DispatchQueue({ perChatOrder: true, concurrency: 1, maxPending: 1 });
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => {
+        release = resolve;
+    });
+
+    queue.push("1", () => blocked);
+    queue.push("1", async () => {});
+    const waiting = queue.waitForCapacity();
+
+    assert.equal(await queue.waitForCapacity(), false);
+    assert.equal(queue.getStats().dropped, 1);
+
+    release();
+    assert.equal(await waiting, true);
+    await queue.onIdle();
+});
@@ -0,0 +1,263 @@
+import logger from "@log/index.ts";
+import { getConfig } from "@db/config.ts";
+import type { DispatchConfig } from "@type/Database.d.ts";
+
+/** 默认同时处理的更新数 */
+const DEFAULT_CONCURRENCY = 16;
+
+/** 默认排队更新数上限，超过后新的更新需等待 */
+const DEFAULT_MAX_PENDING = 1000;
+
+/** 排队已满、丢弃更新的警告间隔 */
+const BACKPRESSURE_WARN_INTERVAL_MS = 30 * 1000;
+
+/**
+ * 分发队列设置
+ */
+export type DispatchQueueOptions = {
+    /** 同一对话的更新是否按顺序逐个处理 */
+    perChatOrder: boolean;
+    /** 同时处理的更新数上限 */
+    concurrency: number;
+    /** 排队更新数上限（等待入队的更新数同样以此为上限） */
+    maxPending: number;
+};
+
+/**
+ * 分发队列状态
+ */
+export type DispatchQueueStats = {
+    /** 正在处理的任务数（包括声明了 `parallel` 的处理器） */
+    running: number;
+    /** 排队等待处理的更新数 */
+    pending: number;
+    /** 因排队已满而等待入队的更新数 */
+    waiting: number;
+    /** 有更新正在处理或排队的对话数 */
+    activeChats: number;
+    /** 已处理的更新总数 */
+    processed: number;
+    /** 因等待入队的更新过多而丢弃的更新总数 */
+    dropped: number;
+    /** 当前设置 */
+    options: DispatchQueueOptions;
+};
+
+type Job = {
+    key: string | undefined;
+    run: () => Promise<void>;
+};
+
+/**
+ * 读取分发队列设置（配置 `plugins.dispatch`，未设置时使用默认值）
+ */
+export async function getDispatchQueueOptions(): Promise<DispatchQueueOptions> {
+    let config: DispatchConfig | undefined;
+    try {
+        config = (await getConfig("plugins"))?.dispatch;
+    } catch (e) {
+        logger.debug(e, `[插件管理] 获取分发队列配置失败，使用默认设置:`);
+    }
+
+    const positive = (value: number | undefined, fallback: number) =>
+        typeof value === "number" && Number.isInteger(value) && value > 0 ? value : fallback;
+
+    return {
+        perChatOrder: config?.perChatOrder ?? true,
+        concurrency: positive(config?.concurrency, DEFAULT_CONCURRENCY),
+        maxPending: positive(config?.maxPending, DEFAULT_MAX_PENDING),
+    };
+}
+
+/**
+ * 更新分发队列
+ *
+ * - 相同 key（对话）的任务按入队顺序逐个执行，不同 key 之间并行
+ * - 同时执行的任务数不超过 `concurrency`
+ * - 排队任务数达到 `maxPending` 时，`waitForCapacity()` 等待队列空出位置
+ * - 等待入队的调用也达到 `maxPending` 时，`waitForCapacity()` 直接返回 false，调用方应丢弃该更新
+ *
+ * 只有逐个等待 `waitForCapacity()` 的调用方（如回放缓存的更新）会真正暂停；
+ * TDLib 直接推送的更新不会等待上一条入队，超出上述两个上限的部分会被丢弃
+ */
+export class DispatchQueue {
+    private options: DispatchQueueOptions;
+    /** 可以执行、等待空闲名额的任务 */
+    private ready: Job[] = [];
+    /** 各对话中排在正在执行的任务之后的任务 */
+    private lanes: Map<string, Job[]> = new Map();
+    /** 有任务正在执行或在 `ready` 中的对话 */
+    private busyKeys: Set<string> = new Set();
+    private running = 0;
+    private pendingCount = 0;
+    private processed = 0;
+    private dropped = 0;
+    private capacityWaiters: Array<() => void> = [];
+    private idleWaiters: Array<() => void> = [];
+    private lastWarnAt = 0;
+    private lastDropWarnAt = 0;
+
+    constructor(options: DispatchQueueOptions) {
+        this.options = options;
+    }
+
+    /**
+     * 更新设置（已排队的任务不受影响）
+     */
+    configure(options: DispatchQueueOptions) {
+        this.options = options;
+        this.pump();
+    }
+
+    /**
+     * 加入任务
+     * @param key 任务所属的对话，省略时不参与按对话排序
+     */
+    push(key: string | undefined, run: () => Promise<void>) {
+        const job: Job = { key: this.options.perChatOrder ? key : undefined, run };
+        this.pendingCount++;
+
+        if (job.key !== undefined && this.busyKeys.has(job.key)) {
+            const lane = this.lanes.get(job.key);
+            if (lane) lane.push(job);
+            else this.lanes.set(job.key, [job]);
+        } else {
+            if (job.key !== undefined) this.busyKeys.add(job.key);
+            this.ready.push(job);
+        }
+
+        if (this.pendingCount >= this.options.maxPending) {
+            this.warnBackpressure();
+        }
+        this.pump();
+    }
+
+    /**
+     * 登记在队列之外执行的任务（如声明了 `parallel` 的处理器、提问等待的回复），计入并发数
+     */
+    track(task: Promise<void>) {
+        this.running++;
+        void task
+            .catch((e: unknown) => {
+                logger.error(e, `[插件管理] 并行处理器执行出错:`);
+            })
+            .finally(() => {
+                this.running--;
+                this.pump();
+            });
+    }
+
+    /**
+     * 等待排队任务数低于上限（排队已满时按调用顺序放行）
+     * @returns 是否可以入队，等待入队的调用也已满时返回 false
+     */
+    waitForCapacity(): Promise<boolean> {
+        if (this.pendingCount < this.options.maxPending && this.capacityWaiters.length === 0) {
+            return Promise.resolve(true);
+        }
+        if (this.capacityWaiters.length >= this.options.maxPending) {
+            this.dropped++;
+            this.warnDropped();
+            return Promise.resolve(false);
+        }
+        return new Promise((resolve) => {
+            this.capacityWaiters.push(() => resolve(true));
+        });
+    }
+
+    /**
+     * 等待全部任务执行完成
+     */
+    onIdle(): Promise<void> {
+        if (this.isIdle()) return Promise.resolve();
+        return new Promise((resolve) => {
+            this.idleWaiters.push(resolve);
+        });
+    }
+
+    /**
+     * 获取队列状态
+     */
+    getStats(): DispatchQueueStats {
+        return {
+            running: this.running,
+            pending: this.pendingCount,
+            waiting: this.capacityWaiters.length,
+            activeChats: this.busyKeys.size,
+            processed: this.processed,
+            dropped: this.dropped,
+            options: { ...this.options },
+        };
+    }
+
+    private isIdle(): boolean {
+        return this.running === 0 && this.pendingCount === 0 && this.capacityWaiters.length === 0;
+    }
+
+    /**
+     * 在并发上限内开始执行就绪的任务
+     */
+    private pump() {
+        while (this.running < this.options.concurrency && this.ready.length > 0) {
+            const job = this.ready.shift() as Job;
+            this.pendingCount--;
+            this.running++;
+            void this.execute(job);
+        }
+
+        // 按调用顺序放行等待入队的更新（被放行的调用方随后入队，每次只放行一个）
+        if (this.capacityWaiters.length > 0 && this.pendingCount < this.options.maxPending) {
+            (this.capacityWaiters.shift() as () => void)();
+        }
+
+        if (this.isIdle()) {
+            for (const resolve of this.idleWaiters.splice(0)) resolve();
+        }
+    }
+
+    private async execute(job: Job) {
+        try {
+            await job.run();
+        } catch (e) {
+            logger.error(e, `[插件管理] 处理更新时发生错误:`);
+        } finally {
+            this.running--;
+            this.processed++;
+            if (job.key !== undefined) this.releaseKey(job.key);
+            this.pump();
+        }
+    }
+
+    /**
+     * 对话的任务执行完成后，将该对话的下一个任务移入就绪队列
+     */
+    private releaseKey(key: string) {
+        const lane = this.lanes.get(key);
+        const next = lane?.shift();
+        if (!next) {
+            this.busyKeys.delete(key);
+            return;
+        }
+        if (lane?.length === 0) this.lanes.delete(key);
+        this.ready.push(next);
+    }
+
+    private warnBackpressure() {
+        const now = Date.now();
+        if (now - this.lastWarnAt < BACKPRESSURE_WARN_INTERVAL_MS) return;
+        this.lastWarnAt = now;
+        const stats = this.getStats();
+        logger.warn(
+            `[插件管理] 分发队列已满 (排队 ${stats.pending}/${this.options.maxPending}，处理中 ${stats.running}，涉及 ${stats.activeChats} 个对话)，新的更新将等待`
+        );
+    }
+
+    private warnDropped() {
+        const now = Date.now();
+        if (now - this.lastDropWarnAt < BACKPRESSURE_WARN_INTERVAL_MS) return;
+        this.lastDropWarnAt = now;
+        logger.warn(
+            `[插件管理] 等待入队的更新已达上限 (${this.options.maxPending})，丢弃新的更新 (累计丢弃 ${this.dropped})`
+        );
+    }
+}
@@ -1,8 +1,16 @@
 import logger from "@log/index.ts";
 import type { Client } from "tdl";
-import type { Update, updateNewMessage, updateNewInlineQuery } from "tdlib-types";
+import type {
+    Update,
+    updateNewMessage,
+    updateNewInlineQuery,
+    updateNewCallbackQuery,
+} from "tdlib-types";
 import type {
     PluginInfo,
+    CallbackContext,
+    MiddlewareContext,
+    UpdateContext,
 } from "./BasePlugin.ts";
 import type {
     InlineContext,
@@ -12,96 +20,249 @@ import type {
 import { toTdInlineResults } from "@TDLib/function/inlineAdapter.ts";
 import { buildBotStartInlineButton } from "@plugin/inlineTools.ts";
 import { getConfig } from "@db/config.ts";
+import { answerCallbackQuery } from "@TDLib/function/index.ts";
 import { getChatType, getUserPermission, validateCommandAccess, isInlineInScope, hasInlinePermission } from "./PluginValidator.ts";
+import { handleConversationMessage, hasConversation, isAwaitingReply } from "./PluginConversation.ts";
+import type { DispatchQueue } from "./PluginDispatchQueue.ts";
+import { runMiddlewares } from "./PluginMiddleware.ts";
+import { createCommandContext } from "./PluginCommandContext.ts";
+import { hasArgSpec, parseCommandArgs, formatCommandUsage } from "./PluginArgs.ts";
+import { resolveSubcommand, formatCommandHelp } from "./PluginCommandRouter.ts";
+import { resolveCommandProviders } from "./PluginCommandConflict.ts";
+import { checkCommandRateLimit } from "./PluginRateLimit.ts";
+import { checkAccess, type AccessResult } from "./PluginAccess.ts";
+import { getUserPermissionNodes } from "./PluginRoles.ts";
+import {
+    isChatAdmin,
+    isBotChatAdmin,
+    invalidateChatAdminCache,
+    formatChatAdminRights,
+} from "./PluginChatAdmin.ts";
+import {
+    getChatSettings,
+    isPluginDisabledInChat,
+    isCommandDisabledInChat,
+} from "./PluginChatSettings.ts";
+import { resolveLocale, createTranslator } from "./PluginI18n.ts";
+import { sendMessage } from "@TDLib/function/message.ts";
+import { getUser } from "@TDLib/function/get.ts";
+import { getAccountByClient, getAccountName } from "@TDLib/Accounts.ts";
+
+/**
+ * 将声明了 `parallel` 的处理器交给分发队列，在对话顺序之外执行
+ */
+export type DetachTask = (task: Promise<void>) => void;
 
 /**
  * 处理TDLib更新
+ * @param detach 可选：声明了 `parallel` 的处理器交给此函数执行而不等待（省略时等待全部处理器）
  */
 export async function handleUpdate(
     plugins: Map<string, PluginInfo>,
     update: Update,
-    client?: Client | null
+    client?: Client | null,
+    detach?: DetachTask
 ) {
+    const tasks: Promise<void>[] = [];
+
+    // 成员状态变化后重新检查群组管理员权限
+    if (update._ === "updateChatMember") {
+        invalidateChatAdminCache(update.chat_id);
+    }
+
     if (update._ === "updateNewMessage") {
-        await handleCommand(plugins, update, client);
+        tasks.push(handleCommand(plugins, update, client, detach));
     }
-    const botConfig = await getConfig("bot");
-    if (botConfig && typeof botConfig.account_type === "boolean") {
-        const isAccount = botConfig.account_type;
+    const isAccount = await isUserAccountClient(client);
+    if (isAccount !== null) {
         if (!isAccount && update._ === "updateNewInlineQuery") {
-            await handleInlineQuery(plugins, update, client);
+            tasks.push(handleInlineQuery(plugins, update, client));
+        }
+        if (!isAccount && update._ === "updateNewCallbackQuery") {
+            tasks.push(handleCallbackQuery(plugins, update, client, detach));
         }
     }
 
-    const promises: Promise<void>[] = [];
+    tasks.push(dispatchUpdateHandlers(plugins, update, client, detach));
 
-    for (const pluginInfo of plugins.values()) {
-        const updateType = update._;
-        const handler = pluginInfo.instance.updateHandlers[updateType];
-        if (handler) {
-            promises.push(
-                (async () => {
-                    try {
-                        const typedHandler = handler.handler as (
-                            update: Update
-                        ) => Promise<void> | void;
-                        await typedHandler(update);
-                    } catch (err) {
-                        logger.error(
-                            err,
-                            `[插件管理] 插件 ${pluginInfo.name} 更新处理器执行出错:`
-                        );
-                    }
-                })()
-            );
-        }
+    await Promise.all(tasks);
+}
+
+/**
+ * 判断收到更新的账号是否为用户账号（账号未登记时读取主账号配置，未知时返回 null）
+ */
+async function isUserAccountClient(client?: Client | null): Promise<boolean | null> {
+    const account = getAccountByClient(client);
+    if (account) return account.isUserAccount;
+    const botConfig = await getConfig("bot");
+    return typeof botConfig?.account_type === "boolean" ? botConfig.account_type : null;
+}
+
+/**
+ * 在中间件链中执行分发逻辑，中间件或处理器出错时记录日志
+ * （Client 未初始化时跳过中间件直接执行）
+ */
+async function withMiddlewares(
+    plugins: Map<string, PluginInfo>,
+    ctx: Omit<MiddlewareContext, "client" | "account" | "state">,
+    client: Client | null | undefined,
+    handler: (ctx: MiddlewareContext | null) => Promise<void>
+) {
+    if (!client) {
+        await handler(null);
+        return;
     }
 
-    if (promises.length > 0) {
-        Promise.allSettled(promises);
+    const fullCtx: MiddlewareContext = {
+        ...ctx,
+        client,
+        account: getAccountName(client),
+        state: {},
+    };
+    try {
+        await runMiddlewares(plugins, fullCtx, () => handler(fullCtx));
+    } catch (e) {
+        logger.error(e, `[插件管理] ${ctx.type} 中间件链执行出错:`);
     }
 }
 
 /**
- * 处理命令
+ * 记录被访问名单拦截的请求
  */
-async function handleCommand(
+function logAccessDenied(
+    access: Exclude<AccessResult, { allowed: true }>,
+    type: string,
+    target: number
+) {
+    logger.debug(
+        `[插件管理] ${target} 被访问名单拦截 (${access.list}${access.entry?.reason ? `: ${access.entry.reason}` : ""})，忽略${type}`
+    );
+}
+
+/**
+ * 获取更新所属的对话 ID（不属于某个对话的更新返回 undefined）
+ */
+export function getUpdateChatId(update: Update): number | undefined {
+    if (update._ === "updateNewMessage") return update.message.chat_id;
+    if ("chat_id" in update && typeof update.chat_id === "number") return update.chat_id;
+    return undefined;
+}
+
+/**
+ * 将更新加入分发队列
+ *
+ * 提问（`ask`）正在等待的回复不进入对话的队列而是直接分发：
+ * 发起提问的处理器仍占用着该对话，回复排在它之后会互相等待
+ * @param dispatch 实际分发更新的函数
+ */
+export async function enqueueUpdate(
+    queue: DispatchQueue,
+    update: Update,
+    client: Client | null | undefined,
+    dispatch: (update: Update) => Promise<void>
+) {
+    if (isAwaitingReply(client, update)) {
+        queue.track(dispatch(update));
+        return;
+    }
+
+    // 排队和等待入队的更新都已满时丢弃
+    if (!(await queue.waitForCapacity())) return;
+    queue.push(getUpdateChatId(update)?.toString(), () => dispatch(update));
+}
+
+/**
+ * 解析用户请求使用的语言（需要时读取用户的 Telegram 客户端语言）
+ */
+function resolveUserLocale(client: Client, userId: number | null, chatId?: number) {
+    return resolveLocale({
+        userId,
+        ...(chatId !== undefined && { chatId }),
+        getLanguageCode: async () =>
+            userId !== null ? (await getUser(client, userId)).language_code : undefined,
+    });
+}
+
+/**
+ * 将更新分发给插件的 updateHandlers（仅在存在对应处理器时经过中间件，
+ * 跳过在更新所属对话中被禁用的插件）
+ */
+async function dispatchUpdateHandlers(
     plugins: Map<string, PluginInfo>,
-    message: updateNewMessage,
-    client?: Client | null
+    update: Update,
+    client?: Client | null,
+    detach?: DetachTask
 ) {
-    const text = message.message.content;
+    const updateType = update._;
+    let targets = [...plugins.values()].filter(
+        (pluginInfo) => pluginInfo.instance.updateHandlers[updateType]
+    );
+    if (targets.length === 0) return;
+
+    const chatId = getUpdateChatId(update);
+    if (chatId !== undefined) {
+        const chatSettings = await getChatSettings(chatId);
+        targets = targets.filter(
+            (pluginInfo) => !isPluginDisabledInChat(chatSettings, pluginInfo.name)
+        );
+        if (targets.length === 0) return;
+    }
 
-    let messageText: string | undefined;
-    switch (text._) {
+    await withMiddlewares(plugins, { type: "update", update }, client, async () => {
+        const updateCtx: UpdateContext | undefined = client
+            ? { account: getAccountName(client), client }
+            : undefined;
+        const promises = targets.map(async (pluginInfo) => {
+            try {
+                const handler = pluginInfo.instance.updateHandlers[updateType];
+                if (!handler) return;
+                const typedHandler = handler.handler as (
+                    update: Update,
+                    ctx?: UpdateContext
+                ) => Promise<void> | void;
+                const task = Promise.resolve(typedHandler(update, updateCtx));
+                if (handler.parallel && detach) detach(task);
+                else await task;
+            } catch (err) {
+                logger.error(
+                    err,
+                    `[插件管理] 插件 ${pluginInfo.name} 更新处理器执行出错:`
+                );
+            }
+        });
+
+        await Promise.allSettled(promises);
+    });
+}
+
+/**
+ * 提取消息中可作为命令解析的文本（文本消息正文或媒体说明）
+ */
+function getMessageText(message: updateNewMessage): string | undefined {
+    const content = message.message.content;
+    switch (content._) {
         case "messageText":
-            messageText = text.text.text;
-            break;
+            return content.text.text;
         case "messagePhoto":
-            messageText = text.caption ? text.caption.text : undefined;
-            break;
         case "messageVideo":
-            messageText = text.caption ? text.caption.text : undefined;
-            break;
         case "messageDocument":
-            messageText = text.caption ? text.caption.text : undefined;
-            break;
         case "messageAnimation":
-            messageText = text.caption ? text.caption.text : undefined;
-            break;
         case "messageAudio":
-            messageText = text.caption ? text.caption.text : undefined;
-            break;
+            return content.caption ? content.caption.text : undefined;
         default:
-            return;
+            return undefined;
     }
+}
 
-    if (!messageText || messageText.trim() === "") {
-        return;
+/**
+ * 获取命令前缀（优先使用对话设置的前缀，配置读取失败时使用默认前缀）
+ */
+async function getCommandPrefixes(chatId: number): Promise<string[]> {
+    const chatSettings = await getChatSettings(chatId);
+    if (chatSettings.prefixes && chatSettings.prefixes.length > 0) {
+        return chatSettings.prefixes;
     }
 
-    let prefixes = ["/", "!", "！", ".", "#"];
-
     try {
         const configData = await getConfig("config");
 
@@ -111,7 +272,7 @@ async function handleCommand(
             Array.isArray(configData.PREFIXES) &&
             configData.PREFIXES.length > 0
         ) {
-            prefixes = configData.PREFIXES;
+            return configData.PREFIXES;
         }
     } catch (e) {
         logger.debug(
@@ -120,16 +281,66 @@ async function handleCommand(
         );
     }
 
-    const prefix = prefixes.find((p) => messageText.startsWith(p));
-    if (!prefix) {
+    return ["/", "!", "！", ".", "#"];
+}
+
+/**
+ * 处理命令
+ */
+async function handleCommand(
+    plugins: Map<string, PluginInfo>,
+    message: updateNewMessage,
+    client?: Client | null,
+    detach?: DetachTask
+) {
+    const messageText = getMessageText(message);
+    const prefixes = await getCommandPrefixes(message.message.chat_id);
+
+    let userId: number | null = null;
+    if (message.message.sender_id?._ === "messageSenderUser") {
+        userId = message.message.sender_id.user_id;
+    }
+
+    const inConversation =
+        !!client &&
+        userId !== null &&
+        hasConversation(message.message.chat_id, userId, getAccountName(client));
+    const prefix = messageText ? prefixes.find((p) => messageText.startsWith(p)) : undefined;
+    if (!inConversation && !prefix) {
+        return;
+    }
+
+    // 被访问名单禁止的用户或对话直接忽略（包括进行中的会话和 /cancel）
+    const access = await checkAccess({ userId, chatId: message.message.chat_id });
+    if (!access.allowed) {
+        logAccessDenied(
+            access,
+            inConversation ? "会话消息" : "命令",
+            userId ?? message.message.chat_id
+        );
+        return;
+    }
+
+    // 进行中的会话优先于命令路由
+    if (client && inConversation) {
+        const trimmed = messageText?.trim() ?? "";
+        const isCancel = prefixes.some((p) => trimmed === `${p}cancel`);
+        if (await handleConversationMessage(plugins, message, client, isCancel)) {
+            return;
+        }
+    }
+
+    if (!messageText || messageText.trim() === "" || !prefix) {
         return;
     }
 
-    const parts = messageText.slice(prefix.length).trim().split(/\s+/);
+    const body = messageText.slice(prefix.length).trim();
+    const parts = body.split(/\s+/);
     const rawCommandName = parts[0];
     if (!rawCommandName) {
         return;
     }
+    const rawArgs = body.slice(rawCommandName.length).trim();
     let commandName: string = rawCommandName;
     const args = parts.slice(1);
 
@@ -140,9 +351,9 @@ async function handleCommand(
         commandName = commandName.slice(0, atIndex);
 
         try {
-            const meConfig = await getConfig("me");
-            if (meConfig && meConfig.info) {
-                const myUsername = meConfig.info.usernames?.active_usernames?.[0];
+            const me = getAccountByClient(client)?.me ?? (await getConfig("me"))?.info;
+            if (me) {
+                const myUsername = me.usernames?.active_usernames?.[0];
                 if (myUsername && myUsername !== targetUsername) {
                     logger.debug(
                         `[插件管理] 命令 @${targetUsername} 不是本机器人 @${myUsername}，忽略`
@@ -166,58 +377,251 @@ async function handleCommand(
         return;
     }
 
-    const chatType = await getChatType(client, message.message.chat_id);
+    const ctx = {
+        type: "command" as const,
+        update: message,
+        chatId: message.message.chat_id,
+        ...(userId !== null && { userId }),
+        command: { name: commandName, args, prefix },
+    };
 
-    let userId: number | null = null;
-    if (message.message.sender_id?._ === "messageSenderUser") {
-        userId = message.message.sender_id.user_id;
-    }
+    await withMiddlewares(plugins, ctx, client, async (mwCtx) => {
+        // 中间件可能修改了命令名和参数
+        const command = mwCtx?.command ?? ctx.command;
+        await dispatchCommand(plugins, message, client, {
+            ...command,
+            rawArgs,
+            userId,
+        }, detach);
+    });
+}
+
+/**
+ * 将命令分发给注册了该命令的插件（跳过在此对话中被禁用的插件和命令）
+ */
+async function dispatchCommand(
+    plugins: Map<string, PluginInfo>,
+    message: updateNewMessage,
+    client: Client,
+    command: {
+        name: string;
+        args: string[];
+        prefix: string;
+        rawArgs: string;
+        userId: number | null;
+    },
+    detach?: DetachTask
+) {
+    const { name: commandName, args, userId } = command;
+    const chatId = message.message.chat_id;
+    const chatType = await getChatType(client, chatId);
     const userPermission = userId
         ? await getUserPermission(userId)
         : "user";
+    const chatSettings = await getChatSettings(chatId);
+    const locale = await resolveUserLocale(client, userId, chatId);
+    const t = createTranslator(locale);
+
+    // 同名命令按冲突策略只交给一个插件处理，`插件名:命令` 交给指定插件
+    const providers = await resolveCommandProviders(plugins.values(), commandName);
 
     const tasks: Promise<void>[] = [];
-    for (const pluginInfo of plugins.values()) {
-        const commandDef = pluginInfo.instance.cmdHandlers[commandName];
-        if (!commandDef) continue;
+    for (const { plugin: pluginInfo, name, def: commandDef } of providers) {
+        if (
+            isPluginDisabledInChat(chatSettings, pluginInfo.name) ||
+            isCommandDisabledInChat(chatSettings, name)
+        ) {
+            logger.debug(`[插件管理] 命令 ${pluginInfo.name}:${name} 已在对话 ${chatId} 中禁用，忽略`);
+            continue;
+        }
 
         try {
             const validation = await validateCommandAccess(
-                commandName,
+                name,
                 commandDef.scope || "all",
                 commandDef.permission || "all",
                 chatType,
                 userPermission,
-                userId
+                userId,
+                chatId,
+                () => isChatAdmin(client, chatId, message.message.sender_id, commandDef.chatAdminRights),
+                locale,
+                client
             );
 
             if (!validation.allowed) {
                 continue;
             }
 
-            const p = Promise.resolve(commandDef.handler(message, args)).catch(
+            // 逐级匹配子命令，声明了场景或权限的子命令需额外校验
+            const route = resolveSubcommand(commandDef, args, command.rawArgs);
+            let subAllowed = true;
+            for (const [index, sub] of route.chain.entries()) {
+                if (!sub.scope && !sub.permission) continue;
+                const subValidation = await validateCommandAccess(
+                    [name, ...route.path.slice(0, index + 1)].join(" "),
+                    sub.scope || "all",
+                    sub.permission || "all",
+                    chatType,
+                    userPermission,
+                    userId,
+                    chatId,
+                    () => isChatAdmin(client, chatId, message.message.sender_id, sub.chatAdminRights),
+                    locale,
+                    client
+                );
+                if (!subValidation.allowed) {
+                    subAllowed = false;
+                    break;
+                }
+            }
+            if (!subAllowed) {
+                continue;
+            }
+
+            // Bot 自身需要的管理员权限（最近声明的子命令优先）
+            const botRights =
+                route.chain.findLast((sub) => sub.botAdminRights)?.botAdminRights ??
+                commandDef.botAdminRights;
+            if (
+                botRights &&
+                chatType !== "private" &&
+                !(await isBotChatAdmin(client, chatId, botRights === true ? undefined : botRights))
+            ) {
+                const rightsText = formatChatAdminRights(botRights, t);
+                await sendMessage(client, chatId, {
+                    text: rightsText
+                        ? t("command.botAdminRights", { rights: rightsText })
+                        : t("command.botAdminRequired"),
+                    reply_to_message_id: message.message.id,
+                });
+                continue;
+            }
+
+            // 频率限制（只统计通过校验的调用）
+            const limit = await checkCommandRateLimit({
+                name,
+                def: commandDef,
+                chatId,
+                userId,
+                role: userPermission,
+            });
+            if (!limit.allowed) {
+                if (limit.notify) {
+                    await sendMessage(client, chatId, {
+                        text: t("command.rateLimited", {
+                            seconds: Math.ceil(limit.retryAfterMs / 1000),
+                        }),
+                        reply_to_message_id: message.message.id,
+                    });
+                }
+                continue;
+            }
+
+            const pluginT = createTranslator(locale, pluginInfo);
+            const fullName = [name, ...route.path].join(" ");
+            const handler = route.node.handler;
+            if (!handler) {
+                // 子命令分组没有处理器时回复分组用法
+                await sendMessage(client, chatId, {
+                    text: formatCommandHelp(
+                        command.prefix,
+                        fullName,
+                        route.node,
+                        undefined,
+                        pluginT
+                    ),
+                    reply_to_message_id: message.message.id,
+                });
+                continue;
+            }
+
+            let parsed = {};
+            if (hasArgSpec(route.node)) {
+                const result = await parseCommandArgs(client, route.node, route.rawArgs, t);
+                if (result.error !== undefined) {
+                    const usage = formatCommandUsage(command.prefix, fullName, route.node);
+                    await sendMessage(client, chatId, {
+                        text: t("command.argError", { error: result.error, usage }),
+                        reply_to_message_id: message.message.id,
+                    });
+                    continue;
+                }
+                parsed = result.values;
+            }
+
+            const ctx = createCommandContext(client, message, {
+                command: name,
+                path: route.path,
+                prefix: command.prefix,
+                args: route.args,
+                rawArgs: route.rawArgs,
+                parsed,
+                chatType,
+                role: userPermission,
+                locale,
+                t: pluginT,
+            });
+            const p = Promise.resolve(handler(message, route.args, ctx)).catch(
                 (e: unknown) => {
                     logger.error(e, `[插件管理] 插件 ${pluginInfo.name} 命令处理出错:`);
                 }
             );
-            tasks.push(p);
+            const parallel =
+                route.chain.findLast((sub) => sub.parallel !== undefined)?.parallel ??
+                commandDef.parallel;
+            if (parallel && detach) detach(p);
+            else tasks.push(p);
         } catch (e) {
             logger.error(e, `[插件管理] 插件 ${pluginInfo.name} 命令处理出错:`);
         }
     }
 
     if (tasks.length > 0) {
-        Promise.allSettled(tasks);
+        await Promise.allSettled(tasks);
     }
 }
 
 /**
- * 处理内联查询
+ * 处理内联查询（经过中间件）
  */
 async function handleInlineQuery(
     plugins: Map<string, PluginInfo>,
     inlineQuery: updateNewInlineQuery,
     client?: Client | null
+) {
+    const access = await checkAccess({ userId: inlineQuery.sender_user_id });
+    if (!access.allowed) {
+        logAccessDenied(access, "内联查询", inlineQuery.sender_user_id);
+        await client
+            ?.invoke({
+                _: "answerInlineQuery",
+                inline_query_id: inlineQuery.id,
+                results: [],
+                is_personal: true,
+                cache_time: 0,
+            })
+            .catch((e) => {
+                logger.debug(e, `[插件管理] 发送空结果失败:`);
+            });
+        return;
+    }
+
+    await withMiddlewares(
+        plugins,
+        { type: "inline", update: inlineQuery, userId: inlineQuery.sender_user_id },
+        client,
+        () => dispatchInlineQuery(plugins, inlineQuery, client)
+    );
+}
+
+/**
+ * 分发内联查询
+ */
+async function dispatchInlineQuery(
+    plugins: Map<string, PluginInfo>,
+    inlineQuery: updateNewInlineQuery,
+    client?: Client | null
 ) {
     const queryText = inlineQuery?.query || "";
     const inlineQueryId = inlineQuery?.id;
@@ -255,6 +659,9 @@ async function handleInlineQuery(
         : "user";
 
     const role: "owner" | "admin" | "user" = userPermission || "user";
+    // 内联查询没有对话，只计算全局分配的角色
+    const nodes =
+        role === "user" && userId ? await getUserPermissionNodes(userId) : [];
 
     const ctx: InlineContext = {
         query: queryText,
@@ -262,6 +669,7 @@ async function handleInlineQuery(
         chat_type: chatType,
         offset: inlineQuery?.offset,
         role,
+        account: getAccountName(client),
     };
 
     logger.debug(ctx, `[插件管理] InlineContext:`);
@@ -270,11 +678,12 @@ async function handleInlineQuery(
     if (!queryText.trim()) {
         logger.debug(`[插件管理] 查询为空，返回 botstart 按钮`);
 
+        const t = createTranslator(await resolveUserLocale(client, userId ?? null));
         await client
             .invoke({
                 _: "answerInlineQuery",
                 inline_query_id: inlineQueryId,
-                button: buildBotStartInlineButton(),
+                button: buildBotStartInlineButton(t),
                 results: [],
                 is_personal: true,
                 cache_time: 0,
@@ -313,7 +722,8 @@ async function handleInlineQuery(
 
                 const hasPermission = hasInlinePermission(
                     inlineDef.permission || "all",
-                    ctx.role ?? "user"
+                    ctx.role ?? "user",
+                    nodes
                 );
 
                 if (!hasPermission) {
@@ -419,3 +829,201 @@ async function handleInlineQuery(
             logger.error(`[插件管理] 发送内联查询结果失败:`, e);
         });
 }
+
+/**
+ * 解码回调查询数据
+ * @returns 解码后的字符串，非数据类回调（如游戏）返回 null
+ */
+function decodeCallbackData(query: updateNewCallbackQuery): string | null {
+    const payload = query.payload;
+    if (
+        payload._ !== "callbackQueryPayloadData" &&
+        payload._ !== "callbackQueryPayloadDataWithPassword"
+    ) {
+        return null;
+    }
+    return Buffer.from(payload.data, "base64").toString("utf8");
+}
+
+/**
+ * 按回调处理器的 pattern 匹配回调数据
+ * @returns 匹配时返回原始参数及正则结果，否则返回 null
+ */
+function matchCallbackPattern(
+    pattern: string | RegExp,
+    separator: string,
+    data: string
+): { raw: string[]; match?: RegExpMatchArray } | null {
+    if (typeof pattern === "string") {
+        if (!data.startsWith(pattern)) return null;
+        const rest = data.slice(pattern.length);
+        return { raw: rest === "" ? [] : rest.split(separator) };
+    }
+
+    const match = data.match(pattern);
+    if (!match) return null;
+    return { raw: match.slice(1).map((g) => g ?? ""), match };
+}
+
+/**
+ * 处理回调查询（内联键盘按钮，经过中间件）
+ */
+async function handleCallbackQuery(
+    plugins: Map<string, PluginInfo>,
+    query: updateNewCallbackQuery,
+    client?: Client | null,
+    detach?: DetachTask
+) {
+    const access = await checkAccess({
+        userId: query.sender_user_id,
+        chatId: query.chat_id,
+    });
+    if (!access.allowed) {
+        logAccessDenied(access, "回调查询", query.sender_user_id);
+        if (client) {
+            const t = createTranslator(
+                await resolveUserLocale(client, query.sender_user_id, query.chat_id)
+            );
+            await answerCallbackQuery(client, query.id, {
+                text: t("callback.blocked"),
+            }).catch(() => undefined);
+        }
+        return;
+    }
+
+    await withMiddlewares(
+        plugins,
+        {
+            type: "callback",
+            update: query,
+            chatId: query.chat_id,
+            userId: query.sender_user_id,
+        },
+        client,
+        () => dispatchCallbackQuery(plugins, query, client, detach)
+    );
+}
+
+/**
+ * 分发回调查询
+ */
+async function dispatchCallbackQuery(
+    plugins: Map<string, PluginInfo>,
+    query: updateNewCallbackQuery,
+    client?: Client | null,
+    detach?: DetachTask
+) {
+    if (!client) {
+        logger.error(`[插件管理] Client 未初始化`);
+        return;
+    }
+
+    const data = decodeCallbackData(query);
+    if (data === null) {
+        return;
+    }
+
+    logger.debug(`[插件管理] 处理回调查询: "${data}"`);
+
+    const chatSettings = await getChatSettings(query.chat_id);
+    for (const pluginInfo of plugins.values()) {
+        if (isPluginDisabledInChat(chatSettings, pluginInfo.name)) continue;
+        const handlers = pluginInfo.instance.callbackHandlers || {};
+
+        for (const [handlerName, callbackDef] of Object.entries(handlers)) {
+            const matched = matchCallbackPattern(
+                callbackDef.pattern,
+                callbackDef.separator ?? ":",
+                data
+            );
+            if (!matched) continue;
+
+            logger.debug(
+                `[插件管理] 回调匹配: ${pluginInfo.name}.${handlerName}`
+            );
+
+            let answered = false;
+            const answer: CallbackContext["answer"] = async (text = "", options = {}) => {
+                if (answered) return;
+                answered = true;
+                await answerCallbackQuery(client, query.id, { text, ...options });
+            };
+
+            const task = (async () => {
+                try {
+                    const chatType = await getChatType(client, query.chat_id);
+                    const userPermission = await getUserPermission(query.sender_user_id);
+                    const validation = await validateCommandAccess(
+                        handlerName,
+                        callbackDef.scope || "all",
+                        callbackDef.permission || "all",
+                        chatType,
+                        userPermission,
+                        query.sender_user_id,
+                        query.chat_id,
+                        () =>
+                            isChatAdmin(client, query.chat_id, {
+                                _: "messageSenderUser",
+                                user_id: query.sender_user_id,
+                            }),
+                        await resolveUserLocale(client, query.sender_user_id, query.chat_id),
+                        client
+                    );
+
+                    if (!validation.allowed) {
+                        await answer(validation.reason ?? "", { show_alert: true });
+                        return;
+                    }
+
+                    let args: unknown = matched.raw;
+                    if (callbackDef.parseArgs) {
+                        try {
+                            args = callbackDef.parseArgs(matched.raw);
+                        } catch (e) {
+                            logger.debug(
+                                e,
+                                `[插件管理] ${pluginInfo.name}.${handlerName} 回调参数解析失败:`
+                            );
+                            const t = createTranslator(
+                                await resolveUserLocale(client, query.sender_user_id, query.chat_id)
+                            );
+                            await answer(t("callback.invalidArgs"), { show_alert: true });
+                            return;
+                        }
+                    }
+
+                    const ctx: CallbackContext<unknown> = {
+                        update: query,
+                        data,
+                        args,
+                        ...(matched.match && { match: matched.match }),
+                        chatId: query.chat_id,
+                        messageId: query.message_id,
+                        userId: query.sender_user_id,
+                        role: userPermission,
+                        account: getAccountName(client),
+                        answer,
+                    };
+
+                    await callbackDef.handler(ctx);
+                } catch (e) {
+                    logger.error(
+                        e,
+                        `[插件管理] 插件 ${pluginInfo.name} 回调处理出错:`
+                    );
+                } finally {
+                    if (!answered) {
+                        await answer().catch((e) => {
+                            logger.debug(e, `[插件管理] 自动回复回调查询失败:`);
+                        });
+                    }
+                }
+            })();
+            if (callbackDef.parallel && detach) detach(task);
+            else await task;
+            return;
+        }
+    }
+
+    logger.debug(`[插件管理] 未匹配到任何回调处理器: "${data}"`);
+}
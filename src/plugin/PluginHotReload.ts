@@ -0,0 +1,106 @@
+import logger from "@log/index.ts";
+import fs from "node:fs";
+import path from "node:path";
+import { findIndexFile } from "./PluginLoader.ts";
+
+/** 文件变化后等待的时间，合并编辑器保存时产生的多次事件 */
+const DEBOUNCE_MS = 300;
+
+/**
+ * 是否启用插件热重载
+ * - 环境变量 `PLUGIN_HOT_RELOAD=true`
+ * - 或启动参数 `--hot-reload`
+ */
+export function isHotReloadEnabled(): boolean {
+    return (
+        process.env.PLUGIN_HOT_RELOAD?.toLowerCase() === "true" ||
+        process.argv.includes("--hot-reload")
+    );
+}
+
+/**
+ * 根据变化的文件找到所属插件的顶层路径（插件目录下的单文件插件或插件文件夹）
+ * @param pluginDir 插件目录
+ * @param filename 相对于插件目录的文件路径
+ * @returns 顶层路径，不属于任何插件时返回 null
+ */
+function resolvePluginRoot(pluginDir: string, filename: string): string | null {
+    const segments = filename.split(path.sep);
+    const top = segments[0];
+    if (!top || segments.some((s) => s.startsWith(".") || s === "node_modules")) {
+        return null;
+    }
+
+    const topPath = path.join(pluginDir, top);
+    if (segments.length > 1) {
+        return /\.(ts|js|json)$/i.test(filename) ? topPath : null;
+    }
+    // 顶层条目：单文件插件，或新增、删除的插件文件夹
+    if (/\.(ts|js)$/i.test(top) || !fs.existsSync(topPath)) return topPath;
+    return fs.statSync(topPath).isDirectory() ? topPath : null;
+}
+
+/**
+ * 找到插件顶层路径对应的入口文件
+ * @returns 入口文件路径，插件已被删除（或文件夹中没有入口文件）时返回 null
+ */
+function resolvePluginEntry(root: string): string | null {
+    if (!fs.existsSync(root)) return null;
+    return fs.statSync(root).isDirectory() ? findIndexFile(root) : root;
+}
+
+/**
+ * 监听插件目录，插件文件变化时回调
+ * @param pluginDir 插件目录
+ * @param onChange 变化的插件入口文件路径回调（同一时间只执行一个）
+ * @param onRemove 插件被删除时的回调，参数为插件的顶层路径（与 `onChange` 依次执行）
+ * @returns 停止监听的函数
+ */
+export function watchPluginDir(
+    pluginDir: string,
+    onChange: (modulePath: string) => Promise<void>,
+    onRemove: (root: string) => Promise<void>
+): () => void {
+    const timers = new Map<string, NodeJS.Timeout>();
+    let queue = Promise.resolve();
+
+    let watcher: fs.FSWatcher;
+    try {
+        watcher = fs.watch(pluginDir, { recursive: true }, (_event, filename) => {
+            if (!filename) return;
+            const root = resolvePluginRoot(pluginDir, filename.toString());
+            if (!root) return;
+
+            clearTimeout(timers.get(root));
+            timers.set(
+                root,
+                setTimeout(() => {
+                    timers.delete(root);
+                    logger.info(`[插件管理] 检测到插件文件变化: ${filename.toString()}`);
+                    // 合并事件后再判断是否被删除（编辑器保存时可能先删除再写入）
+                    const modulePath = resolvePluginEntry(root);
+                    queue = queue
+                        .then(() => (modulePath ? onChange(modulePath) : onRemove(root)))
+                        .catch((e) => {
+                            logger.error(e, `[插件管理] 热重载插件 ${modulePath ?? root} 出错:`);
+                        });
+                }, DEBOUNCE_MS)
+            );
+        });
+    } catch (e) {
+        logger.error(e, `[插件管理] 无法监听插件目录 ${pluginDir}:`);
+        return () => { };
+    }
+
+    watcher.on("error", (e) => {
+        logger.error(e, `[插件管理] 插件目录监听出错:`);
+    });
+
+    logger.info(`[插件管理] 已启用插件热重载，监听目录: ${pluginDir}`);
+
+    return () => {
+        for (const timer of timers.values()) clearTimeout(timer);
+        timers.clear();
+        watcher.close();
+    };
+}
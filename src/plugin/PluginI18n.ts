@@ -0,0 +1,255 @@
+import logger from "@log/index.ts";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { getConfig } from "@db/config.ts";
+import { getUserSettings } from "@db/query.ts";
+import { updateUserSettings } from "@db/update.ts";
+import type {
+    CommandDef,
+    LocaleMessages,
+    PluginInfo,
+    SubcommandDef,
+    Translator,
+} from "./BasePlugin.ts";
+import { getChatSettings } from "./PluginChatSettings.ts";
+
+/** 框架文案使用的语言，也是找不到文案时最后回退的语言 */
+export const DEFAULT_LOCALE = "zh";
+
+/** 用户语言缓存时间 */
+const CACHE_TTL_MS = 30 * 1000;
+
+/** 读取失败的缓存时间（期间视为未设置，避免数据库故障时每条命令都重试） */
+const FAILURE_TTL_MS = 5 * 1000;
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/;
+
+/** 用户 ID → 用户选择的语言 */
+const userCache = new Map<number, { value: string | undefined; expiresAt: number }>();
+
+/**
+ * 将嵌套的语言文件展开为 `a.b.c` 形式的键
+ */
+function flattenMessages(
+    value: unknown,
+    prefix = "",
+    result: LocaleMessages = {}
+): LocaleMessages {
+    if (typeof value === "string") {
+        if (prefix) result[prefix] = value;
+    } else if (value && typeof value === "object" && !Array.isArray(value)) {
+        for (const [key, child] of Object.entries(value)) {
+            flattenMessages(child, prefix ? `${prefix}.${key}` : key, result);
+        }
+    }
+    return result;
+}
+
+/**
+ * 读取目录下的全部语言文件（`<语言代码>.json`）
+ */
+function readLocaleDir(dir: string): Record<string, LocaleMessages> {
+    const locales: Record<string, LocaleMessages> = {};
+    if (!fs.existsSync(dir)) return locales;
+
+    for (const file of fs.readdirSync(dir)) {
+        if (!file.endsWith(".json")) continue;
+        const locale = normalizeLocale(file.slice(0, -".json".length));
+        try {
+            locales[locale] = flattenMessages(
+                JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8"))
+            );
+        } catch (e) {
+            logger.error(e, `[插件管理] 读取语言文件 ${path.join(dir, file)} 失败:`);
+        }
+    }
+    return locales;
+}
+
+/** 框架的语言文件 */
+const coreLocales = readLocaleDir(fileURLToPath(new URL("./locales", import.meta.url)));
+
+/**
+ * 读取插件的语言文件（仅目录形式的插件支持，位于插件目录下的 `locales/`）
+ * @param modulePath 插件入口文件路径
+ */
+export function readPluginLocales(modulePath: string): Record<string, LocaleMessages> {
+    if (!/^index\.(ts|js)$/i.test(path.basename(modulePath))) return {};
+    return readLocaleDir(path.join(path.dirname(modulePath), "locales"));
+}
+
+/**
+ * 规范化语言代码（`zh_TW` → `zh-tw`）
+ */
+export function normalizeLocale(locale: string): string {
+    return locale.trim().toLowerCase().replace(/_/g, "-");
+}
+
+/**
+ * 校验语言代码格式
+ */
+export function isValidLocale(locale: string): boolean {
+    return LOCALE_PATTERN.test(normalizeLocale(locale));
+}
+
+/**
+ * 语言的查找顺序：所选语言 → 基础语言 → 默认语言
+ */
+function localeChain(locale: string): string[] {
+    const base = locale.split("-")[0] ?? locale;
+    return [...new Set([locale, base, DEFAULT_LOCALE])];
+}
+
+/**
+ * 获取框架和插件提供的全部语言
+ * @param plugins 可选：同时统计这些插件的语言文件
+ */
+export function getAvailableLocales(plugins: Iterable<Pick<PluginInfo, "locales">> = []): string[] {
+    const locales = new Set(Object.keys(coreLocales));
+    for (const plugin of plugins) {
+        for (const locale of Object.keys(plugin.locales ?? {})) locales.add(locale);
+    }
+    return [...locales].sort();
+}
+
+/**
+ * 判断框架是否提供该语言（或其基础语言）的文案
+ */
+function isSupportedLocale(locale: string): boolean {
+    const base = locale.split("-")[0] ?? locale;
+    return locale in coreLocales || base in coreLocales;
+}
+
+function interpolate(text: string, params?: Record<string, string | number>): string {
+    if (!params) return text;
+    return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+        params[name] !== undefined ? String(params[name]) : match
+    );
+}
+
+/**
+ * 创建翻译函数
+ * @param locale 语言代码
+ * @param plugin 可选：优先查找此插件的语言文件
+ */
+export function createTranslator(
+    locale: string,
+    plugin?: Pick<PluginInfo, "locales">
+): Translator {
+    const chain = localeChain(normalizeLocale(locale));
+    const find: Translator["find"] = (key, params) => {
+        for (const candidate of chain) {
+            const text = plugin?.locales?.[candidate]?.[key] ?? coreLocales[candidate]?.[key];
+            if (text !== undefined) return interpolate(text, params);
+        }
+        return undefined;
+    };
+    const t = ((key, params) => find(key, params) ?? key) as Translator;
+    t.locale = chain[0]!;
+    t.find = find;
+    return t;
+}
+
+/**
+ * 按语言获取命令（或子命令）说明：
+ * `descriptions` 中的翻译 → 插件语言文件中的 `commands.<命令名>.<子命令名>` → `description`
+ * @param name 完整命令名（子命令以空格分隔，如 `plugin info`）
+ */
+export function getCommandDescription(
+    def: CommandDef | SubcommandDef,
+    name: string,
+    t: Translator
+): string | undefined {
+    const base = t.locale.split("-")[0] ?? t.locale;
+    return (
+        def.descriptions?.[t.locale] ??
+        def.descriptions?.[base] ??
+        t.find(`commands.${name.split(" ").join(".")}`) ??
+        def.description
+    );
+}
+
+/**
+ * 读取配置的默认语言
+ */
+export async function getDefaultLocale(): Promise<string> {
+    try {
+        const configData = await getConfig("config");
+        if (configData?.LANGUAGE) return normalizeLocale(configData.LANGUAGE);
+    } catch (e) {
+        logger.debug(e, `[插件管理] 读取默认语言配置失败:`);
+    }
+    return DEFAULT_LOCALE;
+}
+
+/**
+ * 读取用户选择的语言（带缓存，读取失败时短暂视为未设置）
+ */
+export async function getUserLanguage(userId: number): Promise<string | undefined> {
+    const now = Date.now();
+    const hit = userCache.get(userId);
+    if (hit && hit.expiresAt > now) return hit.value;
+
+    try {
+        const value = (await getUserSettings(userId))?.language;
+        userCache.set(userId, { value, expiresAt: now + CACHE_TTL_MS });
+        return value;
+    } catch (e) {
+        logger.debug(e, `[插件管理] 读取用户 ${userId} 的语言设置失败:`);
+        userCache.set(userId, { value: undefined, expiresAt: now + FAILURE_TTL_MS });
+        return undefined;
+    }
+}
+
+/**
+ * 设置用户语言
+ * @param language 语言代码，为 null 时恢复默认
+ */
+export async function setUserLanguage(userId: number, language: string | null) {
+    const value = language ? normalizeLocale(language) : undefined;
+    await (value
+        ? updateUserSettings(userId, { language: value })
+        : updateUserSettings(userId, {}, ["language"]));
+    userCache.set(userId, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+    logger.info(
+        `[插件管理] 用户 ${userId} 的语言已${value ? `设置为 ${value}` : "恢复默认"}`
+    );
+}
+
+/**
+ * 解析请求使用的语言，依次取：
+ * 用户设置 → 对话设置 → Telegram 客户端语言（框架支持时）→ 配置的默认语言
+ * @param target 用户 ID（以频道/群组身份发送时为 null）、对话 ID（内联查询没有对话）
+ * 与获取 Telegram 客户端语言的函数（仅在需要时调用）
+ */
+export async function resolveLocale(target: {
+    userId: number | null;
+    chatId?: number;
+    getLanguageCode?: () => Promise<string | undefined>;
+}): Promise<string> {
+    const { userId, chatId, getLanguageCode } = target;
+
+    if (userId !== null) {
+        const language = await getUserLanguage(userId);
+        if (language) return normalizeLocale(language);
+    }
+
+    if (chatId !== undefined) {
+        const { language } = await getChatSettings(chatId);
+        if (language) return normalizeLocale(language);
+    }
+
+    if (getLanguageCode) {
+        try {
+            const code = await getLanguageCode();
+            if (code && isSupportedLocale(normalizeLocale(code))) {
+                return normalizeLocale(code);
+            }
+        } catch (e) {
+            logger.debug(e, `[插件管理] 获取用户 ${userId} 的客户端语言失败:`);
+        }
+    }
+
+    return getDefaultLocale();
+}
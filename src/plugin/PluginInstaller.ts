@@ -0,0 +1,431 @@
+import logger from "@log/index.ts";
+import fs from "node:fs";
+import path from "node:path";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { CronJob } from "cron";
+import type { Client } from "tdl";
+import type { PluginInfo, PluginAPI, PluginInstallResult } from "./BasePlugin.ts";
+import { findIndexFile, loadPlugin } from "./PluginLoader.ts";
+import { reloadPluginModule, unloadPlugin } from "./PluginLifecycle.ts";
+import { DEFAULT_LOCALE, createTranslator } from "./PluginI18n.ts";
+import { getErrorMessage } from "@utils/error.ts";
+
+const execFileAsync = promisify(execFile);
+
+/** git / tar 命令超时时间 */
+const FETCH_TIMEOUT_MS = 2 * 60 * 1000;
+/** 安装依赖超时时间 */
+const INSTALL_TIMEOUT_MS = 5 * 60 * 1000;
+
+type PackageManager = "pnpm" | "yarn" | "npm";
+
+type MessageParams = Record<string, string | number>;
+
+/**
+ * 安装过程中的错误（`key` 为框架语言文件中的 `installer.*`，
+ * `message` 为默认语言的文本，用于日志）
+ */
+class InstallError extends Error {
+    readonly key: string;
+    readonly params: MessageParams | undefined;
+
+    constructor(key: string, params?: MessageParams) {
+        super(createTranslator(DEFAULT_LOCALE)(key, params));
+        this.name = "InstallError";
+        this.key = key;
+        this.params = params;
+    }
+}
+
+/**
+ * 构造安装 / 更新结果（同时带上语言键，由调用方按用户语言翻译）
+ */
+export function installResult(
+    success: boolean,
+    key: string,
+    params?: MessageParams,
+    name?: string
+): PluginInstallResult {
+    return {
+        success,
+        ...(name !== undefined && { name }),
+        message: createTranslator(DEFAULT_LOCALE)(key, params),
+        messageKey: key,
+        ...(params && { messageParams: params }),
+    };
+}
+
+function failureResult(e: unknown): PluginInstallResult {
+    return e instanceof InstallError
+        ? installResult(false, e.key, e.params)
+        : installResult(false, "installer.error", { error: getErrorMessage(e) });
+}
+
+async function run(command: string, args: string[], cwd: string, timeout: number) {
+    logger.debug(`[插件管理] 执行: ${command} ${args.join(" ")} (cwd: ${cwd})`);
+    try {
+        await execFileAsync(command, args, {
+            cwd,
+            timeout,
+            maxBuffer: 16 * 1024 * 1024,
+            env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+        });
+    } catch (e) {
+        const err = e as { stderr?: string };
+        const detail = err.stderr?.trim().split("\n").slice(-5).join("\n");
+        const step = `${command} ${args[0]}`;
+        throw detail
+            ? new InstallError("installer.commandFailedDetail", { step, detail })
+            : new InstallError("installer.commandFailed", { step });
+    }
+}
+
+/**
+ * 判断安装来源是否为本地压缩包
+ */
+function isTarball(source: string): boolean {
+    return /\.(tgz|tar\.gz|tar)$/i.test(source) && fs.existsSync(source);
+}
+
+/**
+ * 根据工作区根目录判断使用的包管理器
+ */
+function detectPackageManager(rootDir: string): PackageManager {
+    try {
+        const pkg = JSON.parse(
+            fs.readFileSync(path.join(rootDir, "package.json"), "utf-8")
+        ) as { packageManager?: string };
+        const name = pkg.packageManager?.split("@")[0];
+        if (name === "pnpm" || name === "yarn" || name === "npm") return name;
+    } catch {
+        // 忽略，按锁文件判断
+    }
+    if (fs.existsSync(path.join(rootDir, "pnpm-lock.yaml"))) return "pnpm";
+    if (fs.existsSync(path.join(rootDir, "yarn.lock"))) return "yarn";
+    return "npm";
+}
+
+/**
+ * 为插件安装依赖（插件目录没有 package.json 时跳过）
+ */
+async function installDependencies(pluginDir: string, targetDir: string) {
+    if (!fs.existsSync(path.join(targetDir, "package.json"))) return;
+
+    const rootDir = path.dirname(pluginDir);
+    const pm = detectPackageManager(rootDir);
+    logger.info(`[插件管理] 使用 ${pm} 安装插件依赖...`);
+
+    // pnpm / yarn 通过工作区安装，npm 直接在插件目录安装
+    if (pm === "npm") {
+        await run("npm", ["install", "--omit=dev"], targetDir, INSTALL_TIMEOUT_MS);
+    } else {
+        await run(pm, ["install"], rootDir, INSTALL_TIMEOUT_MS);
+    }
+}
+
+/**
+ * 将插件源码获取到临时目录
+ * @returns 插件根目录（压缩包只有一个顶层目录时为该目录）
+ */
+async function fetchSource(source: string, stagingDir: string): Promise<string> {
+    // 来源由聊天输入，避免被 git 当作命令行选项（如 `--upload-pack=...`）
+    if (source.startsWith("-")) {
+        throw new InstallError("installer.invalidSource", { source });
+    }
+
+    if (isTarball(source)) {
+        fs.mkdirSync(stagingDir, { recursive: true });
+        await run("tar", ["-xf", path.resolve(source), "-C", stagingDir], stagingDir, FETCH_TIMEOUT_MS);
+
+        const entries = fs.readdirSync(stagingDir, { withFileTypes: true });
+        if (entries.length === 1 && entries[0]!.isDirectory()) {
+            return path.join(stagingDir, entries[0]!.name);
+        }
+        return stagingDir;
+    }
+
+    await run(
+        "git",
+        ["clone", "--depth", "1", "--quiet", "--", source, stagingDir],
+        path.dirname(stagingDir),
+        FETCH_TIMEOUT_MS
+    );
+    return stagingDir;
+}
+
+/**
+ * 根据 package.json 或来源推断插件目录名
+ */
+function resolveDirName(sourceRoot: string, source: string): string {
+    try {
+        const pkg = JSON.parse(
+            fs.readFileSync(path.join(sourceRoot, "package.json"), "utf-8")
+        ) as { name?: string };
+        if (pkg.name) return pkg.name.split("/").pop()!;
+    } catch {
+        // 没有或无法解析 package.json，按来源推断
+    }
+    return path
+        .basename(source.replace(/[/\\]+$/, ""))
+        .replace(/\.(git|tgz|tar\.gz|tar)$/i, "");
+}
+
+/**
+ * 安装前的静态检查
+ * @returns 错误信息的语言键，通过检查时返回 null
+ */
+function validateSource(sourceRoot: string): string | null {
+    if (!findIndexFile(sourceRoot)) {
+        return "installer.noEntry";
+    }
+    const pkgPath = path.join(sourceRoot, "package.json");
+    if (fs.existsSync(pkgPath)) {
+        try {
+            JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
+        } catch {
+            return "installer.invalidPackageJson";
+        }
+    }
+    return null;
+}
+
+/**
+ * 插件目录移除后重新安装工作区依赖，清理为该插件安装的依赖
+ * （npm 的依赖安装在插件目录中，随目录一起删除）
+ */
+async function pruneWorkspaceDependencies(pluginDir: string) {
+    const rootDir = path.dirname(pluginDir);
+    const pm = detectPackageManager(rootDir);
+    if (pm === "npm") return;
+    await run(pm, ["install"], rootDir, INSTALL_TIMEOUT_MS);
+}
+
+function removeDir(dir: string) {
+    try {
+        fs.rmSync(dir, { recursive: true, force: true });
+    } catch (e) {
+        logger.warn(e, `[插件管理] 删除目录 ${dir} 失败:`);
+    }
+}
+
+function findLoadedByPath(plugins: Map<string, PluginInfo>, modulePath: string) {
+    return [...plugins.values()].find((pi) => pi.modulePath === modulePath);
+}
+
+async function saveSource(pluginName: string, source: string) {
+    try {
+        const { getConfig, upsertConfig } = await import("@db/config.ts");
+        const pluginsConfig = await getConfig("plugins");
+        await upsertConfig("plugins", {
+            disabled: pluginsConfig?.disabled ?? [],
+            sources: { ...pluginsConfig?.sources, [pluginName]: source },
+        });
+    } catch (e) {
+        logger.warn(e, `[插件管理] 记录插件 ${pluginName} 安装来源失败:`);
+    }
+}
+
+/**
+ * 获取插件的安装来源（记录的来源，或插件目录 git 仓库的 origin）
+ */
+async function getSource(pluginName: string, targetDir: string): Promise<string | null> {
+    const { getConfig } = await import("@db/config.ts");
+    const recorded = (await getConfig("plugins"))?.sources?.[pluginName];
+    if (recorded) return recorded;
+
+    if (fs.existsSync(path.join(targetDir, ".git"))) {
+        try {
+            const { stdout } = await execFileAsync(
+                "git",
+                ["remote", "get-url", "origin"],
+                { cwd: targetDir, timeout: FETCH_TIMEOUT_MS }
+            );
+            return stdout.trim() || null;
+        } catch {
+            return null;
+        }
+    }
+    return null;
+}
+
+/**
+ * 从 git 地址或本地压缩包安装插件
+ *
+ * 流程：获取源码到临时目录 → 检查 → 移动到插件目录 → 安装依赖 → 加载。
+ * 任一步骤失败都会删除已复制的文件。
+ * @param source git 仓库地址（含本地裸仓库路径）或本地 `.tgz` / `.tar.gz` / `.tar` 文件路径
+ */
+export async function installPlugin(
+    plugins: Map<string, PluginInfo>,
+    pluginRunTimers: Map<string, Map<string, CronJob | NodeJS.Timeout>>,
+    pluginDir: string,
+    client: Client,
+    createPluginApiFn: (modulePath: string) => PluginAPI,
+    source: string
+): Promise<PluginInstallResult> {
+    const stagingDir = path.join(pluginDir, `.install-${Date.now().toString(36)}`);
+    let targetDir: string | null = null;
+    let dependenciesTouched = false;
+
+    try {
+        logger.info(`[插件管理] 开始安装插件: ${source}`);
+        const sourceRoot = await fetchSource(source, stagingDir);
+
+        const invalid = validateSource(sourceRoot);
+        if (invalid) return installResult(false, invalid);
+
+        const dirName = resolveDirName(sourceRoot, source);
+        if (!dirName || dirName.startsWith(".")) {
+            return installResult(false, "installer.invalidDirName", { dir: dirName });
+        }
+        if (fs.existsSync(path.join(pluginDir, dirName))) {
+            return installResult(false, "installer.dirExists", { dir: dirName });
+        }
+
+        targetDir = path.join(pluginDir, dirName);
+        fs.renameSync(sourceRoot, targetDir);
+
+        dependenciesTouched = fs.existsSync(path.join(targetDir, "package.json"));
+        await installDependencies(pluginDir, targetDir);
+
+        const modulePath = findIndexFile(targetDir)!;
+        await loadPlugin(
+            modulePath,
+            client,
+            plugins,
+            pluginRunTimers,
+            createPluginApiFn,
+            Date.now().toString(36)
+        );
+
+        const loaded = findLoadedByPath(plugins, modulePath);
+        if (!loaded) {
+            throw new InstallError("installer.loadFailed");
+        }
+
+        await saveSource(loaded.name, source);
+        logger.info(`[插件管理] 插件 ${loaded.name} 安装成功 (目录: ${dirName})`);
+        return installResult(
+            true,
+            "installer.installed",
+            { name: loaded.name, version: loaded.version },
+            loaded.name
+        );
+    } catch (e) {
+        logger.error(e, `[插件管理] 安装插件 ${source} 失败:`);
+        if (targetDir) {
+            // 回滚：移除已复制的插件
+            const modulePath = findIndexFile(targetDir);
+            const loaded = modulePath ? findLoadedByPath(plugins, modulePath) : undefined;
+            if (loaded) await unloadPlugin(plugins, pluginRunTimers, loaded.name);
+            removeDir(targetDir);
+            if (dependenciesTouched) {
+                try {
+                    await pruneWorkspaceDependencies(pluginDir);
+                } catch (installErr) {
+                    logger.warn(installErr, `[插件管理] 回滚时重新安装依赖失败:`);
+                }
+            }
+            logger.info(`[插件管理] 已回滚插件安装: ${targetDir}`);
+        }
+        return failureResult(e);
+    } finally {
+        removeDir(stagingDir);
+    }
+}
+
+/**
+ * 从安装来源更新插件
+ *
+ * 旧版本会先备份，新版本加载失败时恢复备份并重新加载旧版本。
+ * @param pluginName 插件名称（必须已加载）
+ */
+export async function updatePlugin(
+    plugins: Map<string, PluginInfo>,
+    pluginRunTimers: Map<string, Map<string, CronJob | NodeJS.Timeout>>,
+    pluginDir: string,
+    client: Client,
+    createPluginApiFn: (modulePath: string) => PluginAPI,
+    pluginName: string
+): Promise<PluginInstallResult> {
+    const pluginInfo = plugins.get(pluginName);
+    if (!pluginInfo?.modulePath) {
+        return installResult(false, "installer.notLoaded", { name: pluginName });
+    }
+
+    const targetDir = path.dirname(pluginInfo.modulePath);
+    if (path.dirname(targetDir) !== path.resolve(pluginDir)) {
+        return installResult(false, "installer.notDirectory", { name: pluginName });
+    }
+
+    const source = await getSource(pluginName, targetDir);
+    if (!source) {
+        return installResult(false, "installer.noSource", { name: pluginName });
+    }
+
+    const stamp = Date.now().toString(36);
+    const stagingDir = path.join(pluginDir, `.install-${stamp}`);
+    const backupDir = path.join(pluginDir, `.backup-${path.basename(targetDir)}-${stamp}`);
+    const oldVersion = pluginInfo.version;
+    let replaced = false;
+
+    try {
+        logger.info(`[插件管理] 开始更新插件 ${pluginName}: ${source}`);
+        const sourceRoot = await fetchSource(source, stagingDir);
+
+        const invalid = validateSource(sourceRoot);
+        if (invalid) return installResult(false, invalid);
+
+        fs.renameSync(targetDir, backupDir);
+        fs.renameSync(sourceRoot, targetDir);
+        replaced = true;
+
+        await installDependencies(pluginDir, targetDir);
+
+        const modulePath = findIndexFile(targetDir)!;
+        const ok = await reloadPluginModule(
+            plugins,
+            pluginRunTimers,
+            client,
+            createPluginApiFn,
+            modulePath
+        );
+        const loaded = findLoadedByPath(plugins, modulePath);
+        if (!ok || loaded?.name !== pluginName) {
+            throw new InstallError("installer.updateLoadFailed");
+        }
+
+        removeDir(backupDir);
+        logger.info(`[插件管理] 插件 ${pluginName} 已更新: v${oldVersion} -> v${loaded.version}`);
+        return installResult(
+            true,
+            "installer.updated",
+            { name: pluginName, from: oldVersion, to: loaded.version },
+            pluginName
+        );
+    } catch (e) {
+        logger.error(e, `[插件管理] 更新插件 ${pluginName} 失败:`);
+        if (replaced) {
+            // 回滚：恢复备份并重新加载旧版本
+            removeDir(targetDir);
+            fs.renameSync(backupDir, targetDir);
+            try {
+                await installDependencies(pluginDir, targetDir);
+            } catch (installErr) {
+                logger.warn(installErr, `[插件管理] 回滚时重新安装依赖失败:`);
+            }
+            await reloadPluginModule(
+                plugins,
+                pluginRunTimers,
+                client,
+                createPluginApiFn,
+                pluginInfo.modulePath
+            );
+            logger.info(`[插件管理] 已回滚插件 ${pluginName} 到 v${oldVersion}`);
+        }
+        return failureResult(e);
+    } finally {
+        removeDir(stagingDir);
+    }
+}
@@ -5,16 +5,19 @@ import { CronJob } from "cron";
 import type { Client } from "tdl";
 import type { PluginInfo, PluginAPI } from "./BasePlugin.ts";
 import { clearPluginRuns } from "./PluginScheduler.ts";
-import { scanPluginDir } from "./PluginLoader.ts";
+import { scanPluginDir, loadPlugin } from "./PluginLoader.ts";
+import { getDependentPlugins } from "./PluginDependency.ts";
 
 /**
- * 卸载插件
+ * 卸载插件（依赖该插件的插件会先被卸载）
+ * @param unloading 内部使用：正在卸载的插件，防止级联卸载时重复处理
  * @returns 是否成功卸载
  */
 export async function unloadPlugin(
     plugins: Map<string, PluginInfo>,
     pluginRunTimers: Map<string, Map<string, CronJob | NodeJS.Timeout>>,
-    pluginName: string
+    pluginName: string,
+    unloading: Set<string> = new Set()
 ): Promise<boolean> {
     const pluginInfo = plugins.get(pluginName);
     if (!pluginInfo) {
@@ -22,6 +25,15 @@ export async function unloadPlugin(
         return false;
     }
 
+    unloading.add(pluginName);
+
+    // 级联卸载依赖此插件的插件
+    for (const dependent of getDependentPlugins(plugins, pluginName)) {
+        if (unloading.has(dependent)) continue;
+        logger.info(`[插件管理] 插件 ${dependent} 依赖 ${pluginName}，将一并卸载`);
+        await unloadPlugin(plugins, pluginRunTimers, dependent, unloading);
+    }
+
     try {
         if (pluginInfo.instance.destroy) {
             await pluginInfo.instance.destroy();
@@ -36,6 +48,146 @@ export async function unloadPlugin(
     }
 }
 
+/**
+ * 插件处理器快照（用于热重载前后对比）
+ */
+type HandlerSnapshot = {
+    commands: string[];
+    updates: string[];
+    inline: string[];
+};
+
+function snapshotHandlers(pluginInfo: PluginInfo | undefined): HandlerSnapshot {
+    const instance = pluginInfo?.instance;
+    return {
+        commands: Object.keys(instance?.cmdHandlers || {}),
+        updates: Object.keys(instance?.updateHandlers || {}),
+        inline: Object.keys(instance?.inlineHandlers || {}),
+    };
+}
+
+/**
+ * 输出重载前后处理器的变化
+ */
+function logHandlerDiff(
+    pluginName: string,
+    before: HandlerSnapshot,
+    after: HandlerSnapshot
+) {
+    const labels: Record<keyof HandlerSnapshot, string> = {
+        commands: "命令",
+        updates: "更新处理器",
+        inline: "内联处理器",
+    };
+
+    const lines: string[] = [];
+    for (const key of Object.keys(labels) as (keyof HandlerSnapshot)[]) {
+        const added = after[key].filter((name) => !before[key].includes(name));
+        const removed = before[key].filter((name) => !after[key].includes(name));
+        if (added.length > 0) lines.push(`+ ${labels[key]}: ${added.join(", ")}`);
+        if (removed.length > 0) lines.push(`- ${labels[key]}: ${removed.join(", ")}`);
+    }
+
+    if (lines.length > 0) {
+        logger.info(`[插件管理] 插件 ${pluginName} 处理器变化:\n  ${lines.join("\n  ")}`);
+    } else {
+        logger.info(`[插件管理] 插件 ${pluginName} 处理器无变化`);
+    }
+}
+
+/**
+ * 卸载入口文件已被删除的插件
+ * @param root 被删除的插件顶层路径（单文件插件或插件文件夹）
+ * @returns 卸载的插件名
+ */
+export async function unloadRemovedPlugins(
+    plugins: Map<string, PluginInfo>,
+    pluginRunTimers: Map<string, Map<string, CronJob | NodeJS.Timeout>>,
+    root: string
+): Promise<string[]> {
+    const removed = [...plugins.values()].filter(
+        (pi) => pi.modulePath === root || pi.modulePath?.startsWith(root + path.sep)
+    );
+
+    const unloaded: string[] = [];
+    for (const pluginInfo of removed) {
+        // 可能已随先前卸载的依赖被级联卸载
+        if (!plugins.has(pluginInfo.name)) continue;
+        logger.info(`[插件管理] 插件 ${pluginInfo.name} 的文件已删除，将卸载该插件`);
+        const before = snapshotHandlers(pluginInfo);
+        if (!(await unloadPlugin(plugins, pluginRunTimers, pluginInfo.name))) continue;
+        logHandlerDiff(pluginInfo.name, before, snapshotHandlers(undefined));
+        unloaded.push(pluginInfo.name);
+    }
+    return unloaded;
+}
+
+/**
+ * 从入口文件重新导入并重载单个插件（绕过 ESM 缓存）
+ *
+ * 仅重载该插件本身；级联卸载的依赖方会从缓存中重新实例化。
+ * @param modulePath 插件入口文件路径
+ * @returns 是否成功
+ */
+export async function reloadPluginModule(
+    plugins: Map<string, PluginInfo>,
+    pluginRunTimers: Map<string, Map<string, CronJob | NodeJS.Timeout>>,
+    client: Client,
+    createPluginApiFn: (modulePath: string) => PluginAPI,
+    modulePath: string
+): Promise<boolean> {
+    const previous = [...plugins.values()].find((pi) => pi.modulePath === modulePath);
+    const before = snapshotHandlers(previous);
+    // Map 保持插入顺序，即依赖顺序
+    const loadedBefore = [...plugins.values()];
+
+    if (previous) {
+        const unloaded = await unloadPlugin(plugins, pluginRunTimers, previous.name);
+        if (!unloaded) {
+            logger.error(`[插件管理] 卸载插件 ${previous.name} 失败，已停止重载`);
+            return false;
+        }
+    }
+
+    try {
+        await loadPlugin(
+            modulePath,
+            client,
+            plugins,
+            pluginRunTimers,
+            createPluginApiFn,
+            Date.now().toString(36)
+        );
+    } catch (e) {
+        logger.error(e, `[插件管理] 重新导入插件 ${modulePath} 出错:`);
+    }
+
+    const current = [...plugins.values()].find((pi) => pi.modulePath === modulePath);
+    const pluginName = current?.name ?? previous?.name ?? modulePath;
+
+    // 重新加载被级联卸载的依赖方
+    for (const pi of loadedBefore) {
+        if (pi === previous || plugins.has(pi.name) || !pi.modulePath) continue;
+        try {
+            await loadPlugin(pi.modulePath, client, plugins, pluginRunTimers, createPluginApiFn);
+        } catch (e) {
+            logger.error(e, `[插件管理] 重新加载依赖方插件 ${pi.name} 出错:`);
+        }
+        if (!plugins.has(pi.name)) {
+            logger.warn(`[插件管理] 依赖 ${pluginName} 的插件 ${pi.name} 未能重新加载`);
+        }
+    }
+
+    if (!current) {
+        logger.error(`[插件管理] 插件 ${pluginName} ${previous ? "重载" : "加载"}失败`);
+        return false;
+    }
+
+    logHandlerDiff(current.name, before, snapshotHandlers(current));
+    logger.info(`[插件管理] 插件 ${current.name} ${previous ? "重载" : "加载"}成功`);
+    return true;
+}
+
 /**
  * 重载插件
  * @returns 是否成功
@@ -49,6 +201,18 @@ export async function reloadPlugin(
     pluginName: string
 ): Promise<boolean> {
     const pluginInfo = plugins.get(pluginName);
+    const before = new Set(plugins.keys());
+
+    // 已加载且入口已知时只重载该插件
+    if (pluginInfo?.modulePath) {
+        return reloadPluginModule(
+            plugins,
+            pluginRunTimers,
+            client,
+            createPluginApiFn,
+            pluginInfo.modulePath
+        );
+    }
 
     if (pluginInfo) {
         try {
@@ -75,6 +239,16 @@ export async function reloadPlugin(
             "插件目录"
         );
 
+        // 级联卸载的依赖方会在重新扫描时按依赖顺序重新加载
+        const missing = [...before].filter(
+            (name) => name !== pluginName && !plugins.has(name)
+        );
+        if (missing.length > 0) {
+            logger.warn(
+                `[插件管理] 以下依赖 ${pluginName} 的插件未能重新加载: ${missing.join(", ")}`
+            );
+        }
+
         if (plugins.has(pluginName)) {
             logger.info(
                 `[插件管理] 插件 ${pluginName} ${pluginInfo ? "重载" : "加载"}成功`
@@ -241,6 +415,23 @@ export async function deletePlugin(
             logger.debug(e, `[插件管理] 更新插件配置时出错（可忽略）:`);
         }
 
+        // 清理插件存储
+        try {
+            const { clearPluginStorage } = await import("@db/storage.ts");
+            const removed = await clearPluginStorage(pluginName);
+            logger.debug(`[插件管理] 已清理插件 ${pluginName} 的 ${removed} 条存储数据`);
+        } catch (e) {
+            logger.warn(e, `[插件管理] 清理插件 ${pluginName} 存储数据失败:`);
+        }
+
+        // 清理插件配置
+        try {
+            const { clearPluginConfigValues } = await import("./PluginConfig.ts");
+            await clearPluginConfigValues(pluginName);
+        } catch (e) {
+            logger.debug(e, `[插件管理] 清理插件 ${pluginName} 配置时出错（可忽略）:`);
+        }
+
         logger.info(`[插件管理] 已删除插件 ${pluginName} (路径: ${foundPath})`);
         return true;
     } catch (e) {
@@ -8,11 +8,35 @@ import type {
     PluginInfo,
     ImportedModule,
     PluginAPI,
+    PluginManifest,
 } from "./BasePlugin.ts";
 import { Plugin as BasePlugin } from "./BasePlugin.ts";
 import { getConfig } from "@db/config.ts";
 import type { CommandDef } from "./BasePlugin.ts";
 import { setupPluginRuns, clearPluginRuns } from "./PluginScheduler.ts";
+import { validateConfigSchema } from "./PluginConfig.ts";
+import { hasArgSpec, buildParamsFromArgSpec } from "./PluginArgs.ts";
+import { validateCommandHandlers } from "./PluginCommandRouter.ts";
+import { reportCommandConflicts } from "./PluginCommandConflict.ts";
+import {
+    readPluginManifest,
+    validatePluginManifest,
+    checkManifestRequirements,
+} from "./PluginManifest.ts";
+import {
+    validateDependencyDeclaration,
+    checkPluginDependencies,
+    sortByDependencies,
+} from "./PluginDependency.ts";
+import { readPluginLocales } from "./PluginI18n.ts";
+import { getAccountByClient, getAccountName } from "@TDLib/Accounts.ts";
+
+/** 已实例化、等待按依赖顺序注册的插件 */
+type PluginCandidate = {
+    modulePath: string;
+    instance: BasePlugin;
+    manifest?: PluginManifest;
+};
 
 /**
  * 在目录中查找 index 文件
@@ -49,6 +73,7 @@ export async function scanPluginDir(
     }
 
     const dirents = fs.readdirSync(dir, { withFileTypes: true });
+    const candidates: PluginCandidate[] = [];
 
     for (const dirent of dirents) {
         const item = dirent.name;
@@ -69,31 +94,184 @@ export async function scanPluginDir(
             }
 
             if (modulePath) {
-                await loadPlugin(
+                const candidate = await preparePlugin(
                     modulePath,
                     client,
                     plugins,
-                    pluginRunTimers,
                     createPluginApiFn
                 );
+                if (!candidate) continue;
+
+                const duplicate = candidates.find(
+                    (c) => c.instance.name === candidate.instance.name
+                );
+                if (duplicate) {
+                    logger.warn(
+                        `[插件管理] 插件 ${candidate.instance.name} 重复 (${duplicate.modulePath}, ${modulePath})，跳过`
+                    );
+                    continue;
+                }
+                candidates.push(candidate);
             }
         } catch (e) {
             logger.error(e, `[插件管理] 加载插件 ${item} 出错:`);
         }
     }
+
+    // 按依赖关系排序后依次注册
+    const { ordered, cycles } = sortByDependencies(candidates);
+    for (const cycle of cycles) {
+        logger.error(
+            `[插件管理] 检测到循环依赖: ${cycle.join(" -> ")}，相关插件不会加载`
+        );
+    }
+
+    for (const candidate of ordered) {
+        try {
+            await registerPlugin(candidate, plugins, pluginRunTimers);
+        } catch (e) {
+            logger.error(e, `[插件管理] 加载插件 ${candidate.instance.name} 出错:`);
+        }
+    }
 }
 
 /**
  * 加载单个插件
+ * @param cacheBust 可选：传入时绕过 ESM 模块缓存重新导入（用于热重载）
  */
 export async function loadPlugin(
     modulePath: string,
     client: Client,
     plugins: Map<string, PluginInfo>,
     pluginRunTimers: Map<string, Map<string, CronJob | NodeJS.Timeout>>,
-    createPluginApiFn: (modulePath: string) => PluginAPI
+    createPluginApiFn: (modulePath: string) => PluginAPI,
+    cacheBust?: string
 ) {
-    const moduleURL = pathToFileURL(modulePath).href;
+    const candidate = await preparePlugin(
+        modulePath,
+        client,
+        plugins,
+        createPluginApiFn,
+        cacheBust
+    );
+    if (!candidate) return;
+
+    await registerPlugin(candidate, plugins, pluginRunTimers);
+}
+
+/**
+ * 判断客户端登录的是否为用户账号（账号未登记时读取主账号配置，未知时返回 null）
+ */
+async function getClientAccountType(client: Client): Promise<boolean | null> {
+    const account = getAccountByClient(client);
+    if (account) return account.isUserAccount;
+    try {
+        const botConfig = await getConfig("bot");
+        if (botConfig && typeof botConfig.account_type === "boolean") {
+            return botConfig.account_type;
+        }
+    } catch (e) {
+        logger.debug(e, `[插件管理] 获取 bot 配置失败:`);
+    }
+    return null;
+}
+
+/**
+ * 检查插件是否绑定到客户端的账号（配置 `plugins.accounts` 优先于插件声明，均未设置时加载到全部账号）
+ * @param name 插件名称
+ * @param declared 插件实例或清单声明的账号列表
+ */
+async function isBoundToAccount(
+    name: string,
+    declared: string[] | undefined,
+    client: Client
+): Promise<boolean> {
+    let accounts = declared;
+    try {
+        const pluginsConfig = await getConfig("plugins");
+        accounts = pluginsConfig?.accounts?.[name] ?? accounts;
+    } catch (e) {
+        logger.debug(e, `[插件管理] 获取插件配置失败:`);
+    }
+    if (!accounts) return true;
+
+    const account = getAccountName(client);
+    if (accounts.includes(account)) return true;
+    logger.info(`[插件管理] 插件 ${name} 未绑定账号 ${account}，跳过加载`);
+    return false;
+}
+
+/**
+ * 读取并校验插件清单，检查插件能否在当前环境加载（不导入插件模块）
+ * @returns `ok` 为 false 时插件不应加载
+ */
+async function inspectManifest(
+    modulePath: string,
+    client: Client
+): Promise<{ ok: boolean; manifest?: PluginManifest }> {
+    let result;
+    try {
+        result = readPluginManifest(modulePath);
+    } catch (e) {
+        logger.error(e, `[插件管理] 读取插件 ${modulePath} 清单失败，跳过加载:`);
+        return { ok: false };
+    }
+    if (!result) return { ok: true };
+
+    const { manifest, file } = result;
+    const label = manifest.name || modulePath;
+
+    const errors = validatePluginManifest(manifest);
+    if (errors.length > 0) {
+        logger.error(
+            `[插件管理] 插件 ${label} 清单 ${file} 无效，跳过加载:\n  ${errors.join("\n  ")}`
+        );
+        return { ok: false };
+    }
+
+    const isUserAccount = await getClientAccountType(client);
+    const unmet = checkManifestRequirements(manifest, isUserAccount);
+    if (unmet) {
+        logger.warn(`[插件管理] 插件 ${label} ${unmet}，跳过加载`);
+        return { ok: false };
+    }
+
+    if (manifest.name) {
+        try {
+            const pluginsConfig = await getConfig("plugins");
+            if (pluginsConfig?.disabled?.includes(manifest.name)) {
+                logger.warn(`[插件管理] 插件 ${manifest.name} 在禁用列表中，跳过加载`);
+                return { ok: false };
+            }
+        } catch (e) {
+            logger.debug(e, `[插件管理] 获取插件配置失败:`);
+        }
+        if (!(await isBoundToAccount(manifest.name, manifest.accounts, client))) {
+            return { ok: false };
+        }
+    }
+
+    return { ok: true, manifest };
+}
+
+/**
+ * 导入并实例化插件，完成注册前的检查
+ * @returns 可注册的插件，不可加载时返回 null
+ */
+async function preparePlugin(
+    modulePath: string,
+    client: Client,
+    plugins: Map<string, PluginInfo>,
+    createPluginApiFn: (modulePath: string) => PluginAPI,
+    cacheBust?: string
+): Promise<PluginCandidate | null> {
+    // 导入前检查清单
+    const { ok, manifest } = await inspectManifest(modulePath, client);
+    if (!ok) return null;
+
+    const moduleURL = cacheBust
+        ? `${pathToFileURL(modulePath).href}?hot=${cacheBust}`
+        : pathToFileURL(modulePath).href;
     let module: ImportedModule;
     try {
         module = (await import(moduleURL)) as ImportedModule;
@@ -115,23 +293,23 @@ export async function loadPlugin(
                 logger.info(`-------------------------------`);
                 logger.error(`[插件管理] 插件 ${pluginName} 缺少包 ${packageName}`);
                 logger.error(`[插件管理] 请运行 pnpm install 安装依赖`);
-                return;
+                return null;
             }
         }
         logger.error(impErr, `[插件管理] 导入插件模块 ${modulePath} 失败:`);
-        return;
+        return null;
     }
 
     const PluginClass = module.default;
 
     if (!PluginClass) {
         logger.warn(`[插件管理] 插件 ${modulePath} 未导出默认类`);
-        return;
+        return null;
     }
 
     if (typeof PluginClass !== "function") {
         logger.warn(`[插件管理] 插件 ${modulePath} 默认导出不是类`);
-        return;
+        return null;
     }
 
     let pluginInstance: BasePlugin;
@@ -143,12 +321,12 @@ export async function loadPlugin(
         pluginInstance = new ctor(client, createPluginApiFn(modulePath));
     } catch (instErr: unknown) {
         logger.error(instErr, `[插件管理] 实例化插件 ${modulePath} 失败:`);
-        return;
+        return null;
     }
 
     if (!(pluginInstance instanceof BasePlugin)) {
         logger.warn(`[插件管理] 插件 ${modulePath} 未继承自 BasePlugin`);
-        return;
+        return null;
     }
 
     // 为插件的命令定义设置默认 showInHelp = true
@@ -181,35 +359,52 @@ export async function loadPlugin(
         logger.warn(
             `[插件管理] 插件 ${modulePath} 缺少必需属性 (name, version, description, type)`
         );
-        return;
+        return null;
     }
 
-    // 检查插件类型是否被允许加载
-    try {
-        const botConfig = await getConfig("bot");
-        if (botConfig && typeof botConfig.account_type === "boolean") {
-            const isAccount = botConfig.account_type;
-            const pluginType = pluginInstance.type;
-
-            if (isAccount && pluginType === "bot") {
-                logger.warn(
-                    `[插件管理] 插件 ${pluginInstance.name} 类型为 bot，但当前为用户账号，跳过加载`
-                );
-                return;
-            }
+    // 校验插件配置 Schema
+    const schemaErrors = validateConfigSchema(pluginInstance.configSchema || {});
+    if (schemaErrors.length > 0) {
+        logger.error(
+            `[插件管理] 插件 ${pluginInstance.name} 配置 Schema 无效，跳过加载:\n  ${schemaErrors.join("\n  ")}`
+        );
+        return null;
+    }
 
-            if (!isAccount && pluginType === "user") {
-                logger.warn(
-                    `[插件管理] 插件 ${pluginInstance.name} 类型为 user，但当前为Bot账号，跳过加载`
-                );
-                return;
-            }
-        }
-    } catch (e) {
+    // 校验命令声明（参数、别名、子命令）
+    const commandErrors = validateCommandHandlers(pluginInstance.cmdHandlers || {});
+    if (commandErrors.length > 0) {
         logger.error(
-            e,
-            `[插件管理] 获取 bot 配置失败，允许插件 ${pluginInstance.name} 加载:`
+            `[插件管理] 插件 ${pluginInstance.name} 命令声明无效，跳过加载:\n  ${commandErrors.join("\n  ")}`
         );
+        return null;
+    }
+
+    // 为未定义 params 的命令根据参数声明生成 Tool Schema 参数
+    for (const cmdDef of Object.values(pluginInstance.cmdHandlers || {})) {
+        if (!cmdDef.params && hasArgSpec(cmdDef)) {
+            cmdDef.params = buildParamsFromArgSpec(cmdDef);
+        }
+    }
+
+    // 检查插件类型是否被允许加载（账号类型未知时允许）
+    const isAccount = await getClientAccountType(client);
+    if (isAccount !== null) {
+        const pluginType = pluginInstance.type;
+
+        if (isAccount && pluginType === "bot") {
+            logger.warn(
+                `[插件管理] 插件 ${pluginInstance.name} 类型为 bot，但当前为用户账号，跳过加载`
+            );
+            return null;
+        }
+
+        if (!isAccount && pluginType === "user") {
+            logger.warn(
+                `[插件管理] 插件 ${pluginInstance.name} 类型为 user，但当前为Bot账号，跳过加载`
+            );
+            return null;
+        }
     }
 
     // 检查插件是否在禁用列表中
@@ -220,7 +415,7 @@ export async function loadPlugin(
                 logger.warn(
                     `[插件管理] 插件 ${pluginInstance.name} 在禁用列表中，跳过加载`
                 );
-                return;
+                return null;
             }
         }
     } catch (e) {
@@ -229,9 +424,75 @@ export async function loadPlugin(
         );
     }
 
+    // 检查插件是否绑定到当前账号
+    if (
+        !(await isBoundToAccount(
+            pluginInstance.name,
+            pluginInstance.accounts ?? manifest?.accounts,
+            client
+        ))
+    ) {
+        return null;
+    }
+
     // 检查是否已存在同名插件
     if (plugins.has(pluginInstance.name)) {
         logger.warn(`[插件管理] 插件 ${pluginInstance.name} 已存在，跳过`);
+        return null;
+    }
+
+    // 清单与实例信息核对，实例未声明依赖时使用清单中的依赖
+    if (manifest) {
+        if (manifest.name && manifest.name !== pluginInstance.name) {
+            logger.warn(
+                `[插件管理] 插件 ${pluginInstance.name} 清单名称 (${manifest.name}) 与实例不一致`
+            );
+        }
+        if (manifest.version && manifest.version !== pluginInstance.version) {
+            logger.warn(
+                `[插件管理] 插件 ${pluginInstance.name} 清单版本 (${manifest.version}) 与实例版本 (${pluginInstance.version}) 不一致`
+            );
+        }
+        pluginInstance.dependencies ??= manifest.dependencies;
+        pluginInstance.softDependencies ??= manifest.softDependencies;
+    }
+
+    // 检查依赖声明
+    const dependencyErrors = validateDependencyDeclaration(pluginInstance);
+    if (dependencyErrors.length > 0) {
+        logger.error(
+            `[插件管理] 插件 ${pluginInstance.name} 依赖声明无效，跳过加载:\n  ${dependencyErrors.join("\n  ")}`
+        );
+        return null;
+    }
+
+    return { modulePath, instance: pluginInstance, manifest };
+}
+
+/**
+ * 检查依赖并注册插件（设置定时任务、调用 onLoad）
+ */
+async function registerPlugin(
+    candidate: PluginCandidate,
+    plugins: Map<string, PluginInfo>,
+    pluginRunTimers: Map<string, Map<string, CronJob | NodeJS.Timeout>>
+) {
+    const { modulePath, instance: pluginInstance, manifest } = candidate;
+
+    if (plugins.has(pluginInstance.name)) {
+        logger.warn(`[插件管理] 插件 ${pluginInstance.name} 已存在，跳过`);
+        return;
+    }
+
+    // 检查依赖是否已加载
+    const { errors, warnings } = checkPluginDependencies(pluginInstance, plugins);
+    for (const warning of warnings) {
+        logger.warn(`[插件管理] 插件 ${pluginInstance.name}: ${warning}`);
+    }
+    if (errors.length > 0) {
+        logger.error(
+            `[插件管理] 插件 ${pluginInstance.name} 依赖不满足，跳过加载:\n  ${errors.join("\n  ")}`
+        );
         return;
     }
 
@@ -251,11 +512,16 @@ export async function loadPlugin(
         version: pluginInstance.version,
         description: pluginInstance.description,
         instance: pluginInstance,
+        modulePath,
+        manifest,
+        locales: readPluginLocales(modulePath),
         commands,
     };
 
     plugins.set(pluginInstance.name, pluginInfo);
 
+    await reportCommandConflicts(plugins, pluginInstance.name);
+
     // 设置 runHandlers 调度
     try {
         setupPluginRuns(
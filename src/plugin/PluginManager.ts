@@ -1,7 +1,13 @@
 import logger from "@log/index.ts";
 import path from "node:path";
 import { CronJob } from "cron";
-import type { PluginInfo, PluginAPI } from "./BasePlugin.ts";
+import type {
+  PluginInfo,
+  PluginAPI,
+  PluginStorage,
+  PluginConfig,
+  PluginInstallResult,
+} from "./BasePlugin.ts";
 import type { Client } from "tdl";
 import type { Update } from "tdlib-types";
 import { scanPluginDir } from "./PluginLoader.ts";
@@ -16,8 +22,40 @@ import {
   enablePlugin,
   disablePlugin,
   deletePlugin,
+  reloadPluginModule,
+  unloadRemovedPlugins,
 } from "./PluginLifecycle.ts";
-import { handleUpdate } from "./PluginEventHandler.ts";
+import { isHotReloadEnabled, watchPluginDir } from "./PluginHotReload.ts";
+import { installPlugin, installResult, updatePlugin } from "./PluginInstaller.ts";
+import { handleUpdate, enqueueUpdate } from "./PluginEventHandler.ts";
+import {
+  DispatchQueue,
+  getDispatchQueueOptions,
+  type DispatchQueueStats,
+} from "./PluginDispatchQueue.ts";
+import { scheduleBotCommandSync } from "./PluginCommandSync.ts";
+import {
+  askConversation,
+  startConversation,
+  cancelConversation,
+  restoreConversations,
+} from "./PluginConversation.ts";
+import {
+  getStorageValue,
+  setStorageValue,
+  deleteStorageValue,
+  listStorageValues,
+  incrementStorageValue,
+} from "@db/storage.ts";
+import {
+  getPluginConfigValue,
+  getPluginConfigValues,
+  setPluginConfigValue,
+  resetPluginConfigValue,
+} from "./PluginConfig.ts";
+
+/** 关闭时等待处理中的更新的最长时间 */
+const SHUTDOWN_DRAIN_TIMEOUT_MS = 10 * 1000;
 
 export class PluginManager {
   private plugins: Map<string, PluginInfo> = new Map();
@@ -25,6 +63,13 @@ export class PluginManager {
     new Map();
   private pluginDir: string;
   private client: Client | null = null;
+  private stopWatching: (() => void) | null = null;
+  /** 更新分发队列（加载插件时按配置创建） */
+  private queue: DispatchQueue | null = null;
+  /** 关闭后不再分发新的更新 */
+  private stopped = false;
+  /** 插件注册的关闭回调（插件入口路径 → 回调） */
+  private shutdownHooks: Map<string, Set<() => Promise<void> | void>> = new Map();
 
   constructor(pluginDir = path.resolve("./plugins")) {
     this.pluginDir = pluginDir;
@@ -47,7 +92,7 @@ export class PluginManager {
    */
   async loadPlugins(
     client: Client,
-    flushUpdateBuffer?: (handler: (update: Update) => Promise<void>) => void
+    flushUpdateBuffer?: (handler: (update: Update) => Promise<void>) => Promise<void>
   ) {
     this.client = client;
 
@@ -67,6 +112,8 @@ export class PluginManager {
     let totalUpdateHandlers = 0;
     let totalRunHandlers = 0;
     let totalInlineHandlers = 0;
+    let totalCallbackHandlers = 0;
+    let totalMiddlewares = 0;
 
     for (const pluginInfo of this.plugins.values()) {
       totalCommands += Object.keys(
@@ -81,6 +128,12 @@ export class PluginManager {
       totalInlineHandlers += Object.keys(
         pluginInfo.instance.inlineHandlers || {}
       ).length;
+      totalCallbackHandlers += Object.keys(
+        pluginInfo.instance.callbackHandlers || {}
+      ).length;
+      totalMiddlewares += Object.keys(
+        pluginInfo.instance.middlewareHandlers || {}
+      ).length;
     }
 
     logger.info(`[插件管理] 已加载 ${this.plugins.size} 个插件`);
@@ -88,19 +141,28 @@ export class PluginManager {
     logger.info(`[插件管理] 已注册 ${totalUpdateHandlers} 个更新处理器`);
     logger.info(`[插件管理] 已注册 ${totalRunHandlers} 个定时脚本`);
     logger.info(`[插件管理] 已注册 ${totalInlineHandlers} 个内联处理器`);
+    logger.info(`[插件管理] 已注册 ${totalCallbackHandlers} 个回调处理器`);
+    logger.info(`[插件管理] 已注册 ${totalMiddlewares} 个中间件`);
     logger.info("-------------------------------");
 
-    // 设置更新处理器
-    client.on("update", (update) => {
+    // 恢复持久化的会话
+    await restoreConversations(client);
+
+    // 设置更新处理器：更新按接收顺序进入分发队列，队列已满时等待，等待入队的更新也已满时丢弃
+    const queue = new DispatchQueue(await getDispatchQueueOptions());
+    this.queue = queue;
+    const enqueue = async (update: Update) => {
       logger.debug(update, `[插件管理] 收到更新:`);
-      handleUpdate(this.plugins, update, this.client).catch((error) => {
-        logger.error(error, "[插件管理] 处理更新时发生错误:");
-      });
-    });
+      await enqueueUpdate(queue, update, client, (u) => this.dispatchUpdate(u));
+    };
 
-    // 回放缓存的 update（ClientManager 在插件就绪前暂存的更新）
     if (flushUpdateBuffer) {
-      flushUpdateBuffer((update) => handleUpdate(this.plugins, update, this.client));
+      // 先回放 ClientManager 在插件就绪前暂存的更新，之后的更新由其直接转交
+      await flushUpdateBuffer(enqueue);
+    } else {
+      client.on("update", (update) => {
+        void enqueue(update);
+      });
     }
 
     for (const pi of this.plugins.values()) {
@@ -111,6 +173,130 @@ export class PluginManager {
         pi.instance
       );
     }
+
+    // 同步命令菜单（仅 Bot 账号）
+    this.syncCommands();
+
+    // 插件热重载（可选）
+    if (isHotReloadEnabled()) {
+      this.startHotReload();
+    }
+  }
+
+  /**
+   * 分发更新（关闭后忽略新的更新）
+   */
+  private async dispatchUpdate(update: Update): Promise<void> {
+    if (this.stopped) return;
+
+    try {
+      await handleUpdate(this.plugins, update, this.client, (task) =>
+        this.queue?.track(task)
+      );
+    } catch (error) {
+      logger.error(error, "[插件管理] 处理更新时发生错误:");
+    }
+  }
+
+  /**
+   * 获取更新分发队列的状态（插件尚未加载时返回 null）
+   */
+  getDispatchStats(): DispatchQueueStats | null {
+    return this.queue?.getStats() ?? null;
+  }
+
+  /**
+   * 关闭插件管理器：停止接收更新，等待处理中的更新，
+   * 执行插件的关闭回调后卸载全部插件并停止定时任务
+   * @param drainTimeoutMs 可选：等待处理中的更新的最长时间
+   */
+  async shutdown(drainTimeoutMs = SHUTDOWN_DRAIN_TIMEOUT_MS) {
+    this.stopHotReload();
+    this.stopped = true;
+
+    const stats = this.queue?.getStats();
+    if (this.queue && stats && stats.running + stats.pending + stats.waiting > 0) {
+      logger.info(
+        `[插件管理] 等待 ${stats.running} 个处理中的更新完成（排队 ${stats.pending + stats.waiting} 个）...`
+      );
+      let timer: NodeJS.Timeout | undefined;
+      const drained = await Promise.race([
+        this.queue.onIdle().then(() => true),
+        new Promise<false>((resolve) => {
+          timer = setTimeout(() => resolve(false), drainTimeoutMs);
+        }),
+      ]);
+      clearTimeout(timer);
+      if (!drained) {
+        const left = this.queue.getStats();
+        logger.warn(
+          `[插件管理] 等待超时 (${drainTimeoutMs / 1000}s)，仍有 ${left.running + left.pending} 个更新未处理完成`
+        );
+      }
+    }
+
+    // 已卸载插件的回调不再执行
+    for (const [pluginIdentity, handlers] of this.shutdownHooks) {
+      const pluginName = this.findPluginNameByPath(pluginIdentity);
+      if (!pluginName) continue;
+      for (const handler of handlers) {
+        try {
+          await handler();
+        } catch (e) {
+          logger.error(e, `[插件管理] 插件 ${pluginName} 关闭回调执行出错:`);
+        }
+      }
+    }
+    this.shutdownHooks.clear();
+
+    // 按加载顺序的逆序卸载（依赖方先于被依赖的插件卸载）
+    for (const pluginName of [...this.plugins.keys()].reverse()) {
+      if (!this.plugins.has(pluginName)) continue;
+      await unloadPlugin(this.plugins, this.pluginRunTimers, pluginName);
+    }
+    for (const pluginName of [...this.pluginRunTimers.keys()]) {
+      clearPluginRuns(this.pluginRunTimers, pluginName);
+    }
+  }
+
+  /**
+   * 开始监听插件目录，文件变化时只重载对应插件
+   */
+  startHotReload() {
+    if (this.stopWatching) return;
+    this.stopWatching = watchPluginDir(
+      this.pluginDir,
+      async (modulePath) => {
+        if (!this.client) return;
+        await reloadPluginModule(
+          this.plugins,
+          this.pluginRunTimers,
+          this.client,
+          (mp) => this.createPluginApi(mp),
+          modulePath
+        );
+        this.syncCommands();
+      },
+      async (root) => {
+        const unloaded = await unloadRemovedPlugins(this.plugins, this.pluginRunTimers, root);
+        if (unloaded.length > 0) this.syncCommands();
+      }
+    );
+  }
+
+  /**
+   * 停止监听插件目录
+   */
+  stopHotReload() {
+    this.stopWatching?.();
+    this.stopWatching = null;
+  }
+
+  /**
+   * 插件变化后同步 Telegram 命令菜单（仅 Bot 账号，自动合并短时间内的多次变化）
+   */
+  private syncCommands() {
+    scheduleBotCommandSync(this.plugins, this.client);
   }
 
   /**
@@ -134,10 +320,23 @@ export class PluginManager {
     return this.plugins.has(pluginName);
   }
 
+  /**
+   * 根据插件入口文件路径查找插件名
+   */
+  private findPluginNameByPath(modulePath: string): string | undefined {
+    for (const pi of this.plugins.values()) {
+      if (pi.modulePath === modulePath) return pi.name;
+    }
+    return undefined;
+  }
+
   /**
    * 为插件创建一个可调用的辅助 API 对象
    */
   private createPluginApi(pluginIdentity: string): PluginAPI {
+    // 插件重新实例化时丢弃旧实例注册的关闭回调
+    this.shutdownHooks.delete(pluginIdentity);
+
     const safeRunPluginTask = async (name: string, runName: string) => {
       return this.runPluginTask(name, runName);
     };
@@ -154,6 +353,103 @@ export class PluginManager {
       enablePlugin: this.enablePlugin.bind(this),
       disablePlugin: this.disablePlugin.bind(this),
       deletePlugin: this.deletePlugin.bind(this),
+      installPlugin: this.installPlugin.bind(this),
+      updatePlugin: this.updatePlugin.bind(this),
+      ask: async (message, prompt, options) => {
+        if (!this.client) throw new Error("TDLib client not initialized");
+        return askConversation(this.client, message, prompt, options?.timeoutMs);
+      },
+      startConversation: async (name, message, data) => {
+        const pluginName = this.findPluginNameByPath(pluginIdentity);
+        if (!this.client || !pluginName) return false;
+        return startConversation(
+          this.plugins,
+          this.client,
+          pluginName,
+          name,
+          message,
+          data
+        );
+      },
+      cancelConversation: async (chatId, userId) =>
+        cancelConversation(chatId, userId, this.client),
+      onShutdown: (handler) => {
+        let handlers = this.shutdownHooks.get(pluginIdentity);
+        if (!handlers) {
+          handlers = new Set();
+          this.shutdownHooks.set(pluginIdentity, handlers);
+        }
+        handlers.add(handler);
+        return () => {
+          handlers.delete(handler);
+        };
+      },
+      getDispatchStats: this.getDispatchStats.bind(this),
+      storage: this.createPluginStorage(pluginIdentity),
+      config: this.createPluginConfig(pluginIdentity),
+    };
+  }
+
+  /**
+   * 为插件创建按 configSchema 校验的配置对象
+   */
+  private createPluginConfig(pluginIdentity: string): PluginConfig {
+    const resolvePlugin = () => {
+      const pluginName = this.findPluginNameByPath(pluginIdentity);
+      const info = pluginName ? this.plugins.get(pluginName) : undefined;
+      if (!pluginName || !info) {
+        throw new Error(`插件 ${pluginIdentity} 尚未注册，无法使用配置`);
+      }
+      return { pluginName, schema: info.instance.configSchema || {} };
+    };
+
+    return {
+      get: async <T>(key: string) => {
+        const { pluginName, schema } = resolvePlugin();
+        return (await getPluginConfigValue(pluginName, schema, key)) as
+          | T
+          | undefined;
+      },
+      getAll: async () => {
+        const { pluginName, schema } = resolvePlugin();
+        return getPluginConfigValues(pluginName, schema);
+      },
+      set: async (key, value) => {
+        const { pluginName, schema } = resolvePlugin();
+        await setPluginConfigValue(pluginName, schema, key, value);
+      },
+      reset: async (key) => {
+        const { pluginName, schema } = resolvePlugin();
+        await resetPluginConfigValue(pluginName, schema, key);
+      },
+    };
+  }
+
+  /**
+   * 为插件创建按插件名隔离的存储对象
+   */
+  private createPluginStorage(pluginIdentity: string): PluginStorage {
+    const resolveName = () => {
+      const pluginName = this.findPluginNameByPath(pluginIdentity);
+      if (!pluginName) {
+        throw new Error(`插件 ${pluginIdentity} 尚未注册，无法使用存储`);
+      }
+      return pluginName;
+    };
+
+    return {
+      get: async <T>(key: string) =>
+        (await getStorageValue(resolveName(), key)) as T | undefined,
+      set: async (key, value, options) =>
+        setStorageValue(resolveName(), key, value, options?.ttlMs),
+      delete: async (key) => deleteStorageValue(resolveName(), key),
+      list: async <T>(prefix?: string) =>
+        (await listStorageValues(resolveName(), prefix)) as Array<{
+          key: string;
+          value: T;
+        }>,
+      increment: async (key, by, options) =>
+        incrementStorageValue(resolveName(), key, by, options?.ttlMs),
     };
   }
 
@@ -161,14 +457,20 @@ export class PluginManager {
    * 卸载插件
    */
   async unloadPlugin(pluginName: string) {
-    return unloadPlugin(this.plugins, this.pluginRunTimers, pluginName);
+    const result = await unloadPlugin(
+      this.plugins,
+      this.pluginRunTimers,
+      pluginName
+    );
+    this.syncCommands();
+    return result;
   }
 
   /**
    * 重载插件
    */
   async reloadPlugin(pluginName: string, client: Client): Promise<boolean> {
-    return reloadPlugin(
+    const result = await reloadPlugin(
       this.plugins,
       this.pluginRunTimers,
       this.pluginDir,
@@ -176,6 +478,8 @@ export class PluginManager {
       (modulePath) => this.createPluginApi(modulePath),
       pluginName
     );
+    this.syncCommands();
+    return result;
   }
 
   /**
@@ -189,24 +493,79 @@ export class PluginManager {
    * 禁用插件（添加到禁用列表）
    */
   async disablePlugin(pluginName: string): Promise<boolean> {
-    return disablePlugin(
+    const result = await disablePlugin(
       this.plugins,
       this.pluginRunTimers,
       pluginName,
       (name) => this.hasPlugin(name)
     );
+    this.syncCommands();
+    return result;
   }
 
   /**
    * 删除插件文件或目录
    */
   async deletePlugin(pluginName: string): Promise<boolean> {
-    return deletePlugin(
+    const result = await deletePlugin(
       this.plugins,
       this.pluginRunTimers,
       this.pluginDir,
       pluginName,
       (name) => this.hasPlugin(name)
     );
+    this.syncCommands();
+    return result;
+  }
+
+  /**
+   * 从 git 地址或本地压缩包安装插件
+   */
+  async installPlugin(source: string): Promise<PluginInstallResult> {
+    return this.withHotReloadPaused((client) =>
+      installPlugin(
+        this.plugins,
+        this.pluginRunTimers,
+        this.pluginDir,
+        client,
+        (modulePath) => this.createPluginApi(modulePath),
+        source
+      )
+    );
+  }
+
+  /**
+   * 从安装来源更新插件
+   */
+  async updatePlugin(pluginName: string): Promise<PluginInstallResult> {
+    return this.withHotReloadPaused((client) =>
+      updatePlugin(
+        this.plugins,
+        this.pluginRunTimers,
+        this.pluginDir,
+        client,
+        (modulePath) => this.createPluginApi(modulePath),
+        pluginName
+      )
+    );
+  }
+
+  /**
+   * 安装 / 更新期间暂停热重载，避免文件移动触发重复加载
+   */
+  private async withHotReloadPaused(
+    fn: (client: Client) => Promise<PluginInstallResult>
+  ): Promise<PluginInstallResult> {
+    if (!this.client) {
+      return installResult(false, "installer.noClient");
+    }
+    const watching = this.stopWatching !== null;
+    this.stopHotReload();
+    try {
+      return await fn(this.client);
+    } finally {
+      if (watching) this.startHotReload();
+      this.syncCommands();
+    }
   }
 }
@@ -0,0 +1,145 @@
+import fs from "node:fs";
+import path from "node:path";
+import semver from "semver";
+import type { PluginManifest } from "./BasePlugin.ts";
+
+const ACCOUNT_TYPES = ["user", "bot", "general"];
+
+/**
+ * 当前框架版本（根目录 package.json 的 version）
+ */
+export function getFrameworkVersion(): string {
+    if (process.env.APP_VERSION) return process.env.APP_VERSION;
+    try {
+        const { version } = JSON.parse(
+            fs.readFileSync(new URL("../../package.json", import.meta.url), "utf-8")
+        ) as { version?: string };
+        return version ?? "0.0.0";
+    } catch {
+        return "0.0.0";
+    }
+}
+
+/**
+ * 读取插件清单（无需导入插件模块）
+ *
+ * 仅目录形式的插件支持清单，优先读取 `plugin.json`，
+ * 其次读取 `package.json` 中的 `fuyu` 字段。
+ * @param modulePath 插件入口文件路径
+ * @returns 清单及其来源文件，没有清单时返回 null
+ * @throws 清单文件不是合法 JSON 时抛出
+ */
+export function readPluginManifest(
+    modulePath: string
+): { manifest: PluginManifest; file: string } | null {
+    const dir = path.dirname(modulePath);
+    if (!/^index\.(ts|js)$/i.test(path.basename(modulePath))) return null;
+
+    const pluginJson = path.join(dir, "plugin.json");
+    if (fs.existsSync(pluginJson)) {
+        return {
+            manifest: JSON.parse(fs.readFileSync(pluginJson, "utf-8")) as PluginManifest,
+            file: pluginJson,
+        };
+    }
+
+    const packageJson = path.join(dir, "package.json");
+    if (fs.existsSync(packageJson)) {
+        const pkg = JSON.parse(fs.readFileSync(packageJson, "utf-8")) as {
+            fuyu?: PluginManifest;
+        };
+        if (pkg.fuyu) return { manifest: pkg.fuyu, file: packageJson };
+    }
+
+    return null;
+}
+
+/**
+ * 校验插件清单格式
+ * @returns 错误信息列表，为空表示校验通过
+ */
+export function validatePluginManifest(manifest: PluginManifest): string[] {
+    const errors: string[] = [];
+
+    if (!manifest || typeof manifest !== "object" || Array.isArray(manifest)) {
+        return ["清单必须是对象"];
+    }
+
+    for (const key of ["name", "version", "description", "author", "homepage"] as const) {
+        if (manifest[key] !== undefined && typeof manifest[key] !== "string") {
+            errors.push(`${key} 必须是字符串`);
+        }
+    }
+
+    if (manifest.version !== undefined && !semver.valid(manifest.version)) {
+        errors.push(`version 不是合法的版本号: ${manifest.version}`);
+    }
+
+    if (
+        manifest.minFrameworkVersion !== undefined &&
+        !semver.valid(manifest.minFrameworkVersion)
+    ) {
+        errors.push(`minFrameworkVersion 不是合法的版本号: ${String(manifest.minFrameworkVersion)}`);
+    }
+
+    if (
+        manifest.accountType !== undefined &&
+        !ACCOUNT_TYPES.includes(manifest.accountType)
+    ) {
+        errors.push(`accountType 必须是 ${ACCOUNT_TYPES.join(" / ")} 之一`);
+    }
+
+    for (const key of ["permissions", "accounts"] as const) {
+        const list = manifest[key];
+        if (
+            list !== undefined &&
+            (!Array.isArray(list) || list.some((item) => typeof item !== "string"))
+        ) {
+            errors.push(`${key} 必须是字符串数组`);
+        }
+    }
+
+    for (const key of ["dependencies", "softDependencies"] as const) {
+        const deps = manifest[key];
+        if (deps === undefined) continue;
+        if (typeof deps !== "object" || deps === null || Array.isArray(deps)) {
+            errors.push(`${key} 必须是对象`);
+            continue;
+        }
+        for (const [name, range] of Object.entries(deps)) {
+            if (typeof range !== "string" || !semver.validRange(range)) {
+                errors.push(`${key}.${name} 的版本范围无效: ${String(range)}`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * 检查当前环境是否满足清单要求（框架版本、账号类型）
+ * @param isUserAccount 当前是否为用户账号，未知时传 null
+ * @returns 不满足的原因，满足时返回 null
+ */
+export function checkManifestRequirements(
+    manifest: PluginManifest,
+    isUserAccount: boolean | null
+): string | null {
+    if (manifest.minFrameworkVersion) {
+        const current = semver.coerce(getFrameworkVersion())?.version ?? "0.0.0";
+        if (semver.lt(current, manifest.minFrameworkVersion)) {
+            return `需要框架版本 >= ${manifest.minFrameworkVersion}，当前为 ${current}`;
+        }
+    }
+
+    if (isUserAccount !== null) {
+        if (isUserAccount && manifest.accountType === "bot") {
+            return "需要 Bot 账号，但当前为用户账号";
+        }
+        if (!isUserAccount && manifest.accountType === "user") {
+            return "需要用户账号，但当前为 Bot 账号";
+        }
+    }
+
+    return null;
+}
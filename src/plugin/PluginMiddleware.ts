@@ -0,0 +1,75 @@
+import type {
+    PluginInfo,
+    MiddlewareContext,
+    MiddlewareDef,
+    MiddlewareType,
+} from "./BasePlugin.ts";
+
+/**
+ * 收集作用于指定分发类型的中间件，按优先级从高到低排序
+ * （优先级相同时保持插件加载顺序）
+ */
+function collectMiddlewares(
+    plugins: Map<string, PluginInfo>,
+    type: MiddlewareType
+): MiddlewareDef[] {
+    const entries: MiddlewareDef[] = [];
+
+    for (const pluginInfo of plugins.values()) {
+        const handlers = pluginInfo.instance.middlewareHandlers || {};
+        for (const def of Object.values(handlers)) {
+            if (!def || typeof def.handler !== "function") continue;
+            const types = def.types
+                ? Array.isArray(def.types) ? def.types : [def.types]
+                : undefined;
+            if (types && !types.includes(type)) continue;
+            entries.push(def);
+        }
+    }
+
+    return entries
+        .map((entry, index) => ({ entry, index }))
+        .sort(
+            (a, b) =>
+                (b.entry.priority ?? 0) - (a.entry.priority ?? 0) ||
+                a.index - b.index
+        )
+        .map(({ entry }) => entry);
+}
+
+/**
+ * 依次执行中间件，最后执行 `handler`
+ *
+ * 中间件不调用 `next()` 时中断分发，`handler` 不会执行。
+ * 中间件或处理器抛出的异常会沿中间件链向外传递。
+ * @param handler 实际的分发逻辑
+ */
+export async function runMiddlewares(
+    plugins: Map<string, PluginInfo>,
+    ctx: MiddlewareContext,
+    handler: () => Promise<void>
+): Promise<void> {
+    const middlewares = collectMiddlewares(plugins, ctx.type);
+    if (middlewares.length === 0) {
+        await handler();
+        return;
+    }
+
+    let lastIndex = -1;
+    const dispatch = async (index: number): Promise<void> => {
+        if (index <= lastIndex) {
+            throw new Error("next() 被多次调用");
+        }
+        lastIndex = index;
+
+        const entry = middlewares[index];
+        if (!entry) {
+            await handler();
+            return;
+        }
+
+        await entry.handler(ctx, () => dispatch(index + 1));
+    };
+
+    await dispatch(0);
+}
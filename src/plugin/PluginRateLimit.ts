@@ -0,0 +1,213 @@
+import logger from "@log/index.ts";
+import { getConfig } from "@db/config.ts";
+import { consumeRateLimitToken, refundRateLimitToken } from "@db/rateLimit.ts";
+import type { CmdConfig, RateLimitRule } from "../types/Database.d.ts";
+import type { CommandDef } from "./BasePlugin.ts";
+
+type RateLimitConfig = NonNullable<NonNullable<CmdConfig["cmd"]>["rateLimit"]>;
+type Role = "owner" | "admin" | "user";
+
+/** 未配置时的全局规则：每个用户 10 秒内最多 5 条命令 */
+const DEFAULT_RULE: RateLimitRule = { limit: 5, window: 10 };
+
+/** 未配置时各权限的规则（owner / admin 不受限制） */
+const DEFAULT_ROLE_RULES: Partial<Record<Role, RateLimitRule | false>> = {
+    owner: false,
+    admin: false,
+};
+
+/** 内存令牌桶清理间隔 */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+type Bucket = { tokens: number; updatedAt: number; expiresAt: number };
+
+/** 取出调用次数的结果，`store` 为实际使用的存储（用于退还） */
+type ConsumeResult = { allowed: boolean; retryAfterMs: number; store: "mongo" | "memory" };
+
+const buckets = new Map<string, Bucket>();
+/** 已发送过冷却提示的桶 → 冷却结束时间，冷却期内不重复提示 */
+const notified = new Map<string, number>();
+let lastSweep = Date.now();
+let mongoWarned = false;
+
+/** 频率限制检查结果 */
+export type RateLimitResult =
+    | { allowed: true }
+    | {
+        allowed: false;
+        /** 需要等待的毫秒数 */
+        retryAfterMs: number;
+        /** 是否需要回复冷却提示 */
+        notify: boolean;
+    };
+
+/**
+ * 清理已完全恢复的令牌桶和已结束的冷却提示
+ */
+function sweep(now: number) {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+    for (const [key, bucket] of buckets) {
+        if (bucket.expiresAt <= now) buckets.delete(key);
+    }
+    for (const [key, until] of notified) {
+        if (until <= now) notified.delete(key);
+    }
+}
+
+/**
+ * 从内存令牌桶中取出一次调用次数
+ */
+function consumeMemoryToken(
+    key: string,
+    capacity: number,
+    windowMs: number
+): { allowed: boolean; retryAfterMs: number } {
+    const now = Date.now();
+    sweep(now);
+
+    const rate = capacity / windowMs;
+    const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now, expiresAt: now };
+    const tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * rate);
+    const allowed = tokens >= 1;
+
+    buckets.set(key, {
+        tokens: allowed ? tokens - 1 : tokens,
+        updatedAt: now,
+        expiresAt: now + windowMs,
+    });
+    return {
+        allowed,
+        retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+    };
+}
+
+/**
+ * 退还一次内存令牌桶中的调用次数
+ */
+function refundMemoryToken(key: string, capacity: number) {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.tokens = Math.min(capacity, bucket.tokens + 1);
+}
+
+function ruleCapacity(rule: RateLimitRule): number {
+    return Math.max(1, Math.floor(rule.limit));
+}
+
+/**
+ * 按配置的存储取出一次调用次数（MongoDB 不可用时回退到内存）
+ */
+async function consumeToken(
+    store: RateLimitConfig["store"],
+    key: string,
+    rule: RateLimitRule
+): Promise<ConsumeResult> {
+    const capacity = ruleCapacity(rule);
+    const windowMs = Math.max(1, rule.window) * 1000;
+
+    if (store === "mongo") {
+        try {
+            return { ...(await consumeRateLimitToken(key, capacity, windowMs)), store: "mongo" };
+        } catch (e) {
+            if (!mongoWarned) {
+                mongoWarned = true;
+                logger.warn(e, `[插件管理] 频率限制无法使用 MongoDB，回退到内存存储:`);
+            }
+        }
+    }
+    return { ...consumeMemoryToken(key, capacity, windowMs), store: "memory" };
+}
+
+/**
+ * 退还一次已取出的调用次数（后续规则拒绝调用时使用）
+ */
+async function refundToken(store: ConsumeResult["store"], key: string, rule: RateLimitRule) {
+    const capacity = ruleCapacity(rule);
+    if (store === "memory") {
+        refundMemoryToken(key, capacity);
+        return;
+    }
+    try {
+        await refundRateLimitToken(key, capacity);
+    } catch (e) {
+        logger.debug(e, `[插件管理] 退还频率限制次数失败 (${key}):`);
+    }
+}
+
+/**
+ * 读取频率限制配置
+ */
+async function getRateLimitConfig(): Promise<RateLimitConfig> {
+    try {
+        const configData = await getConfig("config");
+        return configData?.cmd?.rateLimit ?? {};
+    } catch (e) {
+        logger.debug(e, `[插件管理] 读取频率限制配置失败，使用默认配置:`);
+        return {};
+    }
+}
+
+/**
+ * 检查命令调用是否超出频率限制，未超出时计入一次调用
+ *
+ * 依次应用：
+ * - 权限规则：`roles` 中为 false 的权限（默认 owner、admin）不受限制，
+ *   为规则时替代全局规则
+ * - 命令规则：配置的 `commands[命令名]`，其次为命令的 `rateLimit`；为 false 时该命令不受限制
+ * - 全局规则：所有命令共享计数
+ *
+ * 任一规则拒绝时，退还已从其他规则取出的次数（被拒绝的调用不计数）
+ * @param command 命令信息
+ */
+export async function checkCommandRateLimit(command: {
+    /** 命令名（不含别名） */
+    name: string;
+    def: CommandDef;
+    chatId: number;
+    userId: number | null;
+    role: Role;
+}): Promise<RateLimitResult> {
+    const config = await getRateLimitConfig();
+    if (config.enabled === false) return { allowed: true };
+
+    const roleRule = config.roles?.[command.role] ?? DEFAULT_ROLE_RULES[command.role];
+    if (roleRule === false) return { allowed: true };
+
+    const commandRule = config.commands?.[command.name] ?? command.def.rateLimit;
+    if (commandRule === false) return { allowed: true };
+
+    const globalRule = roleRule ?? config.default ?? DEFAULT_RULE;
+    const rules: [string, RateLimitRule][] = [];
+    if (globalRule) rules.push(["*", globalRule]);
+    if (commandRule) rules.push([`cmd:${command.name}`, commandRule]);
+
+    const consumed: [ConsumeResult["store"], string, RateLimitRule][] = [];
+    for (const [name, rule] of rules) {
+        const subject =
+            rule.per === "chat" || command.userId === null
+                ? `chat:${command.chatId}`
+                : `user:${command.userId}`;
+        const key = `${subject}:${name}`;
+        const result = await consumeToken(config.store, key, rule);
+        if (result.allowed) {
+            consumed.push([result.store, key, rule]);
+            continue;
+        }
+
+        for (const [store, consumedKey, consumedRule] of consumed) {
+            await refundToken(store, consumedKey, consumedRule);
+        }
+
+        logger.debug(
+            `[插件管理] 命令 ${command.name} 触发频率限制 (${key})，${result.retryAfterMs}ms 后可用`
+        );
+
+        const mode = rule.mode ?? config.mode ?? "notice";
+        const now = Date.now();
+        const notify = mode === "notice" && (notified.get(key) ?? 0) <= now;
+        if (notify) notified.set(key, now + result.retryAfterMs);
+        return { allowed: false, retryAfterMs: result.retryAfterMs, notify };
+    }
+
+    return { allowed: true };
+}
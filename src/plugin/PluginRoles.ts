@@ -0,0 +1,229 @@
+import logger from "@log/index.ts";
+import { getConfig, upsertConfig } from "@db/config.ts";
+import type { RoleAssignment, RolesConfig } from "../types/Database.d.ts";
+import { DEFAULT_LOCALE, createTranslator } from "./PluginI18n.ts";
+
+/** 内置的权限级别（其余字符串视为权限节点） */
+const BUILTIN_PERMISSIONS = ["all", "admin", "owner", "chat_admin"];
+
+/** 内置权限级别保留的名称，不能作为角色名 */
+const RESERVED_ROLE_NAMES = [...BUILTIN_PERMISSIONS, "user"];
+
+const ROLE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const PERMISSION_NODE_PATTERN = /^(\*|[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*(\.\*)?)$/;
+
+/**
+ * 角色操作结果
+ */
+export interface RoleResult {
+    /** 是否成功 */
+    success: boolean;
+    /** 结果说明（框架默认语言） */
+    message: string;
+    /** 结果说明的语言键（框架语言文件中的 `roles.*`），回复用户时用 `t(messageKey, messageParams)` 翻译 */
+    messageKey: string;
+    /** 语言键的插值参数 */
+    messageParams: Record<string, string | number>;
+}
+
+function roleResult(
+    success: boolean,
+    key: string,
+    params: Record<string, string | number>
+): RoleResult {
+    return {
+        success,
+        message: createTranslator(DEFAULT_LOCALE)(key, params),
+        messageKey: key,
+        messageParams: params,
+    };
+}
+
+/**
+ * 判断权限要求是否为权限节点（而非 `all` / `admin` / `owner` / `chat_admin`）
+ */
+export function isPermissionNode(permission: string): boolean {
+    return !BUILTIN_PERMISSIONS.includes(permission);
+}
+
+/**
+ * 校验权限节点格式
+ */
+export function isValidPermissionNode(node: string): boolean {
+    return PERMISSION_NODE_PATTERN.test(node);
+}
+
+/**
+ * 判断已授予的节点是否包含所需节点（`*` 匹配全部，`plugin.*` 匹配 `plugin.` 开头的节点）
+ */
+export function matchPermissionNode(granted: string, node: string): boolean {
+    if (granted === "*" || granted === node) return true;
+    return granted.endsWith(".*") && node.startsWith(granted.slice(0, -1));
+}
+
+/**
+ * 判断节点列表中是否包含所需节点
+ */
+export function hasPermissionNode(nodes: readonly string[], node: string): boolean {
+    return nodes.some((granted) => matchPermissionNode(granted, node));
+}
+
+/**
+ * 读取角色配置
+ */
+export async function getRolesConfig(): Promise<Omit<RolesConfig, "type">> {
+    try {
+        const config = await getConfig("roles");
+        return {
+            roles: config?.roles ?? {},
+            assignments: config?.assignments ?? [],
+        };
+    } catch (e) {
+        logger.debug(e, `[插件管理] 读取角色配置失败:`);
+        return { roles: {}, assignments: [] };
+    }
+}
+
+function isSameAssignment(a: RoleAssignment, b: RoleAssignment): boolean {
+    return a.user_id === b.user_id && a.role === b.role && a.chat_id === b.chat_id;
+}
+
+/**
+ * 获取用户在指定对话中生效的角色（全局分配 + 该对话的分配）
+ * @param chatId 可选：对话 ID，省略时只返回全局分配的角色
+ */
+export async function getUserRoles(userId: number, chatId?: number): Promise<string[]> {
+    const { roles, assignments } = await getRolesConfig();
+    const result = new Set<string>();
+    for (const assignment of assignments) {
+        if (assignment.user_id !== userId || !roles[assignment.role]) continue;
+        if (assignment.chat_id !== undefined && assignment.chat_id !== chatId) continue;
+        result.add(assignment.role);
+    }
+    return [...result];
+}
+
+/**
+ * 获取用户在指定对话中拥有的权限节点
+ * @param chatId 可选：对话 ID，省略时只计算全局分配的角色
+ */
+export async function getUserPermissionNodes(
+    userId: number,
+    chatId?: number
+): Promise<string[]> {
+    const { roles } = await getRolesConfig();
+    const nodes = new Set<string>();
+    for (const role of await getUserRoles(userId, chatId)) {
+        for (const node of roles[role]?.permissions ?? []) nodes.add(node);
+    }
+    return [...nodes];
+}
+
+/**
+ * 创建或更新角色
+ */
+export async function setRole(
+    name: string,
+    permissions: string[],
+    description?: string
+): Promise<RoleResult> {
+    if (!ROLE_NAME_PATTERN.test(name) || RESERVED_ROLE_NAMES.includes(name)) {
+        return roleResult(false, "roles.invalidName", {
+            name,
+            reserved: RESERVED_ROLE_NAMES.join(", "),
+        });
+    }
+    const invalid = permissions.filter((node) => !isValidPermissionNode(node));
+    if (invalid.length > 0) {
+        return roleResult(false, "roles.invalidNodes", { nodes: invalid.join(", ") });
+    }
+
+    const config = await getRolesConfig();
+    const existed = name in config.roles;
+    await upsertConfig("roles", {
+        ...config,
+        roles: {
+            ...config.roles,
+            [name]: {
+                ...(description && { description }),
+                permissions: [...new Set(permissions)],
+            },
+        },
+    });
+    logger.info(`[插件管理] 角色 ${name} 已${existed ? "更新" : "创建"}: ${permissions.join(", ")}`);
+    return roleResult(true, existed ? "roles.updated" : "roles.created", { name });
+}
+
+/**
+ * 删除角色及其全部分配
+ * @returns 角色是否存在并删除
+ */
+export async function deleteRole(name: string): Promise<boolean> {
+    const config = await getRolesConfig();
+    if (!(name in config.roles)) return false;
+
+    const { [name]: _removed, ...roles } = config.roles;
+    await upsertConfig("roles", {
+        roles,
+        assignments: config.assignments.filter((a) => a.role !== name),
+    });
+    logger.info(`[插件管理] 角色 ${name} 已删除`);
+    return true;
+}
+
+/**
+ * 为用户分配角色
+ * @param chatId 可选：只在此对话中生效
+ */
+export async function assignRole(
+    userId: number,
+    role: string,
+    chatId?: number
+): Promise<RoleResult> {
+    const config = await getRolesConfig();
+    if (!config.roles[role]) {
+        return roleResult(false, "roles.notFound", { role });
+    }
+
+    const assignment: RoleAssignment = {
+        user_id: userId,
+        role,
+        ...(chatId !== undefined && { chat_id: chatId }),
+    };
+    if (config.assignments.some((a) => isSameAssignment(a, assignment))) {
+        return roleResult(false, "roles.alreadyAssigned", { userId, role });
+    }
+
+    await upsertConfig("roles", {
+        ...config,
+        assignments: [...config.assignments, assignment],
+    });
+    logger.info(
+        `[插件管理] 用户 ${userId} 已分配角色 ${role}${chatId !== undefined ? `（对话 ${chatId}）` : ""}`
+    );
+    return roleResult(true, "roles.assigned", { userId, role });
+}
+
+/**
+ * 撤销用户的角色
+ * @param chatId 可选：撤销在此对话中的分配，省略时撤销全局分配
+ * @returns 是否存在并撤销
+ */
+export async function unassignRole(
+    userId: number,
+    role: string,
+    chatId?: number
+): Promise<boolean> {
+    const config = await getRolesConfig();
+    const target: RoleAssignment = {
+        user_id: userId,
+        role,
+        ...(chatId !== undefined && { chat_id: chatId }),
+    };
+    const assignments = config.assignments.filter((a) => !isSameAssignment(a, target));
+    if (assignments.length === config.assignments.length) return false;
+
+    await upsertConfig("roles", { ...config, assignments });
+    logger.info(`[插件管理] 用户 ${userId} 的角色 ${role} 已撤销`);
+    return true;
+}
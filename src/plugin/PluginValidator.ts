@@ -2,6 +2,14 @@ import logger from "@log/index.ts";
 import { getConfig } from "@db/config.ts";
 import type { Client } from "tdl";
 import type { InlineContext, InlineScope } from "@TDLib/types/inline.ts";
+import { getAccountByClient } from "@TDLib/Accounts.ts";
+import {
+    isPermissionNode,
+    hasPermissionNode,
+    getUserPermissionNodes,
+} from "./PluginRoles.ts";
+import { DEFAULT_LOCALE, createTranslator } from "./PluginI18n.ts";
+import type { Translator } from "./BasePlugin.ts";
 
 /**
  * 检查聊天类型
@@ -59,9 +67,12 @@ export async function getUserPermission(
 
 /**
  * 检查当前账户是否为用户账户
+ * @param client 可选：账号的 TDLib 客户端，省略时使用主账号的登录信息
  * @returns 是否为用户账户
  */
-export async function isUserAccount(): Promise<boolean> {
+export async function isUserAccount(client?: Client): Promise<boolean> {
+    const account = getAccountByClient(client);
+    if (account) return account.isUserAccount;
     try {
         const meConfig = await getConfig("me");
         if (meConfig && meConfig.info && meConfig.info.type) {
@@ -76,9 +87,12 @@ export async function isUserAccount(): Promise<boolean> {
 
 /**
  * 获取自己的 ID
+ * @param client 可选：账号的 TDLib 客户端，省略时使用主账号的登录信息
  * @returns 自己的用户 ID，如果无法获取则返回 null
  */
-export async function getMyUserId(): Promise<number | null> {
+export async function getMyUserId(client?: Client): Promise<number | null> {
+    const account = getAccountByClient(client);
+    if (account) return account.me.id;
     try {
         const meConfig = await getConfig("me");
         if (meConfig && meConfig.info && typeof meConfig.info.id === "number") {
@@ -91,14 +105,63 @@ export async function getMyUserId(): Promise<number | null> {
     }
 }
 
+/**
+ * 检查用户是否拥有权限节点（管理员和超级管理员拥有全部节点）
+ * @param node 权限节点
+ * @param userPermission 用户权限
+ * @param userId 用户 ID
+ * @param t 用于生成拒绝原因
+ * @param chatId 可选：当前对话 ID（用于按对话分配的角色）
+ */
+async function checkPermissionNode(
+    node: string,
+    userPermission: "owner" | "admin" | "user",
+    userId: number | null,
+    t: Translator,
+    chatId?: number
+): Promise<{ allowed: boolean; reason?: string }> {
+    if (userPermission !== "user") {
+        return { allowed: true };
+    }
+    if (userId !== null) {
+        const nodes = await getUserPermissionNodes(userId, chatId);
+        if (hasPermissionNode(nodes, node)) {
+            return { allowed: true };
+        }
+    }
+    return { allowed: false, reason: t("validator.needNode", { node }) };
+}
+
+/**
+ * 检查调用者是否为当前群组/频道的管理员（Bot 的管理员和超级管理员直接通过）
+ */
+async function checkChatAdmin(
+    chatType: "private" | "group" | "channel",
+    userPermission: "owner" | "admin" | "user",
+    t: Translator,
+    isChatAdmin?: () => Promise<boolean>
+): Promise<{ allowed: boolean; reason?: string }> {
+    if (userPermission !== "user") {
+        return { allowed: true };
+    }
+    if (chatType !== "private" && isChatAdmin && (await isChatAdmin())) {
+        return { allowed: true };
+    }
+    return { allowed: false, reason: t("validator.needChatAdmin") };
+}
+
 /**
  * 验证命令权限和场景
  * @param commandName 命令名称
  * @param scope 命令场景要求（字符串或字符串数组）
- * @param permission 命令权限要求
+ * @param permission 命令权限要求（`all` / `admin` / `owner` 或权限节点）
  * @param chatType 当前聊天类型
  * @param userPermission 用户权限
  * @param userId 用户 ID
+ * @param chatId 可选：当前对话 ID（用于按对话分配的角色）
+ * @param isChatAdmin 可选：检查调用者是否为当前群组管理员（`chat_admin` 权限使用，未提供时视为不是）
+ * @param locale 可选：拒绝原因使用的语言
+ * @param client 可选：收到命令的账号的 TDLib 客户端（用于判断账号类型）
  * @returns 是否允许执行
  */
 export async function validateCommandAccess(
@@ -107,8 +170,14 @@ export async function validateCommandAccess(
     permission: string = "all",
     chatType: "private" | "group" | "channel",
     userPermission: "owner" | "admin" | "user",
-    userId: number | null = null
+    userId: number | null = null,
+    chatId?: number,
+    isChatAdmin?: () => Promise<boolean>,
+    locale: string = DEFAULT_LOCALE,
+    client?: Client
 ): Promise<{ allowed: boolean; reason?: string }> {
+    const t = createTranslator(locale);
+
     // 从配置文件读取覆盖设置
     try {
         const configData = await getConfig("config");
@@ -130,59 +199,67 @@ export async function validateCommandAccess(
 
     if (!scopeArray.includes("all")) {
         if (!scopeArray.includes(chatType)) {
-            const scopeNames: Record<string, string> = {
-                private: "私聊",
-                group: "群组",
-                channel: "频道",
-            };
-
             const allowedNames = scopeArray
                 .filter((s) => s !== "all")
-                .map((s) => scopeNames[s] || s)
-                .join("、");
+                .map((s) => t.find(`validator.scope.${s}`) ?? s)
+                .join(t("common.separator"));
 
             return {
                 allowed: false,
-                reason: `此命令只能在${allowedNames}中使用`,
+                reason: t("validator.scopeOnly", { scopes: allowedNames }),
             };
         }
     }
 
-    const isUserAcc = await isUserAccount();
+    const isUserAcc = await isUserAccount(client);
 
     if (isUserAcc) {
-        const myId = await getMyUserId();
+        const myId = await getMyUserId(client);
 
         if (userId !== null && myId !== null && userId === myId) {
             return { allowed: true };
         }
 
+        if (isPermissionNode(permission)) {
+            return checkPermissionNode(permission, userPermission, userId, t, chatId);
+        }
+
+        if (permission === "chat_admin") {
+            return checkChatAdmin(chatType, userPermission, t, isChatAdmin);
+        }
+
         if (permission === "all") {
             if (userPermission !== "owner" && userPermission !== "admin") {
                 if (userId === null || myId === null || userId !== myId) {
-                    return { allowed: false, reason: "此命令需要管理员权限或以上" };
+                    return { allowed: false, reason: t("validator.needAdminOrAbove") };
                 }
             }
             return { allowed: true };
         } else if (permission === "owner") {
             if (userPermission !== "owner") {
-                return { allowed: false, reason: "此命令只有超级管理员可以使用" };
+                return { allowed: false, reason: t("validator.ownerOnly") };
             }
             return { allowed: true };
         } else if (permission === "admin") {
             if (userPermission === "user") {
-                return { allowed: false, reason: "此命令需要管理员权限" };
+                return { allowed: false, reason: t("validator.needAdmin") };
             }
             return { allowed: true };
         }
         return { allowed: true };
     } else {
+        if (isPermissionNode(permission)) {
+            return checkPermissionNode(permission, userPermission, userId, t, chatId);
+        }
+        if (permission === "chat_admin") {
+            return checkChatAdmin(chatType, userPermission, t, isChatAdmin);
+        }
         if (permission !== "all") {
             if (permission === "owner" && userPermission !== "owner") {
-                return { allowed: false, reason: "此命令只有超级管理员可以使用" };
+                return { allowed: false, reason: t("validator.ownerOnly") };
             }
             if (permission === "admin" && userPermission === "user") {
-                return { allowed: false, reason: "此命令需要管理员权限" };
+                return { allowed: false, reason: t("validator.needAdmin") };
             }
         }
         return { allowed: true };
@@ -222,10 +299,14 @@ export function isInlineInScope(
 
 /**
  * 检查用户是否有权限使用此内联处理器
+ * @param permission 权限要求（`all` / `admin` / `owner` 或权限节点）
+ * @param role 用户权限
+ * @param nodes 用户拥有的权限节点（管理员和超级管理员拥有全部节点）
  */
 export function hasInlinePermission(
-    permission: "owner" | "admin" | "all",
-    role: "owner" | "admin" | "user"
+    permission: string,
+    role: "owner" | "admin" | "user",
+    nodes: readonly string[] = []
 ): boolean {
     if (permission === "all") {
         return true;
@@ -236,5 +317,5 @@ export function hasInlinePermission(
     if (permission === "owner") {
         return role === "owner";
     }
-    return false;
+    return role !== "user" || hasPermissionNode(nodes, permission);
 }
@@ -1,17 +1,21 @@
-import type { PluginInfo } from "./BasePlugin.ts";
+import type { PluginInfo, Translator } from "./BasePlugin.ts";
 import type { InlineContext, InlineScope } from "@TDLib/types/inline.ts";
 import type { inlineQueryResultsButton$Input } from "tdlib-types";
+import { hasInlinePermission } from "./PluginValidator.ts";
+import { DEFAULT_LOCALE, createTranslator } from "./PluginI18n.ts";
 
 export type InlineToolEntry = {
     pluginName: string;
     handlerName: string;
     name: string;
+    /** 内联工具说明（未填写时为空字符串） */
     description: string;
 };
 
 export function collectInlineToolEntries(
     plugins: PluginInfo[],
-    ctx: Pick<InlineContext, "chat_type" | "role">
+    ctx: Pick<InlineContext, "chat_type" | "role">,
+    nodes: readonly string[] = []
 ): InlineToolEntry[] {
     const entries: InlineToolEntry[] = [];
 
@@ -26,7 +30,8 @@ export function collectInlineToolEntries(
 
             const hasPermission = hasInlinePermission(
                 inlineDef.permission || "all",
-                ctx.role
+                ctx.role,
+                nodes
             );
             if (!hasPermission) {
                 continue;
@@ -36,7 +41,7 @@ export function collectInlineToolEntries(
                 pluginName: pluginInfo.name,
                 handlerName,
                 name: inlineDef.name,
-                description: inlineDef.description || "无介绍",
+                description: inlineDef.description || "",
             });
         }
     }
@@ -44,24 +49,29 @@ export function collectInlineToolEntries(
     return entries;
 }
 
-export function renderInlineToolListText(entries: InlineToolEntry[]): string {
+export function renderInlineToolListText(
+    entries: InlineToolEntry[],
+    t: Translator = createTranslator(DEFAULT_LOCALE)
+): string {
     if (entries.length === 0) {
-        return "当前没有可用的内联工具。";
+        return t("inline.empty");
     }
 
-    const lines = ["可用内联工具："];
+    const lines = [t("inline.title")];
 
     for (const entry of entries) {
-        lines.push(`• ${entry.name} - ${entry.description}`);
+        lines.push(`• ${entry.name} - ${entry.description || t("inline.noDescription")}`);
     }
 
     return lines.join("\n");
 }
 
-export function buildBotStartInlineButton(): inlineQueryResultsButton$Input {
+export function buildBotStartInlineButton(
+    t: Translator = createTranslator(DEFAULT_LOCALE)
+): inlineQueryResultsButton$Input {
     return {
         _: "inlineQueryResultsButton",
-        text: "内联工具帮助",
+        text: t("inline.helpButton"),
         type: {
             _: "inlineQueryResultsButtonTypeStartBot",
             parameter: "inlinehelp",
@@ -96,18 +106,3 @@ function isInlineInScope(
 
     return true;
 }
-
-function hasInlinePermission(
-    permission: "owner" | "admin" | "all",
-    role: InlineContext["role"]
-): boolean {
-    if (permission === "all") {
-        return true;
-    }
-
-    if (permission === "admin") {
-        return role === "admin" || role === "owner";
-    }
-
-    return role === "owner";
-}
\ No newline at end of file
@@ -11,14 +11,122 @@ export type AdminConfig = {
   temp_super_admin_password?: string;
 };
 
+/**
+ * 自定义角色
+ */
+export type RoleDefinition = {
+  /** 可选：角色说明 */
+  description?: string;
+  /** 权限节点（如 `plugin.reload`，支持 `plugin.*` 和 `*` 通配） */
+  permissions: string[];
+};
+
+/**
+ * 角色分配
+ */
+export type RoleAssignment = {
+  user_id: number;
+  role: string;
+  /** 可选：只在此对话中生效，省略时全局生效 */
+  chat_id?: number;
+};
+
+/**
+ * 自定义角色与权限节点（owner 与 admin 拥有全部权限节点）
+ */
+export type RolesConfig = {
+  type: "roles";
+  /** 角色名 → 角色定义 */
+  roles: Record<string, RoleDefinition>;
+  /** 角色分配 */
+  assignments: RoleAssignment[];
+};
+
+/**
+ * 访问名单中的一项（用户或对话）
+ */
+export type AccessEntry = {
+  /** 用户 ID 或对话 ID */
+  id: number;
+  /** 可选：原因 */
+  reason?: string;
+  /** 添加者用户 ID */
+  added_by?: number;
+  /** 添加时间（毫秒时间戳） */
+  added_at: number;
+  /** 可选：过期时间（毫秒时间戳），过期后自动失效 */
+  expires_at?: number;
+};
+
+/**
+ * 全局访问名单（对命令、内联查询和回调查询生效，owner 与 admin 不受限制）
+ */
+export type AccessConfig = {
+  type: "access";
+  /** 禁止使用 Bot 的用户 */
+  blocked_users: AccessEntry[];
+  /** 禁止使用 Bot 的对话 */
+  blocked_chats: AccessEntry[];
+  /** 白名单模式下允许使用 Bot 的群组/频道 */
+  allowed_chats: AccessEntry[];
+  /** 白名单模式：只有 `allowed_chats` 中的群组/频道可以使用（私聊不受影响） */
+  allowlist_mode?: boolean;
+};
+
 export type PluginsConfig = {
   type: "plugins";
   disabled: string[];
+  /** 通过 `/plugin install` 安装的插件来源（插件名 → git 地址或压缩包路径） */
+  sources?: Record<string, string>;
+  /**
+   * 多个插件注册同名命令时的处理策略
+   * - `first-wins`: 先加载的插件处理（默认）
+   * - `priority`: 插件 `priority` 最大的处理，相同时先加载的处理
+   */
+  commandPolicy?: "first-wins" | "priority";
+  /** 指定同名命令由哪个插件处理（命令名或别名 → 插件名），优先于 `commandPolicy` */
+  commandOverrides?: Record<string, string>;
+  /** 指定插件加载到哪些账号（插件名 → 账号名列表），优先于插件自身声明的 `accounts` */
+  accounts?: Record<string, string[]>;
+  /** 更新分发队列设置（每个账号独立计算） */
+  dispatch?: DispatchConfig;
+};
+
+/**
+ * 更新分发队列设置
+ */
+export type DispatchConfig = {
+  /** 同一对话的更新是否按接收顺序逐个处理（默认 true） */
+  perChatOrder?: boolean;
+  /** 同时处理的更新数上限（默认 16） */
+  concurrency?: number;
+  /** 排队更新数上限，超过后新的更新等待入队；等待入队的更新也达到此数量时丢弃新的更新（默认 1000） */
+  maxPending?: number;
+};
+
+/**
+ * 命令频率限制规则（令牌桶）
+ */
+export type RateLimitRule = {
+  /** 桶容量：最多可连续调用的次数 */
+  limit: number;
+  /** 用完后完全恢复所需的时间（秒），次数按 `limit / window` 的速度匀速恢复 */
+  window: number;
+  /**
+   * 计数维度
+   * - `user`: 每个用户单独计数（默认；以频道/群组身份发送时按对话计数）
+   * - `chat`: 同一对话内所有用户共享计数
+   */
+  per?: "user" | "chat";
+  /** 超出限制时的处理方式，未设置时使用全局设置 */
+  mode?: "notice" | "silent";
 };
 
 export type CmdConfig = {
   type: "config";
   PREFIXES: string[];
+  /** 可选：默认语言（语言代码，如 `zh`、`en`），未设置时为 `zh` */
+  LANGUAGE?: string;
   cmd?: {
     help?: string;
     start?: string;
@@ -30,9 +138,33 @@ export type CmdConfig = {
         | "group"
         | "channel"
         | ("private" | "group" | "channel")[];
-        permission?: "all" | "admin" | "owner";
+        /** `all` / `admin` / `owner` / `chat_admin`，或权限节点 */
+        permission?: "all" | "admin" | "owner" | "chat_admin" | (string & {});
       };
     };
+    /** 命令频率限制（防刷屏） */
+    rateLimit?: {
+      /** 是否启用，默认启用 */
+      enabled?: boolean;
+      /**
+       * 计数存储
+       * - `memory`: 进程内存（默认，重启后清空）
+       * - `mongo`: MongoDB `rate_limits` 集合（多实例共享），不可用时回退到内存
+       */
+      store?: "memory" | "mongo";
+      /**
+       * 超出限制时的处理方式
+       * - `notice`: 回复冷却提示（默认，同一冷却期内只提示一次）
+       * - `silent`: 直接忽略
+       */
+      mode?: "notice" | "silent";
+      /** 全局规则（所有命令共享计数），false 表示不启用全局规则 */
+      default?: RateLimitRule | false;
+      /** 按用户权限覆盖全局规则，false 表示不受限制（默认 owner 和 admin 不受限制） */
+      roles?: Partial<Record<"owner" | "admin" | "user", RateLimitRule | false>>;
+      /** 按命令名覆盖命令自身的 `rateLimit`，false 表示该命令不受限制 */
+      commands?: Record<string, RateLimitRule | false>;
+    };
   };
 };
 
@@ -41,26 +173,198 @@ export type BotConfig = {
   account_type: boolean;
 };
 
+/**
+ * 账号定义
+ */
+export type AccountDefinition = {
+  /** 账号名（只能包含字母、数字、_ 和 -） */
+  name: string;
+  /**
+   * 可选：TDLib 数据库目录，
+   * 默认 `./TDLib/<账号名>/_td_database`（`default` 账号为 `./TDLib/_td_database`）
+   */
+  database_directory?: string;
+  /**
+   * 可选：TDLib 文件目录，
+   * 默认 `./TDLib/<账号名>/_td_files`（`default` 账号为 `./TDLib/_td_files`）
+   */
+  files_directory?: string;
+  /** 可选：无人值守登录设置（同名环境变量优先） */
+  login?: AccountLoginConfig;
+};
+
+/**
+ * 无人值守登录设置
+ *
+ * 验证码和两步验证密码只能通过环境变量、文件或本地提示服务提供，不写入配置
+ */
+export type AccountLoginConfig = {
+  /** 登录方式，省略时按是否配置了 `bot_token` / `phone` / `qr_file` 推断 */
+  type?: "bot" | "user" | "qr";
+  /** Bot Token */
+  bot_token?: string;
+  /** 手机号（包含区号） */
+  phone?: string;
+  /** 验证码文件，登录时等待该文件写入验证码，读取后删除 */
+  code_file?: string;
+  /** 两步验证密码文件，登录时等待该文件写入密码，读取后删除 */
+  password_file?: string;
+  /**
+   * 本地提示服务地址，登录时在此地址等待提交验证码或密码
+   * - `http://127.0.0.1:<端口>`（只允许本机地址）
+   * - `unix:<套接字路径>`
+   */
+  prompt?: string;
+  /** 扫码登录时写入二维码的文件，`.png` 结尾时写入图片，否则写入链接 */
+  qr_file?: string;
+  /** 等待验证码或密码的超时时间（秒），默认 300 */
+  timeout?: number;
+};
+
+/**
+ * 多账号配置：同一进程中运行多个 TDLib 客户端
+ *
+ * 第一个账号为主账号，其登录信息同时写入 `me` / `bot` 配置
+ */
+export type AccountsConfig = {
+  type: "accounts";
+  /** 账号列表，为空时只运行 `default` 账号 */
+  accounts: AccountDefinition[];
+};
+
 export type MeConfig = {
   type: "me";
   info: user;
 };
 
+/**
+ * 插件自定义配置（按插件 `configSchema` 校验），只保存与默认值不同的项
+ */
+export type PluginConfigValues = {
+  type: "pluginConfig";
+  values: {
+    [pluginName: string]: Record<string, unknown>;
+  };
+};
+
 export type Config =
   | AdminConfig
+  | AccessConfig
+  | RolesConfig
   | PluginsConfig
   | CmdConfig
   | BotConfig
-  | MeConfig;
+  | AccountsConfig
+  | MeConfig
+  | PluginConfigValues;
 
 export type ConfigMap = {
   admin: AdminConfig;
+  access: AccessConfig;
+  roles: RolesConfig;
   plugins: PluginsConfig;
   config: CmdConfig;
   bot: BotConfig;
+  accounts: AccountsConfig;
   me: MeConfig;
+  pluginConfig: PluginConfigValues;
 };
 
 export type DatabaseSchema = {
   configs: Partial<ConfigMap>;
 };
+
+/**
+ * 持久化的会话状态（MongoDB `conversations` 集合）
+ */
+export type ConversationRecord = {
+  /** `${chat_id}:${user_id}`，非 `default` 账号为 `${account}:${chat_id}:${user_id}` */
+  key: string;
+  /** 可选：会话所属账号，省略时为 `default` */
+  account?: string;
+  chat_id: number;
+  user_id: number;
+  /** 会话所属插件名称 */
+  plugin: string;
+  /** 会话名称 */
+  name: string;
+  /** 当前步骤 */
+  step: number;
+  /** 会话数据 */
+  data: Record<string, unknown>;
+  /** 过期时间 */
+  expires_at: Date;
+};
+
+/**
+ * 对话设置（MongoDB `chat_settings` 集合），未设置的项使用全局配置
+ */
+export type ChatSettingsRecord = {
+  chat_id: number;
+  /** 可选：命令前缀，覆盖全局的 `PREFIXES` */
+  prefixes?: string[];
+  /** 可选：对话语言（语言代码，如 `zh`、`en`） */
+  language?: string;
+  /** 在此对话中禁用的插件 */
+  disabled_plugins?: string[];
+  /** 在此对话中禁用的命令（命令定义名） */
+  disabled_commands?: string[];
+  /** 更新时间 */
+  updated_at: Date;
+};
+
+/**
+ * 用户设置（MongoDB `user_settings` 集合）
+ */
+export type UserSettingsRecord = {
+  user_id: number;
+  /** 可选：用户选择的语言（语言代码），优先于对话语言 */
+  language?: string;
+  /** 更新时间 */
+  updated_at: Date;
+};
+
+/**
+ * 插件存储记录（MongoDB `plugin_storage` 集合）
+ */
+export type PluginStorageRecord = {
+  /** 插件名称 */
+  plugin: string;
+  /** 键 */
+  key: string;
+  /** 值 */
+  value: unknown;
+  /** 可选：过期时间 */
+  expires_at?: Date;
+};
+
+/**
+ * 命令频率限制的令牌桶（MongoDB `rate_limits` 集合）
+ */
+export type RateLimitRecord = {
+  /** 桶标识 */
+  key: string;
+  /** 剩余次数（可为小数） */
+  tokens: number;
+  /** 最近一次取用是否成功 */
+  allowed: boolean;
+  /** 上次更新时间 */
+  updated_at: Date;
+  /** 过期时间（届时次数已完全恢复，可直接删除） */
+  expires_at: Date;
+};
+
+/**
+ * 插件存储的本地回退文件结构（config/plugin_storage.json）
+ */
+export type StorageSchema = {
+  plugins: {
+    [plugin: string]: {
+      [key: string]: {
+        value: unknown;
+        /** 过期时间（毫秒时间戳） */
+        expires_at?: number;
+      };
+    };
+  };
+};